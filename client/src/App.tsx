@@ -4,12 +4,18 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { queryClient } from "./lib/queryClient";
 import { Toaster } from "@/components/ui/toaster";
 import { WalletProvider } from "./lib/web3.tsx";
+import { TransactionProvider } from "./lib/transactions";
+import { useRealtimeUpdates } from "@/hooks/use-realtime-updates";
 import Header from "./components/layout/header";
 import Footer from "./components/layout/footer";
 import NotFound from "@/pages/not-found";
 import Home from "@/pages/home";
 import Tokens from "@/pages/tokens";
+import TokenPage from "@/pages/token";
+import AirdropPage from "@/pages/airdrop";
+import Vesting from "@/pages/vesting";
 import Proposals from "@/pages/proposals";
+import ProposalPage from "@/pages/proposal";
 import CreateToken from "@/pages/create-token";
 import CreateProposal from "@/pages/create-proposal";
 
@@ -28,24 +34,32 @@ function App() {
     document.documentElement.classList.toggle("dark", theme === "dark");
   }, [theme]);
 
+  useRealtimeUpdates();
+
   return (
     <QueryClientProvider client={queryClient}>
       <WalletProvider>
-        <div className="min-h-screen flex flex-col bg-background text-foreground">
-          <Header toggleTheme={toggleTheme} theme={theme} />
-          <main className="flex-grow">
-            <Switch>
-              <Route path="/" component={Home} />
-              <Route path="/tokens" component={Tokens} />
-              <Route path="/proposals" component={Proposals} />
-              <Route path="/create-token" component={CreateToken} />
-              <Route path="/create-proposal" component={CreateProposal} />
-              <Route component={NotFound} />
-            </Switch>
-          </main>
-          <Footer />
-        </div>
-        <Toaster />
+        <TransactionProvider>
+          <div className="min-h-screen flex flex-col bg-background text-foreground">
+            <Header toggleTheme={toggleTheme} theme={theme} />
+            <main className="flex-grow">
+              <Switch>
+                <Route path="/" component={Home} />
+                <Route path="/tokens" component={Tokens} />
+                <Route path="/tokens/:address" component={TokenPage} />
+                <Route path="/airdrops/:id" component={AirdropPage} />
+                <Route path="/vesting" component={Vesting} />
+                <Route path="/proposals" component={Proposals} />
+                <Route path="/proposals/:id" component={ProposalPage} />
+                <Route path="/create-token" component={CreateToken} />
+                <Route path="/create-proposal" component={CreateProposal} />
+                <Route component={NotFound} />
+              </Switch>
+            </main>
+            <Footer />
+          </div>
+          <Toaster />
+        </TransactionProvider>
       </WalletProvider>
     </QueryClientProvider>
   );
@@ -2,6 +2,8 @@ import React from "react";
 import { Link, useLocation } from "wouter";
 import Logo from "../ui/logo";
 import ConnectButton from "../wallet/connect-button";
+import NetworkBanner from "../wallet/network-banner";
+import TransactionsDrawer from "../wallet/transactions-drawer";
 import { Moon, Sun } from "lucide-react";
 import { Button } from "../ui/button";
 
@@ -30,6 +32,9 @@ const Header: React.FC<HeaderProps> = ({ toggleTheme, theme }) => {
             <NavLink href="/proposals" active={location === "/proposals"}>
               Proposals
             </NavLink>
+            <NavLink href="/vesting" active={location === "/vesting"}>
+              Vesting
+            </NavLink>
             <NavLink href="/create-token" active={location === "/create-token"}>
               Create
             </NavLink>
@@ -49,9 +54,12 @@ const Header: React.FC<HeaderProps> = ({ toggleTheme, theme }) => {
             )}
           </Button>
 
+          <TransactionsDrawer />
+
           <ConnectButton />
         </div>
       </div>
+      <NetworkBanner />
     </header>
   );
 };
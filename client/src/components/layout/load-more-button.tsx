@@ -0,0 +1,25 @@
+import React from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+interface LoadMoreButtonProps {
+  hasMore: boolean;
+  isLoadingMore: boolean;
+  onLoadMore: () => void;
+}
+
+// Shown under paginated lists until their last page is loaded
+const LoadMoreButton: React.FC<LoadMoreButtonProps> = ({ hasMore, isLoadingMore, onLoadMore }) => {
+  if (!hasMore) return null;
+
+  return (
+    <div className="flex justify-center mt-6">
+      <Button variant="outline" onClick={onLoadMore} disabled={isLoadingMore}>
+        {isLoadingMore && <Loader2 className="animate-spin" />}
+        Load more
+      </Button>
+    </div>
+  );
+};
+
+export default LoadMoreButton;
@@ -0,0 +1,119 @@
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Plus } from "lucide-react";
+import { ACTION_TEMPLATES, encodeAction } from "@/lib/actions";
+import { type InsertProposalAction, type Token } from "@shared/schema";
+
+interface ActionBuilderProps {
+  // The proposal's token, the only contract its actions can call
+  token: Token | undefined;
+  onAdd: (action: InsertProposalAction) => void;
+  disabled?: boolean;
+}
+
+const ActionBuilder: React.FC<ActionBuilderProps> = ({
+  token,
+  onAdd,
+  disabled = false,
+}) => {
+  const [templateId, setTemplateId] = useState(ACTION_TEMPLATES[0].id);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  const template = ACTION_TEMPLATES.find((template) => template.id === templateId)!;
+
+  const handleTemplateChange = (id: string) => {
+    setTemplateId(id);
+    setValues({});
+    setError(null);
+  };
+
+  const handleAdd = () => {
+    try {
+      onAdd(encodeAction(template, token, values));
+      setValues({});
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Invalid action");
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-md border border-border p-3">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label>Action</Label>
+          <Select value={templateId} onValueChange={handleTemplateChange} disabled={disabled}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ACTION_TEMPLATES.map((template) => (
+                <SelectItem key={template.id} value={template.id}>
+                  {template.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1">
+          <Label>Token</Label>
+          <p className="text-sm pt-2">
+            {token ? `${token.name} (${token.symbol})` : "Select the voting token first"}
+          </p>
+        </div>
+      </div>
+
+      <p className="text-xs text-muted-foreground">{template.description}</p>
+
+      {template.params.map((param) => (
+        <div key={param.name} className="space-y-1">
+          <Label>{param.label}</Label>
+          {param.type === "bool" ? (
+            <Select
+              value={values[param.name] ?? ""}
+              onValueChange={(value) => setValues({ ...values, [param.name]: value })}
+              disabled={disabled}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Select a value" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="true">Yes</SelectItem>
+                <SelectItem value="false">No</SelectItem>
+              </SelectContent>
+            </Select>
+          ) : (
+            <Input
+              value={values[param.name] ?? ""}
+              onChange={(e) => setValues({ ...values, [param.name]: e.target.value })}
+              placeholder={param.type === "address" ? "0x..." : "0"}
+              type={param.type === "address" ? "text" : "number"}
+              min={param.type === "address" ? undefined : "0"}
+              disabled={disabled}
+            />
+          )}
+        </div>
+      ))}
+
+      {error && <p className="text-sm font-medium text-destructive">{error}</p>}
+
+      <Button type="button" variant="outline" size="sm" onClick={handleAdd} disabled={disabled}>
+        <Plus className="h-4 w-4 mr-1" />
+        Add Action
+      </Button>
+    </div>
+  );
+};
+
+export default ActionBuilder;
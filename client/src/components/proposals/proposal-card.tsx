@@ -1,50 +1,36 @@
 import React, { useState } from "react";
+import { Link } from "wouter";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { type Proposal } from "@shared/schema";
-import { ethers } from "ethers";
-import { useWallet, shortenAddress } from "@/lib/web3.tsx";
-import { useToast } from "@/hooks/use-toast";
+import { type ProposalResult, type ProposalWithDetails } from "@shared/schema";
+import { formatTokenAmount } from "@shared/token-amount";
+import { shortenAddress } from "@/lib/web3.tsx";
 import { Progress } from "@/components/ui/progress";
-import { apiRequest } from "@/lib/queryClient";
-import { queryClient } from "@/lib/queryClient";
+import { useProposalVote } from "@/hooks/use-proposal-vote";
 import ProposalDetailsModal from "./proposal-details-modal";
-import { getTokenBalance } from "@/lib/contracts";
+import {
+  getProposalResults,
+  resultBarClass,
+  getQuorumProgress,
+  PROPOSAL_RESULT_LABELS,
+} from "@/lib/proposals";
 
 interface ProposalCardProps {
-  proposal: Proposal;
+  proposal: ProposalWithDetails;
   hasVoted: boolean;
 }
 
 const ProposalCard: React.FC<ProposalCardProps> = ({ proposal, hasVoted }) => {
-  const { account, signer, provider } = useWallet();
-  const { toast } = useToast();
-  const [isVoting, setIsVoting] = useState(false);
-  const [localHasVoted, setLocalHasVoted] = useState(hasVoted);
+  const { handleVote, isVoting, hasVoted: localHasVoted } = useProposalVote(proposal, hasVoted);
   const [isDetailsModalOpen, setIsDetailsModalOpen] = useState(false);
 
-  // Calculate vote percentages and total votes
-  const votesFor = BigInt(proposal.votesFor);
-  const votesAgainst = BigInt(proposal.votesAgainst);
-  const totalVotes = votesFor + votesAgainst;
-  
-  const votesForPercentage = totalVotes > 0 
-    ? Number((votesFor * BigInt(100)) / totalVotes) 
-    : 0;
-  
-  const votesAgainstPercentage = totalVotes > 0 
-    ? Number((votesAgainst * BigInt(100)) / totalVotes) 
-    : 0;
+  // Calculate vote percentages and total votes, abstentions included
+  const { rows: resultRows, totalVotes } = getProposalResults(proposal);
+  const isMultipleChoice = proposal.proposalType === "multiple_choice";
 
-  // Format votes with token decimals (assuming 18 decimals for display)
-  const formatVotes = (votes: string) => {
-    try {
-      return `${Number(ethers.formatUnits(votes, 18)).toLocaleString()} votes`;
-    } catch (error) {
-      return votes;
-    }
-  };
+  // Format votes with the voting token's decimals
+  const formatVotes = (votes: string) => `${formatTokenAmount(votes, proposal.tokenDecimals)} votes`;
 
   // Format date and calculate days remaining
   const now = new Date();
@@ -55,91 +41,10 @@ const ProposalCard: React.FC<ProposalCardProps> = ({ proposal, hasVoted }) => {
   const statusText = isActive 
     ? `Ends in ${daysRemaining} day${daysRemaining !== 1 ? 's' : ''}` 
     : "Completed";
+  const finalResult = proposal.result as ProposalResult | null;
 
-  // Calculate quorum progress
-  const totalSupply = "1000000000000000000000000"; // Mock total supply for display purposes
-  const quorumPercentage = proposal.quorum; // e.g., 25
-  const quorumThreshold = (BigInt(totalSupply) * BigInt(quorumPercentage)) / BigInt(100);
-  const quorumProgress = totalVotes > 0 && quorumThreshold > 0
-    ? Math.min(100, Number((totalVotes * BigInt(100)) / quorumThreshold))
-    : 0;
-
-  const handleVote = async (direction: "for" | "against") => {
-    try {
-      if (!account || !signer || !provider) {
-        toast({
-          title: "Wallet not connected",
-          description: "Please connect your wallet to vote",
-          variant: "destructive",
-        });
-        return;
-      }
-
-      if (localHasVoted) {
-        toast({
-          title: "Already voted",
-          description: "You have already voted on this proposal",
-          variant: "destructive",
-        });
-        return;
-      }
-
-      setIsVoting(true);
-
-      // Check if the user has the voting token in their wallet
-      try {
-        const tokenBalance = await getTokenBalance(
-          provider,
-          proposal.tokenAddress,
-          account
-        );
-        
-        // If balance is zero or very small (less than 0.01 tokens)
-        if (BigInt(tokenBalance) < BigInt("10000000000000000")) {
-          toast({
-            title: "Insufficient token balance",
-            description: `You need to hold ${proposal.tokenSymbol} tokens to vote on this proposal`,
-            variant: "destructive",
-          });
-          setIsVoting(false);
-          return;
-        }
-      } catch (balanceError) {
-        console.error("Error checking token balance:", balanceError);
-        // Continue with voting attempt even if balance check fails
-      }
-
-      // Proceed with vote
-      const voteAmount = "1000000000000000000"; // 1 token with 18 decimals
-      
-      await apiRequest("POST", "/api/votes", {
-        proposalId: proposal.id,
-        voterAddress: account,
-        voteAmount,
-        voteDirection: direction,
-      });
-
-      toast({
-        title: "Vote submitted",
-        description: `You voted ${direction} the proposal`,
-      });
-
-      setLocalHasVoted(true);
-      
-      // Invalidate proposals query to refresh the data
-      queryClient.invalidateQueries({ queryKey: ["/api/proposals"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/proposals/active"] });
-    } catch (error) {
-      console.error("Error voting:", error);
-      toast({
-        title: "Failed to vote",
-        description: error instanceof Error ? error.message : "An error occurred while voting",
-        variant: "destructive",
-      });
-    } finally {
-      setIsVoting(false);
-    }
-  };
+  // Calculate quorum progress against the threshold stored at creation
+  const quorumProgress = getQuorumProgress(proposal, totalVotes);
 
   return (
     <>
@@ -151,9 +56,18 @@ const ProposalCard: React.FC<ProposalCardProps> = ({ proposal, hasVoted }) => {
                 <Badge variant={isActive ? "secondary" : "outline"}>
                   {isActive ? "Active" : "Completed"}
                 </Badge>
+                {finalResult && (
+                  <Badge variant={finalResult === "passed" ? "default" : "destructive"}>
+                    {PROPOSAL_RESULT_LABELS[finalResult]}
+                  </Badge>
+                )}
                 <span className="text-sm text-muted-foreground">{statusText}</span>
               </div>
-              <h3 className="text-xl font-bold font-heading">{proposal.title}</h3>
+              <h3 className="text-xl font-bold font-heading">
+                <Link href={`/proposals/${proposal.id}`} className="hover:underline">
+                  {proposal.title}
+                </Link>
+              </h3>
               <div className="text-sm text-muted-foreground mt-1">
                 By <span className="text-primary">{shortenAddress(proposal.creatorAddress)}</span> · 
                 Using <span className="font-medium">{proposal.tokenSymbol}</span>
@@ -161,7 +75,10 @@ const ProposalCard: React.FC<ProposalCardProps> = ({ proposal, hasVoted }) => {
             </div>
 
             <div className="flex flex-col items-end">
-              <div className="text-sm text-muted-foreground mb-1">Quorum: {proposal.quorum}%</div>
+              <div className="text-sm text-muted-foreground mb-1">
+                {proposal.participation != null && `${proposal.participation}% voted · `}
+                Quorum: {proposal.quorum}%
+              </div>
               <div className="w-32 h-2 rounded-full overflow-hidden">
                 <Progress value={quorumProgress} className="h-full" />
               </div>
@@ -173,49 +90,59 @@ const ProposalCard: React.FC<ProposalCardProps> = ({ proposal, hasVoted }) => {
           </div>
 
           <div className="space-y-3 mb-6">
-            <div>
-              <div className="flex justify-between mb-1">
-                <span className="text-sm font-medium">For</span>
-                <span className="text-sm font-medium">{votesForPercentage}% ({formatVotes(proposal.votesFor)})</span>
-              </div>
-              <div className="w-full h-2 bg-muted rounded-full overflow-hidden">
-                <div
-                  className="h-full bg-primary rounded-full"
-                  style={{ width: `${votesForPercentage}%` }}
-                ></div>
-              </div>
-            </div>
-
-            <div>
-              <div className="flex justify-between mb-1">
-                <span className="text-sm font-medium">Against</span>
-                <span className="text-sm font-medium">{votesAgainstPercentage}% ({formatVotes(proposal.votesAgainst)})</span>
+            {resultRows.map((row) => (
+              <div key={row.key}>
+                <div className="flex justify-between mb-1">
+                  <span className="text-sm font-medium">{row.label}</span>
+                  <span className="text-sm font-medium">{row.percentage}% ({formatVotes(row.votes)})</span>
+                </div>
+                <div className="w-full h-2 bg-muted rounded-full overflow-hidden">
+                  <div
+                    className={`h-full rounded-full ${resultBarClass(row)}`}
+                    style={{ width: `${row.percentage}%` }}
+                  ></div>
+                </div>
               </div>
-              <div className="w-full h-2 bg-muted rounded-full overflow-hidden">
-                <div
-                  className="h-full bg-destructive rounded-full"
-                  style={{ width: `${votesAgainstPercentage}%` }}
-                ></div>
-              </div>
-            </div>
+            ))}
           </div>
 
           <div className="flex flex-wrap gap-3">
             {isActive && !localHasVoted && (
               <>
+                {isMultipleChoice ? (
+                  proposal.options.map((option) => (
+                    <Button
+                      key={option.id}
+                      onClick={() => handleVote("option", option.id)}
+                      disabled={isVoting}
+                    >
+                      {option.label}
+                    </Button>
+                  ))
+                ) : (
+                  <>
+                    <Button
+                      onClick={() => handleVote("for")}
+                      disabled={isVoting}
+                    >
+                      {isVoting ? "Voting..." : "Vote For"}
+                    </Button>
+                    <Button
+                      variant="outline"
+                      onClick={() => handleVote("against")}
+                      disabled={isVoting}
+                      className="text-foreground"
+                    >
+                      Vote Against
+                    </Button>
+                  </>
+                )}
                 <Button
-                  onClick={() => handleVote("for")}
-                  disabled={isVoting}
-                >
-                  {isVoting ? "Voting..." : "Vote For"}
-                </Button>
-                <Button
-                  variant="outline"
-                  onClick={() => handleVote("against")}
+                  variant="ghost"
+                  onClick={() => handleVote("abstain")}
                   disabled={isVoting}
-                  className="text-foreground"
                 >
-                  Vote Against
+                  Abstain
                 </Button>
               </>
             )}
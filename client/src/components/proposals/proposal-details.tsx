@@ -0,0 +1,290 @@
+import React, { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { Check, X, Clock, MinusCircle } from "lucide-react";
+import { type ProposalWithDetails, type Token } from "@shared/schema";
+import { formatTokenAmount } from "@shared/token-amount";
+import { useWallet } from "@/lib/web3";
+import { queryClient } from "@/lib/queryClient";
+import { queueProposal, executeProposal } from "@/lib/contracts";
+import { describeAction } from "@/lib/actions";
+import { useToast } from "@/hooks/use-toast";
+import { Progress } from "@/components/ui/progress";
+import {
+  getProposalResults,
+  resultBarClass,
+  getQuorumProgress,
+  formatProposalDate,
+  type VoteChoice,
+} from "@/lib/proposals";
+
+interface ProposalDetailsProps {
+  proposal: ProposalWithDetails;
+  hasVoted: boolean;
+  onVote?: (direction: VoteChoice, optionId?: number) => Promise<void>;
+  isVoting?: boolean;
+}
+
+// Proposal facts, actions, results and the voting and timelock controls, shared by the modal and the proposal page
+const ProposalDetails: React.FC<ProposalDetailsProps> = ({
+  proposal,
+  hasVoted,
+  onVote,
+  isVoting = false
+}) => {
+  const { toast } = useToast();
+  const { signer } = useWallet();
+  const [isSubmittingTimelock, setIsSubmittingTimelock] = useState(false);
+
+  // Labels the targets of the proposal's actions, which can only be the proposal's own token
+  const { data: token } = useQuery<Token>({
+    queryKey: [`/api/tokens/${proposal.tokenAddress}`],
+    enabled: proposal.actions.length > 0,
+  });
+  const tokens = token ? [token] : [];
+
+  // Format votes with the voting token's decimals
+  const formatVotes = (votes: string) => `${formatTokenAmount(votes, proposal.tokenDecimals)} votes`;
+
+  // Calculate vote percentages and total votes, abstentions included
+  const { rows: resultRows, totalVotes, passed } = getProposalResults(proposal);
+  const isMultipleChoice = proposal.proposalType === "multiple_choice";
+
+  // Format date and calculate days remaining
+  const now = new Date();
+  const startDate = new Date(proposal.startDate);
+  const endDate = new Date(proposal.endDate);
+  const daysRemaining = Math.max(0, Math.ceil((endDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24)));
+
+  const isActive = proposal.status === "active" && endDate > now;
+  const statusText = isActive
+    ? `${daysRemaining} day${daysRemaining !== 1 ? 's' : ''} remaining`
+    : "Completed";
+
+  // Calculate quorum progress against the threshold stored at creation
+  const quorumProgress = getQuorumProgress(proposal, totalVotes);
+  const hasPassed = proposal.result ? proposal.result === "passed" : passed;
+
+  // Timelock state of passed on-chain proposals
+  const isExecuted = proposal.executedBlock != null;
+  const eta = proposal.eta ? new Date(proposal.eta) : null;
+  const canQueue = proposal.chainProposalId != null && !isActive && hasPassed && !eta && !isExecuted;
+  const canExecute = proposal.chainProposalId != null && eta != null && !isExecuted;
+  const timelockExpired = eta != null && eta <= now;
+
+  const handleTimelock = async (step: "queue" | "execute") => {
+    if (!signer || proposal.chainProposalId == null) {
+      toast({
+        title: "Wallet not connected",
+        description: "Please connect your wallet first",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      setIsSubmittingTimelock(true);
+      if (step === "queue") {
+        await queueProposal(signer, proposal.chainProposalId);
+      } else {
+        await executeProposal(signer, proposal.chainProposalId);
+      }
+
+      toast({
+        title: step === "queue" ? "Proposal queued" : "Proposal executed",
+        description: step === "queue"
+          ? "The proposal can be executed once the timelock delay has passed"
+          : "The proposal's actions have been executed on-chain",
+      });
+
+      queryClient.invalidateQueries({ queryKey: ["/api/proposals"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/proposals/${proposal.id}`] });
+    } catch (error) {
+      console.error(`Error during proposal ${step}:`, error);
+      toast({
+        title: step === "queue" ? "Failed to queue proposal" : "Failed to execute proposal",
+        description: error instanceof Error ? error.message : "Unknown error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmittingTimelock(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <div className="text-sm font-medium">Description</div>
+        <p className="text-foreground whitespace-pre-line">{proposal.description}</p>
+      </div>
+
+      <Separator />
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <div className="text-sm text-muted-foreground">Voting Token</div>
+          <div className="font-medium flex items-center">
+            {proposal.tokenSymbol}
+            <span className="text-xs text-muted-foreground ml-2">
+              ({proposal.tokenAddress.substring(0, 6)}...{proposal.tokenAddress.substring(38)})
+            </span>
+          </div>
+        </div>
+        <div>
+          <div className="text-sm text-muted-foreground">Quorum Required</div>
+          <div className="font-medium">{proposal.quorum}%</div>
+        </div>
+        <div>
+          <div className="text-sm text-muted-foreground">Start Date</div>
+          <div className="font-medium">{formatProposalDate(startDate)}</div>
+        </div>
+        <div>
+          <div className="text-sm text-muted-foreground">End Date</div>
+          <div className="font-medium">{formatProposalDate(endDate)}</div>
+        </div>
+      </div>
+
+      {proposal.actions.length > 0 && (
+        <>
+          <Separator />
+
+          <div className="space-y-2">
+            <div className="text-sm font-medium">Actions</div>
+            <ol className="space-y-1">
+              {proposal.actions.map((action, index) => (
+                <li key={action.id} className="text-sm font-mono break-all rounded-md bg-muted px-3 py-2">
+                  {index + 1}. {describeAction(action, tokens, proposal.chainId)}
+                </li>
+              ))}
+            </ol>
+            {eta && !isExecuted && (
+              <div className="text-sm text-muted-foreground">
+                Queued, executable {timelockExpired ? "now" : `after ${formatProposalDate(eta)}`}
+              </div>
+            )}
+            {isExecuted && (
+              <div className="text-sm text-muted-foreground">Executed</div>
+            )}
+          </div>
+        </>
+      )}
+
+      <Separator />
+
+      <div className="space-y-4">
+        <div className="flex justify-between items-center">
+          <div className="text-sm font-medium">Quorum Progress</div>
+          <div className="text-sm text-muted-foreground">
+            {proposal.quorumReached
+              ? "Quorum reached"
+              : proposal.participation != null
+                ? `${proposal.participation}% of ${proposal.quorum}% required`
+                : `${proposal.quorum}% required`}
+          </div>
+        </div>
+        <Progress value={quorumProgress} className="h-2" />
+
+        <div className="space-y-3">
+          {resultRows.map((row) => (
+            <div key={row.key}>
+              <div className="flex justify-between mb-1">
+                <div className="flex items-center gap-1">
+                  {row.direction === "for" && <Check className="h-4 w-4 text-primary" />}
+                  {row.direction === "against" && <X className="h-4 w-4 text-destructive" />}
+                  {row.direction === "abstain" && <MinusCircle className="h-4 w-4 text-muted-foreground" />}
+                  <span className="text-sm font-medium">{row.label}</span>
+                </div>
+                <span className="text-sm font-medium">{row.percentage}% ({formatVotes(row.votes)})</span>
+              </div>
+              <div className="w-full h-2 bg-muted rounded-full overflow-hidden">
+                <div
+                  className={`h-full rounded-full ${resultBarClass(row)}`}
+                  style={{ width: `${row.percentage}%` }}
+                ></div>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-1">
+          <Clock className="h-4 w-4 text-muted-foreground" />
+          <span className="text-sm text-muted-foreground">{statusText}</span>
+        </div>
+        {hasVoted && (
+          <Badge variant="outline">
+            You voted on this proposal
+          </Badge>
+        )}
+      </div>
+
+      {((isActive && !hasVoted && onVote) || canQueue || canExecute) && (
+        <div className="flex flex-wrap gap-2">
+          {isActive && !hasVoted && onVote && (
+            <>
+              {isMultipleChoice ? (
+                proposal.options.map((option) => (
+                  <Button
+                    key={option.id}
+                    onClick={() => onVote("option", option.id)}
+                    disabled={isVoting}
+                    className="flex-1"
+                  >
+                    {option.label}
+                  </Button>
+                ))
+              ) : (
+                <>
+                  <Button
+                    onClick={() => onVote("for")}
+                    disabled={isVoting}
+                    className="flex-1"
+                  >
+                    {isVoting ? "Voting..." : "Vote For"}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={() => onVote("against")}
+                    disabled={isVoting}
+                    className="text-foreground flex-1"
+                  >
+                    Vote Against
+                  </Button>
+                </>
+              )}
+              <Button
+                variant="ghost"
+                onClick={() => onVote("abstain")}
+                disabled={isVoting}
+                className="flex-1"
+              >
+                Abstain
+              </Button>
+            </>
+          )}
+          {canQueue && (
+            <Button
+              onClick={() => handleTimelock("queue")}
+              disabled={isSubmittingTimelock}
+            >
+              {isSubmittingTimelock ? "Queueing..." : "Queue for Execution"}
+            </Button>
+          )}
+          {canExecute && (
+            <Button
+              onClick={() => handleTimelock("execute")}
+              disabled={isSubmittingTimelock || !timelockExpired}
+            >
+              {isSubmittingTimelock ? "Executing..." : "Execute"}
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProposalDetails;
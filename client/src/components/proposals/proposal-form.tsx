@@ -1,6 +1,6 @@
-import React from "react";
+import React, { useEffect } from "react";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { useForm } from "react-hook-form";
+import { useForm, useFieldArray } from "react-hook-form";
 import { z } from "zod";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -22,11 +22,19 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Token } from "@shared/schema";
-import { CalendarIcon } from "lucide-react";
+import { CalendarIcon, Plus, Trash2 } from "lucide-react";
 import { format } from "date-fns";
 import { cn } from "@/lib/utils";
 import { Calendar } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import ActionBuilder from "./action-builder";
+import { describeAction } from "@/lib/actions";
+import { useWallet } from "@/lib/web3";
+import { DEFAULT_CHAIN_ID } from "@shared/networks";
+
+const MAX_OPTIONS = 10;
+// Mirrors Governance.MAX_ACTIONS
+const MAX_ACTIONS = 10;
 
 const formSchema = z.object({
   title: z.string().min(5, {
@@ -46,6 +54,35 @@ const formSchema = z.object({
   }).refine((val) => !isNaN(Number(val)) && Number(val) > 0 && Number(val) <= 100, {
     message: "Quorum must be between 1 and 100.",
   }),
+  proposalType: z.enum(["binary", "multiple_choice"]),
+  options: z.array(z.object({
+    label: z.string().max(100, {
+      message: "Options must be at most 100 characters.",
+    }),
+  })),
+  actions: z.array(z.object({
+    target: z.string(),
+    value: z.string(),
+    calldata: z.string(),
+  })).max(MAX_ACTIONS),
+}).superRefine((val, ctx) => {
+  if (val.proposalType !== "multiple_choice") return;
+  val.options.forEach((option, index) => {
+    if (option.label.trim() === "") {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["options", index, "label"],
+        message: "Option cannot be empty.",
+      });
+    }
+  });
+  if (val.options.length < 2) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["options"],
+      message: "Add at least 2 options.",
+    });
+  }
 });
 
 interface ProposalFormProps {
@@ -59,6 +96,7 @@ const ProposalForm: React.FC<ProposalFormProps> = ({
   onSubmit, 
   isSubmitting 
 }) => {
+  const { chainId } = useWallet();
   const form = useForm<z.infer<typeof formSchema>>({
     resolver: zodResolver(formSchema),
     defaultValues: {
@@ -67,9 +105,30 @@ const ProposalForm: React.FC<ProposalFormProps> = ({
       tokenAddress: "",
       endDate: undefined,
       quorum: "25",
+      proposalType: "binary",
+      options: [{ label: "" }, { label: "" }],
+      actions: [],
     },
   });
 
+  const { fields: actionFields, append: appendAction, remove: removeAction } = useFieldArray({
+    control: form.control,
+    name: "actions",
+  });
+
+  const { fields: optionFields, append: appendOption, remove: removeOption } = useFieldArray({
+    control: form.control,
+    name: "options",
+  });
+
+  const proposalType = form.watch("proposalType");
+  const tokenAddress = form.watch("tokenAddress");
+
+  // Actions can only call the voting token, so those built for another token are dropped
+  useEffect(() => {
+    form.setValue("actions", []);
+  }, [tokenAddress, form]);
+
   return (
     <Card className="w-full">
       <CardContent className="pt-6">
@@ -112,6 +171,82 @@ const ProposalForm: React.FC<ProposalFormProps> = ({
               )}
             />
 
+            <FormField
+              control={form.control}
+              name="proposalType"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Voting Type</FormLabel>
+                  <Select
+                    onValueChange={field.onChange}
+                    defaultValue={field.value}
+                    disabled={isSubmitting}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select a voting type" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="binary">For / Against / Abstain (on-chain)</SelectItem>
+                      <SelectItem value="multiple_choice">Multiple choice (off-chain)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {proposalType === "multiple_choice" && (
+              <div className="space-y-2">
+                <FormLabel>Options</FormLabel>
+                {optionFields.map((optionField, index) => (
+                  <FormField
+                    key={optionField.id}
+                    control={form.control}
+                    name={`options.${index}.label`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <div className="flex items-center space-x-2">
+                          <FormControl>
+                            <Input
+                              placeholder={`Option ${index + 1}`}
+                              {...field}
+                              disabled={isSubmitting}
+                            />
+                          </FormControl>
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => removeOption(index)}
+                            disabled={isSubmitting || optionFields.length <= 2}
+                            aria-label="Remove option"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                ))}
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => appendOption({ label: "" })}
+                  disabled={isSubmitting || optionFields.length >= MAX_OPTIONS}
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add Option
+                </Button>
+                <p className="text-xs text-muted-foreground">
+                  Voters pick one option or abstain. Multiple-choice results are tallied off-chain.
+                </p>
+              </div>
+            )}
+
             <FormField
               control={form.control}
               name="tokenAddress"
@@ -147,6 +282,42 @@ const ProposalForm: React.FC<ProposalFormProps> = ({
               )}
             />
 
+            {proposalType === "binary" && (
+              <div className="space-y-2">
+                <FormLabel>Actions (optional)</FormLabel>
+                <p className="text-xs text-muted-foreground">
+                  Calls the Governance contract makes on the voting token if the proposal passes, after the timelock delay.
+                </p>
+                {actionFields.map((actionField, index) => (
+                  <div
+                    key={actionField.id}
+                    className="flex items-center justify-between space-x-2 rounded-md bg-muted px-3 py-2"
+                  >
+                    <span className="text-sm font-mono break-all">
+                      {index + 1}. {describeAction(actionField, tokens, chainId ?? DEFAULT_CHAIN_ID)}
+                    </span>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => removeAction(index)}
+                      disabled={isSubmitting}
+                      aria-label="Remove action"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                {actionFields.length < MAX_ACTIONS && (
+                  <ActionBuilder
+                    token={tokens.find((token) => token.contractAddress === tokenAddress)}
+                    onAdd={appendAction}
+                    disabled={isSubmitting}
+                  />
+                )}
+              </div>
+            )}
+
             <FormField
               control={form.control}
               name="endDate"
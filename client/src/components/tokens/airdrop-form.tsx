@@ -0,0 +1,138 @@
+import React, { useMemo, useState } from "react";
+import { useLocation } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { type Airdrop, type Token, MAX_AIRDROP_RECIPIENTS } from "@shared/schema";
+import { formatTokenAmount, sumTokenAmounts } from "@shared/token-amount";
+import { useWallet } from "@/lib/web3";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { parseDistributionCsv } from "@/lib/distribution";
+import RecipientsCsvInput from "./recipients-csv-input";
+
+interface AirdropFormProps {
+  token: Token;
+  balance: string;
+  onClose: () => void;
+}
+
+// Turn an allocation list into a Merkle airdrop; funding and claiming happen on the airdrop page
+const AirdropForm: React.FC<AirdropFormProps> = ({ token, balance, onClose }) => {
+  const { account } = useWallet();
+  const { toast } = useToast();
+  const [, navigate] = useLocation();
+  const [csvText, setCsvText] = useState("");
+  const [durationDays, setDurationDays] = useState("30");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const rows = useMemo(() => parseDistributionCsv(csvText, token.decimals), [csvText, token.decimals]);
+  const invalidRows = rows.filter((row) => row.error);
+  const total = sumTokenAmounts(rows.map((row) => row.amount));
+  const duration = Number(durationDays);
+  const validDuration = Number.isInteger(duration) && duration >= 1 && duration <= 365;
+
+  const tooMany = rows.length > MAX_AIRDROP_RECIPIENTS;
+  const exceedsBalance = BigInt(total) > BigInt(balance || "0");
+  const canSubmit =
+    rows.length > 0 && invalidRows.length === 0 && !tooMany && !exceedsBalance && validDuration && !isSubmitting;
+
+  const handleSubmit = async () => {
+    if (!account) {
+      toast({
+        title: "Wallet not connected",
+        description: "Please connect your wallet first",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      const response = await apiRequest("POST", "/api/airdrops", {
+        tokenAddress: token.contractAddress,
+        durationDays: duration,
+        allocations: rows.map((row) => ({ account: row.address, amount: row.amount })),
+      });
+      const airdrop: Airdrop = await response.json();
+
+      toast({
+        title: "Airdrop created",
+        description: "Fund it from the airdrop page to open claims",
+      });
+      onClose();
+      navigate(`/airdrops/${airdrop.id}`);
+    } catch (error) {
+      console.error("Error creating airdrop:", error);
+      toast({
+        title: "Failed to create airdrop",
+        description: error instanceof Error ? error.message : "Unknown error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <RecipientsCsvInput value={csvText} onChange={setCsvText} disabled={isSubmitting}>
+        One address,amount per line, with amounts in {token.symbol}. Recipients claim their own tokens, so you
+        only pay to fund the airdrop.
+      </RecipientsCsvInput>
+
+      <div className="space-y-2">
+        <div className="text-sm font-medium">Claim period (days)</div>
+        <Input
+          type="number"
+          min={1}
+          max={365}
+          value={durationDays}
+          onChange={(event) => setDurationDays(event.target.value)}
+          disabled={isSubmitting}
+        />
+        <p className="text-xs text-muted-foreground">
+          Unclaimed tokens can be withdrawn once the claim period ends.
+        </p>
+      </div>
+
+      {!token.isTransferable && (
+        <p className="text-sm text-destructive">
+          {token.symbol} transfers are disabled, so the airdrop cannot be funded or claimed until they are enabled
+        </p>
+      )}
+
+      {rows.length > 0 && (
+        <div className="space-y-1 text-sm">
+          <div className="flex flex-wrap justify-between gap-2">
+            <span>
+              {rows.length} recipients · {formatTokenAmount(total, token.decimals)} {token.symbol}
+            </span>
+            <span className="text-muted-foreground">
+              Available: {formatTokenAmount(balance || "0", token.decimals)} {token.symbol}
+            </span>
+          </div>
+          {invalidRows.slice(0, 5).map((row) => (
+            <div key={row.line} className="text-destructive">
+              Line {row.line}: {row.error}
+            </div>
+          ))}
+          {invalidRows.length > 5 && (
+            <div className="text-destructive">and {invalidRows.length - 5} more lines need fixing</div>
+          )}
+          {tooMany && (
+            <div className="text-destructive">At most {MAX_AIRDROP_RECIPIENTS} recipients fit in one airdrop</div>
+          )}
+          {exceedsBalance && <div className="text-destructive">The total is more than your balance</div>}
+        </div>
+      )}
+
+      <div className="flex justify-end pt-2">
+        <Button className="font-heading" onClick={handleSubmit} disabled={!canSubmit}>
+          {isSubmitting ? "Creating..." : "Create Airdrop"}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default AirdropForm;
@@ -0,0 +1,274 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { type Token, MAX_DISTRIBUTION_RECIPIENTS } from "@shared/schema";
+import { formatTokenAmount, sumTokenAmounts } from "@shared/token-amount";
+import { useWallet, shortenAddress } from "@/lib/web3";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  ensureAllowance,
+  distributeTokens,
+  transferTokens,
+} from "@/lib/contracts";
+import {
+  parseDistributionCsv,
+  getDistributionBatches,
+  getDistributionBatchSize,
+  loadDistributionProgress,
+  saveDistributionProgress,
+  clearDistributionProgress,
+  type DistributionProgress,
+} from "@/lib/distribution";
+import RecipientsCsvInput from "./recipients-csv-input";
+
+interface BulkDistributeFormProps {
+  token: Token;
+  balance: string;
+  onClose: () => void;
+}
+
+type RowStatus = "pending" | "sending" | "sent" | "failed";
+
+const statusVariant: Record<RowStatus, "outline" | "secondary" | "default" | "destructive"> = {
+  pending: "outline",
+  sending: "secondary",
+  sent: "default",
+  failed: "destructive",
+};
+
+// Send a token to every address,amount line of a CSV, in batches that can be resumed after a failure
+const BulkDistributeForm: React.FC<BulkDistributeFormProps> = ({ token, balance, onClose }) => {
+  const { signer, account, network } = useWallet();
+  const { toast } = useToast();
+  const [csvText, setCsvText] = useState("");
+  const [progress, setProgress] = useState<DistributionProgress>({});
+  const [sendingBatch, setSendingBatch] = useState<number | null>(null);
+  const [failedBatch, setFailedBatch] = useState<number | null>(null);
+  const [isSending, setIsSending] = useState(false);
+
+  const rows = useMemo(() => parseDistributionCsv(csvText, token.decimals), [csvText, token.decimals]);
+  const batchDistributorAddress = network?.contracts.batchDistributor ?? "";
+  const batchSize = getDistributionBatchSize(batchDistributorAddress);
+  const batches = useMemo(() => getDistributionBatches(rows, batchSize), [rows, batchSize]);
+  const invalidCount = rows.filter((row) => row.error).length;
+  const total = sumTokenAmounts(rows.map((row) => row.amount));
+
+  // Pick up batches already sent for this exact list, e.g. before the page was closed
+  useEffect(() => {
+    setProgress(
+      account && rows.length > 0 ? loadDistributionProgress(token.contractAddress, account, rows, batchSize) : {}
+    );
+    setFailedBatch(null);
+  }, [rows, account, token.contractAddress, batchSize]);
+
+  const sentBatches = batches.filter((_, index) => progress[index]).length;
+  const sentRows = batches.reduce((sum, batch, index) => sum + (progress[index] ? batch.length : 0), 0);
+  const remaining = sumTokenAmounts(
+    batches.flatMap((batch, index) => (progress[index] ? [] : batch.map((row) => row.amount)))
+  );
+  const isResuming = sentBatches > 0;
+
+  const rowStatus = (rowIndex: number): RowStatus => {
+    const batch = Math.floor(rowIndex / batchSize);
+    if (progress[batch]) return "sent";
+    if (sendingBatch === batch) return "sending";
+    if (failedBatch === batch) return "failed";
+    return "pending";
+  };
+
+  const handleSend = async () => {
+    if (!signer || !account) {
+      toast({
+        title: "Wallet not connected",
+        description: "Please connect your wallet first",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // Only the batches still to send need to be covered by the balance
+    if (BigInt(remaining) > BigInt(balance || "0")) {
+      toast({
+        title: "Insufficient balance",
+        description: `You need ${formatTokenAmount(remaining, token.decimals)} ${token.symbol} to finish this distribution`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSending(true);
+    setFailedBatch(null);
+    let current = { ...progress };
+    let batchIndex: number | null = null;
+
+    try {
+      if (batchDistributorAddress) {
+        await ensureAllowance(signer, token.contractAddress, batchDistributorAddress, remaining);
+      }
+
+      for (let index = 0; index < batches.length; index++) {
+        if (current[index]) continue;
+        batchIndex = index;
+        setSendingBatch(index);
+
+        const batch = batches[index];
+        const txHash = batchDistributorAddress
+          ? await distributeTokens(
+              signer,
+              token.contractAddress,
+              batch.map((row) => row.address),
+              batch.map((row) => row.amount)
+            )
+          : await transferTokens(signer, token.contractAddress, batch[0].address, batch[0].amount);
+
+        current = { ...current, [index]: txHash };
+        saveDistributionProgress(token.contractAddress, account, rows, batchSize, current);
+        setProgress(current);
+      }
+      batchIndex = null;
+      setSendingBatch(null);
+
+      await apiRequest("POST", "/api/distributions", {
+        tokenAddress: token.contractAddress,
+        recipients: rows.map((row, rowIndex) => ({
+          recipientAddress: row.address,
+          amount: row.amount,
+          transactionHash: current[Math.floor(rowIndex / batchSize)],
+        })),
+      });
+      clearDistributionProgress(token.contractAddress, account, rows, batchSize);
+
+      toast({
+        title: "Distribution complete",
+        description: `Sent ${formatTokenAmount(total, token.decimals)} ${token.symbol} to ${rows.length} recipients`,
+      });
+
+      queryClient.invalidateQueries({ queryKey: [`/api/tokens/${token.contractAddress}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/tokens/${token.contractAddress}/holders`] });
+      onClose();
+    } catch (error) {
+      console.error("Error distributing tokens:", error);
+      if (batchIndex !== null) {
+        setFailedBatch(batchIndex);
+      }
+      toast({
+        title: "Distribution interrupted",
+        description: `${error instanceof Error ? error.message : "Unknown error occurred"}. Sent batches are saved; resume to continue.`,
+        variant: "destructive",
+      });
+    } finally {
+      setSendingBatch(null);
+      setIsSending(false);
+    }
+  };
+
+  const tooMany = rows.length > MAX_DISTRIBUTION_RECIPIENTS;
+  const exceedsBalance = BigInt(remaining) > BigInt(balance || "0");
+  const canSend = rows.length > 0 && invalidCount === 0 && !tooMany && !exceedsBalance && !isSending;
+
+  return (
+    <div className="space-y-4">
+      <RecipientsCsvInput value={csvText} onChange={setCsvText} disabled={isSending}>
+        One address,amount per line, with amounts in {token.symbol}.{" "}
+        {batchDistributorAddress
+          ? `Sent in batches of ${batchSize} recipients after a single approval.`
+          : "Each recipient is sent a separate transfer."}
+      </RecipientsCsvInput>
+
+      {rows.length > 0 && (
+        <>
+          <div className="flex flex-wrap justify-between gap-2 text-sm">
+            <span>
+              {rows.length} recipients · {formatTokenAmount(total, token.decimals)} {token.symbol}
+            </span>
+            <span className="text-muted-foreground">
+              Available: {formatTokenAmount(balance || "0", token.decimals)} {token.symbol}
+            </span>
+          </div>
+
+          {invalidCount > 0 && (
+            <p className="text-sm text-destructive">
+              {invalidCount} {invalidCount === 1 ? "line needs" : "lines need"} fixing before sending
+            </p>
+          )}
+          {tooMany && (
+            <p className="text-sm text-destructive">
+              At most {MAX_DISTRIBUTION_RECIPIENTS} recipients can be sent in one distribution
+            </p>
+          )}
+          {exceedsBalance && (
+            <p className="text-sm text-destructive">The total is more than your balance</p>
+          )}
+
+          {(isSending || isResuming) && (
+            <div className="space-y-1">
+              <Progress value={(sentRows / rows.length) * 100} className="h-2" />
+              <div className="text-xs text-muted-foreground">
+                {sentRows} of {rows.length} recipients sent
+              </div>
+            </div>
+          )}
+
+          <ScrollArea className="h-64 rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Line</TableHead>
+                  <TableHead>Address</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead className="text-right">Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((row, index) => {
+                  const status = rowStatus(index);
+                  return (
+                    <TableRow key={row.line}>
+                      <TableCell className="text-muted-foreground">{row.line}</TableCell>
+                      <TableCell className="font-mono" title={row.address}>
+                        {row.error ? row.address : shortenAddress(row.address)}
+                      </TableCell>
+                      <TableCell className="text-right">{row.amountText}</TableCell>
+                      <TableCell className="text-right">
+                        {row.error ? (
+                          <span className="text-xs text-destructive">{row.error}</span>
+                        ) : (
+                          <Badge variant={statusVariant[status]} className="capitalize">
+                            {status}
+                          </Badge>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </ScrollArea>
+        </>
+      )}
+
+      <div className="flex justify-end pt-2">
+        <Button className="font-heading" onClick={handleSend} disabled={!canSend}>
+          {isSending
+            ? `Sending batch ${sentBatches + 1} of ${batches.length}...`
+            : isResuming
+              ? "Resume Distribution"
+              : "Send to All"}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default BulkDistributeForm;
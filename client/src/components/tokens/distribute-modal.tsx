@@ -13,11 +13,16 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
-import { ethers } from "ethers";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { formatTokenAmount, parseTokenAmount, toDecimalString } from "@shared/token-amount";
 import { useWallet } from "@/lib/web3";
 import { useToast } from "@/hooks/use-toast";
 import { transferTokens } from "@/lib/contracts";
 import { Token } from "@shared/schema";
+import BulkDistributeForm from "./bulk-distribute-form";
+import AirdropForm from "./airdrop-form";
+
+type DistributeMode = "single" | "bulk" | "airdrop";
 
 const formSchema = z.object({
   recipientAddress: z
@@ -48,9 +53,10 @@ const DistributeModal: React.FC<DistributeModalProps> = ({ token, balance, onClo
   const { signer } = useWallet();
   const { toast } = useToast();
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [mode, setMode] = useState<DistributeMode>("single");
 
-  // Format balance for display, ensuring we use 18 decimals
-  const formattedBalance = ethers.formatUnits(balance || "0", 18);
+  // Exact balance in whole tokens, using the token's decimals
+  const formattedBalance = toDecimalString(balance || "0", token.decimals);
 
   const form = useForm<z.infer<typeof formSchema>>({
     resolver: zodResolver(formSchema),
@@ -77,8 +83,8 @@ const DistributeModal: React.FC<DistributeModalProps> = ({ token, balance, onClo
 
       setIsSubmitting(true);
 
-      // Convert amount to wei/tokens with explicit 18 decimals
-      const parsedAmount = ethers.parseUnits(values.tokenAmount, 18).toString();
+      // Convert amount to base units with the token's decimals
+      const parsedAmount = parseTokenAmount(values.tokenAmount, token.decimals).toString();
 
       // Check if amount is less than or equal to balance
       if (BigInt(parsedAmount) > BigInt(balance)) {
@@ -119,79 +125,97 @@ const DistributeModal: React.FC<DistributeModalProps> = ({ token, balance, onClo
 
   return (
     <Dialog open={true} onOpenChange={onClose}>
-      <DialogContent className="sm:max-w-md">
+      <DialogContent className={mode === "single" ? "sm:max-w-md" : "sm:max-w-2xl"}>
         <DialogHeader>
           <DialogTitle className="text-2xl font-bold font-heading mb-2">Distribute Tokens</DialogTitle>
           <DialogDescription>
-            Send <span className="font-medium text-primary">{token.name} ({token.symbol})</span> to another wallet address
+            Send <span className="font-medium text-primary">{token.name} ({token.symbol})</span> to another wallet address, to many at once from a CSV, or as an airdrop recipients claim
           </DialogDescription>
         </DialogHeader>
 
-        <Form {...form}>
-          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
-            <FormField
-              control={form.control}
-              name="recipientAddress"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Recipient Address</FormLabel>
-                  <FormControl>
-                    <Input
-                      placeholder="0x..."
-                      {...field}
-                      disabled={isSubmitting}
-                    />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-
-            <FormField
-              control={form.control}
-              name="tokenAmount"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Amount</FormLabel>
-                  <div className="relative">
-                    <FormControl>
-                      <Input
-                        type="text"
-                        placeholder="0.0"
-                        {...field}
-                        disabled={isSubmitting}
-                      />
-                    </FormControl>
-                    <div className="absolute right-3 top-2.5 text-gray-500 text-sm">
-                      {token.symbol}
-                    </div>
-                  </div>
-                  <div className="mt-1 flex justify-between text-xs text-muted-foreground">
-                    <span>Available: {parseFloat(formattedBalance).toLocaleString()} {token.symbol}</span>
-                    <button
-                      type="button"
-                      className="text-primary"
-                      onClick={handleMaxClick}
-                    >
-                      MAX
-                    </button>
-                  </div>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-
-            <div className="flex justify-end pt-4">
-              <Button
-                type="submit"
-                className="font-heading"
-                disabled={isSubmitting}
-              >
-                {isSubmitting ? "Sending..." : "Send Tokens"}
-              </Button>
-            </div>
-          </form>
-        </Form>
+        <Tabs value={mode} onValueChange={(value) => setMode(value as DistributeMode)}>
+          <TabsList className="grid w-full grid-cols-3">
+            <TabsTrigger value="single">Single</TabsTrigger>
+            <TabsTrigger value="bulk">Bulk (CSV)</TabsTrigger>
+            <TabsTrigger value="airdrop">Airdrop</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="bulk">
+            <BulkDistributeForm token={token} balance={balance} onClose={onClose} />
+          </TabsContent>
+
+          <TabsContent value="airdrop">
+            <AirdropForm token={token} balance={balance} onClose={onClose} />
+          </TabsContent>
+
+          <TabsContent value="single">
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+                <FormField
+                  control={form.control}
+                  name="recipientAddress"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Recipient Address</FormLabel>
+                      <FormControl>
+                        <Input
+                          placeholder="0x..."
+                          {...field}
+                          disabled={isSubmitting}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="tokenAmount"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Amount</FormLabel>
+                      <div className="relative">
+                        <FormControl>
+                          <Input
+                            type="text"
+                            placeholder="0.0"
+                            {...field}
+                            disabled={isSubmitting}
+                          />
+                        </FormControl>
+                        <div className="absolute right-3 top-2.5 text-gray-500 text-sm">
+                          {token.symbol}
+                        </div>
+                      </div>
+                      <div className="mt-1 flex justify-between text-xs text-muted-foreground">
+                        <span>Available: {formatTokenAmount(balance || "0", token.decimals)} {token.symbol}</span>
+                        <button
+                          type="button"
+                          className="text-primary"
+                          onClick={handleMaxClick}
+                        >
+                          MAX
+                        </button>
+                      </div>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="flex justify-end pt-4">
+                  <Button
+                    type="submit"
+                    className="font-heading"
+                    disabled={isSubmitting}
+                  >
+                    {isSubmitting ? "Sending..." : "Send Tokens"}
+                  </Button>
+                </div>
+              </form>
+            </Form>
+          </TabsContent>
+        </Tabs>
       </DialogContent>
     </Dialog>
   );
@@ -0,0 +1,65 @@
+import React from "react";
+import { Cell, Pie, PieChart } from "recharts";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { type TokenBalance } from "@shared/schema";
+import { formatTokenAmount, toDecimalString } from "@shared/token-amount";
+import { shortenAddress } from "@/lib/web3";
+
+interface HolderDistributionChartProps {
+  holders: TokenBalance[];
+  supply: string;
+  decimals: number;
+}
+
+// Holders shown individually; everyone else is grouped as "Others"
+const TOP_HOLDERS = 5;
+
+const chartConfig = {
+  balance: { label: "Balance" },
+} satisfies ChartConfig;
+
+const SLICE_COLORS = [1, 2, 3, 4, 5].map((n) => `hsl(var(--chart-${n}))`);
+
+// Share of the supply held by the largest holders
+const HolderDistributionChart: React.FC<HolderDistributionChartProps> = ({ holders, supply, decimals }) => {
+  const top = holders.slice(0, TOP_HOLDERS);
+  const topTotal = top.reduce((sum, holder) => sum + BigInt(holder.balance), BigInt(0));
+  const others = BigInt(supply) - topTotal;
+
+  const slices = top.map((holder, index) => ({
+    name: shortenAddress(holder.holderAddress),
+    balance: holder.balance,
+    fill: SLICE_COLORS[index % SLICE_COLORS.length],
+  }));
+  if (others > BigInt(0)) {
+    slices.push({ name: "Others", balance: others.toString(), fill: "hsl(var(--muted-foreground))" });
+  }
+
+  if (slices.length === 0) {
+    return <p className="text-sm text-muted-foreground">No holders have been indexed for this token yet.</p>;
+  }
+
+  const data = slices.map((slice) => ({ ...slice, value: Number(toDecimalString(slice.balance, decimals)) }));
+
+  return (
+    <ChartContainer config={chartConfig} className="h-64 w-full aspect-auto">
+      <PieChart>
+        <ChartTooltip
+          content={
+            <ChartTooltipContent
+              hideLabel
+              formatter={(_value, name, item) => `${name}: ${formatTokenAmount(item.payload.balance, decimals)}`}
+            />
+          }
+        />
+        <Pie data={data} dataKey="value" nameKey="name" innerRadius={50} strokeWidth={2}>
+          {data.map((slice) => (
+            <Cell key={slice.name} fill={slice.fill} />
+          ))}
+        </Pie>
+      </PieChart>
+    </ChartContainer>
+  );
+};
+
+export default HolderDistributionChart;
@@ -0,0 +1,37 @@
+import React from "react";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+
+interface RecipientsCsvInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  disabled?: boolean;
+  children?: React.ReactNode;
+}
+
+// address,amount lines typed or pasted in, or loaded from a CSV file
+const RecipientsCsvInput: React.FC<RecipientsCsvInputProps> = ({ value, onChange, disabled, children }) => {
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      onChange(await file.text());
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="text-sm font-medium">Recipients</div>
+      <Textarea
+        placeholder={"address,amount\n0x...,100"}
+        className="font-mono text-xs min-h-[120px]"
+        value={value}
+        onChange={(event) => onChange(event.target.value)}
+        disabled={disabled}
+      />
+      <Input type="file" accept=".csv,text/csv" onChange={handleFile} disabled={disabled} />
+      {children && <p className="text-xs text-muted-foreground">{children}</p>}
+    </div>
+  );
+};
+
+export default RecipientsCsvInput;
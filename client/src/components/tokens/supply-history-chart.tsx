@@ -0,0 +1,62 @@
+import React from "react";
+import { Area, AreaChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { type TokenTransfer } from "@shared/schema";
+import { formatTokenAmount, toDecimalString } from "@shared/token-amount";
+import { getSupplyHistory } from "@/lib/tokens";
+
+interface SupplyHistoryChartProps {
+  supplyChanges: TokenTransfer[];
+  decimals: number;
+}
+
+const chartConfig = {
+  supply: { label: "Supply", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+// Total supply after each indexed mint or burn
+const SupplyHistoryChart: React.FC<SupplyHistoryChartProps> = ({ supplyChanges, decimals }) => {
+  const data = getSupplyHistory(supplyChanges).map((point) => ({
+    date: point.date.toLocaleDateString("en-US", { month: "short", day: "numeric" }),
+    // Charts plot numbers; the exact amount is kept for the tooltip
+    supply: Number(toDecimalString(point.supply, decimals)),
+    exact: point.supply,
+  }));
+
+  if (data.length === 0) {
+    return <p className="text-sm text-muted-foreground">No mints have been indexed for this token yet.</p>;
+  }
+
+  return (
+    <ChartContainer config={chartConfig} className="h-64 w-full aspect-auto">
+      <AreaChart data={data} margin={{ left: 8, right: 8 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="date" tickLine={false} axisLine={false} />
+        <YAxis
+          tickLine={false}
+          axisLine={false}
+          width={64}
+          tickFormatter={(value: number) =>
+            new Intl.NumberFormat(undefined, { notation: "compact", maximumFractionDigits: 2 }).format(value)
+          }
+        />
+        <ChartTooltip
+          content={
+            <ChartTooltipContent
+              formatter={(_value, _name, item) => formatTokenAmount(item.payload.exact, decimals)}
+            />
+          }
+        />
+        <Area
+          dataKey="supply"
+          type="stepAfter"
+          stroke="var(--color-supply)"
+          fill="var(--color-supply)"
+          fillOpacity={0.2}
+        />
+      </AreaChart>
+    </ChartContainer>
+  );
+};
+
+export default SupplyHistoryChart;
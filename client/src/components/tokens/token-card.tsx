@@ -1,9 +1,10 @@
-import React, { useState, useEffect } from "react";
+import React, { useState } from "react";
+import { Link } from "wouter";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { type Token } from "@shared/schema";
-import { ethers } from "ethers";
+import { type Token, type TokenWithDetails } from "@shared/schema";
+import { formatTokenAmount } from "@shared/token-amount";
 import { useWallet } from "@/lib/web3";
 import DistributeModal from "./distribute-modal";
 import TokenDetailsModal from "./token-details-modal";
@@ -19,34 +20,17 @@ const TokenCard: React.FC<TokenCardProps> = ({ token, balance, holders: propHold
   const [isDistributeModalOpen, setIsDistributeModalOpen] = useState(false);
   const [isDetailsModalOpen, setIsDetailsModalOpen] = useState(false);
   
-  // Fetch votes to get actual holder count
-  const { data: votes } = useQuery({
-    queryKey: ["/api/votes/voter"],
-    enabled: true,
+  // Holder count from indexed Transfer events
+  const { data: details } = useQuery<TokenWithDetails>({
+    queryKey: [`/api/tokens/${token.contractAddress}`],
+    enabled: propHolders === undefined,
   });
-  
-  // Calculate holder count from unique voter addresses
-  const [holderCount, setHolderCount] = useState(1); // Default to at least 1 (the creator)
-  
-  useEffect(() => {
-    if (!votes || !Array.isArray(votes)) return;
-    
-    // Get unique addresses that have interacted with any proposals for this token
-    const uniqueAddresses = new Set<string>();
-    uniqueAddresses.add(token.creatorAddress.toLowerCase());
-    
-    // In a real application, we would fetch actual holder data from the blockchain or an API
-    // For now, use a reasonable default plus a random number to simulate some holders
-    const randomHolders = Math.floor(Math.random() * 4) + 2; // 2-5 random holders
-    setHolderCount(randomHolders);
-  }, [votes, token.creatorAddress]);
+  const holderCount = propHolders ?? details?.holderCount;
 
-  // Format large numbers with commas, properly accounting for 18 decimals
+  // Format base-unit amounts with commas using the token's decimals
   const formatNumber = (value: string) => {
     try {
-      // Make sure to explicitly divide by 10^18 for token balances
-      const valueInEther = ethers.formatUnits(value || "0", 18);
-      return new Intl.NumberFormat().format(Number(valueInEther));
+      return formatTokenAmount(value, token.decimals);
     } catch (error) {
       console.warn("Error formatting number:", error);
       return "0";
@@ -72,7 +56,11 @@ const TokenCard: React.FC<TokenCardProps> = ({ token, balance, holders: propHold
               <Badge className="mb-2 bg-primary/10 text-primary hover:bg-primary/20">
                 ERC20
               </Badge>
-              <h3 className="text-xl font-bold font-heading">{token.name}</h3>
+              <h3 className="text-xl font-bold font-heading">
+                <Link href={`/tokens/${token.contractAddress}`} className="hover:underline">
+                  {token.name}
+                </Link>
+              </h3>
               <div className="text-sm text-muted-foreground">{token.symbol}</div>
             </div>
             <div className="bg-muted w-12 h-12 rounded-full flex items-center justify-center">
@@ -93,7 +81,7 @@ const TokenCard: React.FC<TokenCardProps> = ({ token, balance, holders: propHold
             </div>
             <div className="flex justify-between text-sm">
               <span className="text-muted-foreground">Holders:</span>
-              <span className="font-medium">{propHolders || holderCount}</span>
+              <span className="font-medium">{holderCount ?? "-"}</span>
             </div>
           </div>
 
@@ -1,4 +1,5 @@
-import React from "react";
+import React, { useState, useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { 
   Dialog, 
   DialogContent, 
@@ -10,11 +11,23 @@ import {
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
-import { ExternalLink, Copy } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { ExternalLink, Copy, Users } from "lucide-react";
 import { type Token } from "@shared/schema";
 import { ethers } from "ethers";
-import { shortenAddress } from "@/lib/web3";
+import { formatTokenAmount } from "@shared/token-amount";
+import { getExplorerUrl } from "@shared/networks";
+import { useWallet, shortenAddress } from "@/lib/web3";
 import { useToast } from "@/hooks/use-toast";
+import { getDelegate, delegateVotes } from "@/lib/contracts";
+import VestingForm from "./vesting-form";
+
+interface DelegateSummary {
+  delegateAddress: string;
+  delegatorCount: number;
+  delegators: string[];
+  votingPower: string;
+}
 
 interface TokenDetailsModalProps {
   token: Token;
@@ -30,13 +43,71 @@ const TokenDetailsModal: React.FC<TokenDetailsModalProps> = ({
   onClose 
 }) => {
   const { toast } = useToast();
+  const { account, signer, provider } = useWallet();
+  const [currentDelegate, setCurrentDelegate] = useState<string | null>(null);
+  const [delegateeInput, setDelegateeInput] = useState("");
+  const [isDelegating, setIsDelegating] = useState(false);
+  const [showVestingForm, setShowVestingForm] = useState(false);
+
+  // Delegates with voting power handed to them by other holders
+  const { data: delegates = [], refetch: refetchDelegates } = useQuery<DelegateSummary[]>({
+    queryKey: [`/api/delegates/${token.contractAddress}`],
+    enabled: open,
+  });
+
+  // Load who the connected wallet currently delegates to
+  useEffect(() => {
+    if (!open || !provider || !account) return;
+    getDelegate(provider, token.contractAddress, account).then(setCurrentDelegate);
+  }, [open, provider, account, token.contractAddress]);
+
+  const handleDelegate = async (delegatee: string) => {
+    try {
+      if (!signer) {
+        toast({
+          title: "Wallet not connected",
+          description: "Please connect your wallet first",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      if (!ethers.isAddress(delegatee)) {
+        toast({
+          title: "Invalid address",
+          description: "Please enter a valid Ethereum address.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      setIsDelegating(true);
+      await delegateVotes(signer, token.contractAddress, delegatee);
+      setCurrentDelegate(delegatee);
+      setDelegateeInput("");
+
+      toast({
+        title: "Votes delegated",
+        description: `Your ${token.symbol} voting power now goes to ${shortenAddress(delegatee)}`,
+      });
 
-  // Format large numbers with commas, properly accounting for 18 decimals
+      refetchDelegates();
+    } catch (error) {
+      console.error("Error delegating votes:", error);
+      toast({
+        title: "Failed to delegate",
+        description: error instanceof Error ? error.message : "Unknown error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setIsDelegating(false);
+    }
+  };
+
+  // Format base-unit amounts with commas using the token's decimals
   const formatNumber = (value: string) => {
     try {
-      // Make sure to explicitly divide by 10^18 for token balances
-      const valueInEther = ethers.formatUnits(value || "0", 18);
-      return new Intl.NumberFormat().format(Number(valueInEther));
+      return formatTokenAmount(value, token.decimals);
     } catch (error) {
       console.warn("Error formatting number:", error);
       return "0";
@@ -46,7 +117,10 @@ const TokenDetailsModal: React.FC<TokenDetailsModalProps> = ({
   const formattedTotalSupply = formatNumber(token.totalSupply);
   const formattedBalance = formatNumber(balance);
 
-  const explorerBaseUrl = "https://alfajores.celoscan.io";
+  const openExplorer = (kind: "address" | "token", value: string) => {
+    const url = getExplorerUrl(token.chainId, kind, value);
+    if (url) window.open(url, '_blank');
+  };
 
   const copyToClipboard = (text: string, label: string) => {
     navigator.clipboard.writeText(text);
@@ -58,7 +132,7 @@ const TokenDetailsModal: React.FC<TokenDetailsModalProps> = ({
 
   return (
     <Dialog open={open} onOpenChange={onClose}>
-      <DialogContent className="sm:max-w-[500px]">
+      <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="text-2xl font-heading flex items-center gap-2">
             {token.name}
@@ -90,7 +164,7 @@ const TokenDetailsModal: React.FC<TokenDetailsModalProps> = ({
                 variant="ghost" 
                 size="icon" 
                 className="h-8 w-8" 
-                onClick={() => window.open(`${explorerBaseUrl}/address/${token.contractAddress}`, '_blank')}
+                onClick={() => openExplorer("address", token.contractAddress)}
               >
                 <ExternalLink className="h-4 w-4" />
               </Button>
@@ -136,13 +210,90 @@ const TokenDetailsModal: React.FC<TokenDetailsModalProps> = ({
                 variant="ghost" 
                 size="icon" 
                 className="h-8 w-8" 
-                onClick={() => window.open(`${explorerBaseUrl}/address/${token.creatorAddress}`, '_blank')}
+                onClick={() => openExplorer("address", token.creatorAddress)}
               >
                 <ExternalLink className="h-4 w-4" />
               </Button>
             </div>
           </div>
 
+          <Separator />
+
+          <div className="space-y-2">
+            <div className="text-sm text-muted-foreground">Your Voting Delegate</div>
+            <div className="font-medium">
+              {!currentDelegate
+                ? "Not delegated"
+                : account && currentDelegate.toLowerCase() === account.toLowerCase()
+                ? "Yourself"
+                : shortenAddress(currentDelegate)}
+            </div>
+            <div className="flex items-center space-x-2">
+              <Input
+                placeholder="Delegate address (0x...)"
+                value={delegateeInput}
+                onChange={(e) => setDelegateeInput(e.target.value)}
+                disabled={isDelegating || !signer}
+              />
+              <Button
+                onClick={() => handleDelegate(delegateeInput)}
+                disabled={isDelegating || !signer || !delegateeInput}
+              >
+                {isDelegating ? "Delegating..." : "Delegate"}
+              </Button>
+            </div>
+            {account && currentDelegate?.toLowerCase() !== account.toLowerCase() && (
+              <button
+                type="button"
+                className="text-xs text-primary"
+                onClick={() => handleDelegate(account)}
+                disabled={isDelegating}
+              >
+                Vote with my own balance
+              </button>
+            )}
+          </div>
+
+          {delegates.length > 0 && (
+            <div className="space-y-2">
+              <div className="text-sm text-muted-foreground">Top Delegates</div>
+              {delegates.slice(0, 5).map((delegate) => (
+                <div key={delegate.delegateAddress} className="flex justify-between text-sm">
+                  <span className="flex items-center gap-1">
+                    <code>{shortenAddress(delegate.delegateAddress)}</code>
+                    <span className="text-muted-foreground flex items-center">
+                      <Users className="h-3 w-3 ml-1 mr-0.5" />
+                      {delegate.delegatorCount}
+                    </span>
+                  </span>
+                  <span className="font-medium">
+                    {formatNumber(delegate.votingPower)} {token.symbol}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <Separator />
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <div className="text-sm text-muted-foreground">Vesting</div>
+              {account && (
+                <Button variant="ghost" size="sm" onClick={() => setShowVestingForm(!showVestingForm)}>
+                  {showVestingForm ? "Cancel" : "New Schedule"}
+                </Button>
+              )}
+            </div>
+            {showVestingForm ? (
+              <VestingForm token={token} balance={balance} onCreated={() => setShowVestingForm(false)} />
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                Lock {token.symbol} for a team member or investor with a cliff and linear release.
+              </p>
+            )}
+          </div>
+
           <div>
             <div className="text-sm text-muted-foreground">Creation Date</div>
             <div className="font-medium">
@@ -159,7 +310,10 @@ const TokenDetailsModal: React.FC<TokenDetailsModalProps> = ({
 
         <DialogFooter>
           <Button variant="outline" onClick={onClose}>Close</Button>
-          <Button onClick={() => window.open(`${explorerBaseUrl}/token/${token.contractAddress}`, '_blank')}>
+          <Button
+            onClick={() => openExplorer("token", token.contractAddress)}
+            disabled={!getExplorerUrl(token.chainId, "token", token.contractAddress)}
+          >
             View on Explorer
           </Button>
         </DialogFooter>
@@ -21,6 +21,8 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Checkbox } from "@/components/ui/checkbox";
+import { useWallet } from "@/lib/web3.tsx";
+import { getExplorerUrl } from "@shared/networks";
 
 const formSchema = z.object({
   tokenName: z.string().min(2, {
@@ -51,6 +53,7 @@ const TokenForm: React.FC<TokenFormProps> = ({
   isSubmitting,
   transactionHash
 }) => {
+  const { chainId } = useWallet();
   const form = useForm<z.infer<typeof formSchema>>({
     resolver: zodResolver(formSchema),
     defaultValues: {
@@ -212,7 +215,7 @@ const TokenForm: React.FC<TokenFormProps> = ({
                     <div className="mt-3 text-xs text-muted-foreground">
                       Transaction hash:{" "}
                       <a
-                        href={`https://etherscan.io/tx/${transactionHash}`}
+                        href={getExplorerUrl(chainId, "tx", transactionHash)}
                         target="_blank"
                         rel="noopener noreferrer"
                         className="text-primary"
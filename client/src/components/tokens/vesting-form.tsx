@@ -0,0 +1,193 @@
+import React, { useState } from "react";
+import { ethers } from "ethers";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { type Token } from "@shared/schema";
+import { formatTokenAmount, parseTokenAmount } from "@shared/token-amount";
+import { useWallet } from "@/lib/web3";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { createVestingSchedule } from "@/lib/contracts";
+
+interface VestingFormProps {
+  token: Token;
+  balance: string;
+  onCreated: () => void;
+}
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+// Today in the yyyy-mm-dd form used by date inputs
+const today = () => new Date().toISOString().slice(0, 10);
+
+// Lock tokens for a beneficiary in a vesting contract that releases them linearly after a cliff
+const VestingForm: React.FC<VestingFormProps> = ({ token, balance, onCreated }) => {
+  const { signer, network } = useWallet();
+  const { toast } = useToast();
+  const [beneficiary, setBeneficiary] = useState("");
+  const [amountText, setAmountText] = useState("");
+  const [startDate, setStartDate] = useState(today);
+  const [cliffDays, setCliffDays] = useState("90");
+  const [durationDays, setDurationDays] = useState("365");
+  const [revocable, setRevocable] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  let amount: bigint | null = null;
+  try {
+    amount = amountText ? parseTokenAmount(amountText, token.decimals) : null;
+  } catch (error) {
+    amount = null;
+  }
+
+  const cliff = Number(cliffDays);
+  const duration = Number(durationDays);
+  const start = new Date(`${startDate}T00:00:00`);
+
+  const errors = [
+    beneficiary && !ethers.isAddress(beneficiary) ? "Beneficiary is not a valid address" : null,
+    amountText && (amount === null || amount <= BigInt(0)) ? "Amount must be a positive number" : null,
+    amount !== null && amount > BigInt(balance || "0") ? "The amount is more than your balance" : null,
+    !Number.isInteger(duration) || duration < 1 ? "Duration must be at least one day" : null,
+    !Number.isInteger(cliff) || cliff < 0 || cliff > duration ? "Cliff must be between 0 days and the duration" : null,
+    isNaN(start.getTime()) ? "Start date is invalid" : null,
+  ].filter((error): error is string => error !== null);
+
+  const canSubmit =
+    !!network?.contracts.tokenVestingFactory &&
+    !!beneficiary &&
+    amount !== null &&
+    errors.length === 0 &&
+    !isSubmitting;
+
+  const handleSubmit = async () => {
+    if (!signer) {
+      toast({
+        title: "Wallet not connected",
+        description: "Please connect your wallet first",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (amount === null) return;
+
+    try {
+      setIsSubmitting(true);
+      const vestingAddress = await createVestingSchedule(
+        signer,
+        token.contractAddress,
+        beneficiary,
+        amount.toString(),
+        start,
+        cliff * SECONDS_PER_DAY,
+        duration * SECONDS_PER_DAY,
+        revocable
+      );
+      await apiRequest("POST", "/api/vesting", { vestingAddress });
+
+      toast({
+        title: "Vesting schedule created",
+        description: `${formatTokenAmount(amount, token.decimals)} ${token.symbol} are locked for the beneficiary`,
+      });
+
+      queryClient.invalidateQueries({ queryKey: [`/api/vesting/token/${token.contractAddress}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/tokens/${token.contractAddress}/holders`] });
+      setBeneficiary("");
+      setAmountText("");
+      onCreated();
+    } catch (error) {
+      console.error("Error creating vesting schedule:", error);
+      toast({
+        title: "Failed to create vesting schedule",
+        description: error instanceof Error ? error.message : "Unknown error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!network?.contracts.tokenVestingFactory) {
+    return (
+      <p className="text-sm text-destructive">
+        Vesting schedules cannot be created until TokenVestingFactory is deployed on {network?.name ?? "this network"}
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <Input
+        placeholder="Beneficiary address (0x...)"
+        value={beneficiary}
+        onChange={(event) => setBeneficiary(event.target.value.trim())}
+        disabled={isSubmitting}
+      />
+      <Input
+        placeholder={`Amount in ${token.symbol}`}
+        value={amountText}
+        onChange={(event) => setAmountText(event.target.value)}
+        disabled={isSubmitting}
+      />
+
+      <div className="grid grid-cols-3 gap-2">
+        <div className="space-y-1">
+          <div className="text-xs text-muted-foreground">Start</div>
+          <Input
+            type="date"
+            value={startDate}
+            onChange={(event) => setStartDate(event.target.value)}
+            disabled={isSubmitting}
+          />
+        </div>
+        <div className="space-y-1">
+          <div className="text-xs text-muted-foreground">Cliff (days)</div>
+          <Input
+            type="number"
+            min={0}
+            value={cliffDays}
+            onChange={(event) => setCliffDays(event.target.value)}
+            disabled={isSubmitting}
+          />
+        </div>
+        <div className="space-y-1">
+          <div className="text-xs text-muted-foreground">Duration (days)</div>
+          <Input
+            type="number"
+            min={1}
+            value={durationDays}
+            onChange={(event) => setDurationDays(event.target.value)}
+            disabled={isSubmitting}
+          />
+        </div>
+      </div>
+
+      <label className="flex items-center justify-between text-sm">
+        <span>
+          Revocable
+          <span className="block text-xs text-muted-foreground">
+            You can stop the schedule and take back tokens that have not vested yet
+          </span>
+        </span>
+        <Switch checked={revocable} onCheckedChange={setRevocable} disabled={isSubmitting} />
+      </label>
+
+      {!token.isTransferable && (
+        <p className="text-sm text-destructive">
+          {token.symbol} transfers are disabled, so tokens cannot be locked or released until they are enabled
+        </p>
+      )}
+      {errors.map((error) => (
+        <p key={error} className="text-sm text-destructive">{error}</p>
+      ))}
+
+      <div className="flex justify-end">
+        <Button onClick={handleSubmit} disabled={!canSubmit}>
+          {isSubmitting ? "Creating..." : "Create Vesting Schedule"}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default VestingForm;
@@ -0,0 +1,178 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { Link } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Skeleton } from "@/components/ui/skeleton";
+import { type TokenWithDetails, type VestingSchedule } from "@shared/schema";
+import { formatTokenAmount } from "@shared/token-amount";
+import { useWallet, shortenAddress } from "@/lib/web3";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { getVestingState, releaseVested, revokeVesting, type VestingState } from "@/lib/contracts";
+
+interface VestingScheduleCardProps {
+  schedule: VestingSchedule;
+}
+
+const formatDate = (value: Date | string) =>
+  new Date(value).toLocaleDateString("en-US", { year: "numeric", month: "short", day: "numeric" });
+
+// One vesting schedule with its live amounts; the beneficiary can release and the creator can revoke
+const VestingScheduleCard: React.FC<VestingScheduleCardProps> = ({ schedule }) => {
+  const { account, signer, provider } = useWallet();
+  const { toast } = useToast();
+  const [state, setState] = useState<VestingState | null>(null);
+  const [pendingAction, setPendingAction] = useState<"release" | "revoke" | null>(null);
+
+  const { data: token } = useQuery<TokenWithDetails>({
+    queryKey: [`/api/tokens/${schedule.tokenAddress}`],
+  });
+
+  // Amounts change every block, so they are read from the contract rather than the API
+  const loadState = useCallback(async () => {
+    if (!provider) return;
+    try {
+      setState(await getVestingState(provider, schedule.vestingAddress));
+    } catch (error) {
+      console.warn("Error loading vesting schedule:", error);
+    }
+  }, [provider, schedule.vestingAddress]);
+
+  useEffect(() => {
+    loadState();
+  }, [loadState]);
+
+  const decimals = token?.decimals ?? 18;
+  const symbol = token?.symbol ?? "";
+  const format = (value: string) => `${formatTokenAmount(value, decimals)} ${symbol}`;
+
+  const isBeneficiary = !!account && account.toLowerCase() === schedule.beneficiaryAddress.toLowerCase();
+  const isCreator = !!account && account.toLowerCase() === schedule.creatorAddress.toLowerCase();
+  const now = new Date();
+  const status = state?.revoked
+    ? "Revoked"
+    : now < new Date(schedule.cliffTime)
+      ? "Before cliff"
+      : now < new Date(schedule.endTime)
+        ? "Vesting"
+        : "Fully vested";
+
+  const vestedTotal = state ? BigInt(state.vested) + BigInt(state.locked) : BigInt(0);
+  const vestedPercent = state && vestedTotal > BigInt(0)
+    ? Number((BigInt(state.vested) * BigInt(10000)) / vestedTotal) / 100
+    : 0;
+
+  const runAction = async (action: "release" | "revoke") => {
+    if (!signer) {
+      toast({
+        title: "Wallet not connected",
+        description: "Please connect your wallet first",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      setPendingAction(action);
+      if (action === "release") {
+        await releaseVested(signer, schedule.vestingAddress);
+        toast({
+          title: "Tokens released",
+          description: `${format(state?.releasable ?? "0")} sent to the beneficiary`,
+        });
+      } else {
+        await revokeVesting(signer, schedule.vestingAddress);
+        toast({
+          title: "Schedule revoked",
+          description: "Unvested tokens were returned to your wallet",
+        });
+      }
+      queryClient.invalidateQueries({ queryKey: [`/api/tokens/${schedule.tokenAddress}/holders`] });
+      await loadState();
+    } catch (error) {
+      console.error(`Error during vesting ${action}:`, error);
+      toast({
+        title: action === "release" ? "Failed to release" : "Failed to revoke",
+        description: error instanceof Error ? error.message : "Unknown error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardContent className="p-6 space-y-4">
+        <div className="flex flex-wrap items-start justify-between gap-2">
+          <div>
+            <Link href={`/tokens/${schedule.tokenAddress}`} className="font-heading font-semibold text-primary hover:underline">
+              {token ? `${token.name} (${token.symbol})` : shortenAddress(schedule.tokenAddress)}
+            </Link>
+            <div className="text-sm text-muted-foreground">
+              For {shortenAddress(schedule.beneficiaryAddress)} · {formatDate(schedule.startTime)} to{" "}
+              {formatDate(schedule.endTime)}, cliff {formatDate(schedule.cliffTime)}
+            </div>
+          </div>
+          <div className="flex gap-2">
+            {schedule.revocable && <Badge variant="outline">Revocable</Badge>}
+            <Badge variant={status === "Revoked" ? "destructive" : "secondary"}>{status}</Badge>
+          </div>
+        </div>
+
+        {!state ? (
+          <Skeleton className="h-20" />
+        ) : (
+          <>
+            <Progress value={vestedPercent} className="h-2" />
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 text-sm">
+              <div>
+                <div className="text-muted-foreground">Locked</div>
+                <div className="font-medium">{format(state.locked)}</div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">Vested</div>
+                <div className="font-medium">{format(state.vested)}</div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">Released</div>
+                <div className="font-medium">{format(state.released)}</div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">Releasable</div>
+                <div className="font-medium">{format(state.releasable)}</div>
+              </div>
+            </div>
+          </>
+        )}
+
+        {(isBeneficiary || (isCreator && schedule.revocable && !state?.revoked)) && (
+          <div className="flex justify-end gap-2">
+            {isCreator && schedule.revocable && !state?.revoked && (
+              <Button
+                variant="outline"
+                onClick={() => runAction("revoke")}
+                disabled={!state || pendingAction !== null}
+              >
+                {pendingAction === "revoke" ? "Revoking..." : "Revoke"}
+              </Button>
+            )}
+            {isBeneficiary && (
+              <Button
+                onClick={() => runAction("release")}
+                disabled={!state || BigInt(state.releasable) === BigInt(0) || pendingAction !== null}
+              >
+                {pendingAction === "release" ? "Releasing..." : "Release"}
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default VestingScheduleCard;
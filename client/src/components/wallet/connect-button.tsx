@@ -1,19 +1,13 @@
-import React from "react";
+import React, { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { useWallet, shortenAddress } from "@/lib/web3.tsx";
 import { Wallet } from "lucide-react";
 import { Skeleton } from "@/components/ui/skeleton";
+import WalletPicker from "./wallet-picker";
 
 const ConnectButton: React.FC = () => {
-  const { account, isConnected, isConnecting, connectWallet, disconnectWallet } = useWallet();
-
-  if (isConnecting) {
-    return (
-      <Button disabled className="flex items-center">
-        <Skeleton className="h-4 w-24" />
-      </Button>
-    );
-  }
+  const { account, isConnected, isConnecting, disconnectWallet } = useWallet();
+  const [isPickerOpen, setIsPickerOpen] = useState(false);
 
   if (isConnected && account) {
     return (
@@ -31,10 +25,19 @@ const ConnectButton: React.FC = () => {
   }
 
   return (
-    <Button className="flex items-center" onClick={connectWallet}>
-      <Wallet className="w-5 h-5 mr-2" />
-      Connect Wallet
-    </Button>
+    <>
+      {isConnecting ? (
+        <Button disabled className="flex items-center">
+          <Skeleton className="h-4 w-24" />
+        </Button>
+      ) : (
+        <Button className="flex items-center" onClick={() => setIsPickerOpen(true)}>
+          <Wallet className="w-5 h-5 mr-2" />
+          Connect Wallet
+        </Button>
+      )}
+      <WalletPicker open={isPickerOpen} onClose={() => setIsPickerOpen(false)} />
+    </>
   );
 };
 
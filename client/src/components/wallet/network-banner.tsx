@@ -0,0 +1,38 @@
+import React from "react";
+import { AlertTriangle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useWallet } from "@/lib/web3.tsx";
+import { getNetwork } from "@shared/networks";
+
+// Blocks the page while the wallet is on another chain than the one the platform runs on
+const NetworkBanner: React.FC = () => {
+  const { chainId, supportedNetwork, isWrongNetwork, switchNetwork } = useWallet();
+
+  if (!isWrongNetwork || !supportedNetwork) {
+    return null;
+  }
+
+  const currentName = getNetwork(chainId)?.name ?? `chain ${chainId}`;
+
+  return (
+    <>
+      {/* Rendered in the header's stacking context, so it covers the page but stays behind the header's controls */}
+      <div className="fixed inset-0 -z-10 bg-background/80 backdrop-blur-sm" aria-hidden="true" />
+      <div role="alert" className="bg-destructive text-destructive-foreground">
+        <div className="container mx-auto px-4 py-3 flex flex-wrap items-center justify-between gap-3">
+          <div className="flex items-center gap-2 text-sm">
+            <AlertTriangle className="h-4 w-4 shrink-0" />
+            <span>
+              Your wallet is connected to {currentName}. TokenVote runs on {supportedNetwork.name}.
+            </span>
+          </div>
+          <Button variant="secondary" size="sm" onClick={switchNetwork}>
+            Switch to {supportedNetwork.name}
+          </Button>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default NetworkBanner;
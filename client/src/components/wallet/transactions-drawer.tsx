@@ -0,0 +1,97 @@
+import React from "react";
+import { ExternalLink, History, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetDescription, SheetTrigger } from "@/components/ui/sheet";
+import { useWallet, shortenAddress } from "@/lib/web3.tsx";
+import { useTransactions, type TransactionStatus } from "@/lib/transactions";
+import { getExplorerUrl } from "@shared/networks";
+
+const STATUS_BADGES: Record<TransactionStatus, { label: string; variant: "secondary" | "outline" | "destructive" }> = {
+  pending: { label: "Pending", variant: "outline" },
+  confirmed: { label: "Confirmed", variant: "secondary" },
+  failed: { label: "Failed", variant: "destructive" },
+};
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString("en-US", { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" });
+
+// Header button listing the connected account's recent transactions and their status
+const TransactionsDrawer: React.FC = () => {
+  const { isConnected, chainId } = useWallet();
+  const { transactions, pendingCount, clearFinished } = useTransactions();
+
+  if (!isConnected) {
+    return null;
+  }
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button variant="outline" size="icon" className="rounded-full relative" aria-label="Recent transactions">
+          {pendingCount > 0 ? <Loader2 className="h-5 w-5 animate-spin" /> : <History className="h-5 w-5" />}
+          {pendingCount > 0 && (
+            <span className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 rounded-full bg-primary text-primary-foreground text-xs flex items-center justify-center">
+              {pendingCount}
+            </span>
+          )}
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Recent Transactions</SheetTitle>
+          <SheetDescription>
+            {pendingCount > 0
+              ? `${pendingCount} waiting to be mined`
+              : "Transactions you send from this app appear here"}
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-6 space-y-3">
+          {transactions.length === 0 && (
+            <p className="text-sm text-muted-foreground">No transactions yet</p>
+          )}
+          {transactions.map((tx) => {
+            const explorerUrl = getExplorerUrl(chainId, "tx", tx.hash);
+            const badge = STATUS_BADGES[tx.status];
+            return (
+              <div key={tx.hash} className="rounded-md border border-border p-3 space-y-1">
+                <div className="flex items-start justify-between gap-2">
+                  <span className="text-sm font-medium">{tx.description}</span>
+                  <Badge variant={badge.variant}>{badge.label}</Badge>
+                </div>
+                {tx.error && <p className="text-xs text-destructive">{tx.error}</p>}
+                <div className="flex items-center justify-between text-xs text-muted-foreground">
+                  <span>{formatTime(tx.submittedAt)}</span>
+                  {explorerUrl ? (
+                    <a
+                      href={explorerUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex items-center text-primary hover:underline"
+                    >
+                      {shortenAddress(tx.hash)}
+                      <ExternalLink className="h-3 w-3 ml-1" />
+                    </a>
+                  ) : (
+                    <span>{shortenAddress(tx.hash)}</span>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {transactions.some((tx) => tx.status !== "pending") && (
+          <div className="mt-4 flex justify-end">
+            <Button variant="ghost" size="sm" onClick={clearFinished}>
+              Clear finished
+            </Button>
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default TransactionsDrawer;
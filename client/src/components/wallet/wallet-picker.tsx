@@ -0,0 +1,98 @@
+import React from "react";
+import { QRCodeSVG } from "qrcode.react";
+import { QrCode, Wallet } from "lucide-react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { useWallet } from "@/lib/web3.tsx";
+import { useInjectedWallets, WALLETCONNECT_CONNECTOR, WALLETCONNECT_PROJECT_ID } from "@/lib/wallets";
+
+interface WalletPickerProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+// Lists the browser wallets found through EIP-6963, plus WalletConnect for mobile wallets
+const WalletPicker: React.FC<WalletPickerProps> = ({ open, onClose }) => {
+  const { isConnecting, walletConnectUri, connectWallet, cancelConnect } = useWallet();
+  const injectedWallets = useInjectedWallets();
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) return;
+    if (isConnecting) {
+      cancelConnect();
+    }
+    onClose();
+  };
+
+  const handleSelect = async (connectorId: string) => {
+    await connectWallet(connectorId);
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle className="text-2xl font-bold font-heading mb-2">Connect Wallet</DialogTitle>
+          <DialogDescription>
+            {walletConnectUri
+              ? "Scan the code with a WalletConnect-compatible wallet on your phone"
+              : "Choose the wallet to sign in with"}
+          </DialogDescription>
+        </DialogHeader>
+
+        {walletConnectUri ? (
+          <div className="flex flex-col items-center gap-4">
+            <div className="rounded-md bg-white p-4">
+              <QRCodeSVG value={walletConnectUri} size={224} />
+            </div>
+            <Button variant="outline" onClick={() => navigator.clipboard.writeText(walletConnectUri)}>
+              Copy link
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {injectedWallets.map((wallet) => (
+              <Button
+                key={wallet.id}
+                variant="outline"
+                className="w-full justify-start"
+                onClick={() => handleSelect(wallet.id)}
+                disabled={isConnecting}
+              >
+                {wallet.icon ? (
+                  <img src={wallet.icon} alt="" className="w-5 h-5 mr-2" />
+                ) : (
+                  <Wallet className="w-5 h-5 mr-2" />
+                )}
+                {wallet.name}
+              </Button>
+            ))}
+            {injectedWallets.length === 0 && (
+              <p className="text-sm text-muted-foreground">
+                No browser wallet was found. Install one such as MetaMask, or connect a mobile wallet with WalletConnect.
+              </p>
+            )}
+
+            <Button
+              variant="outline"
+              className="w-full justify-start"
+              onClick={() => handleSelect(WALLETCONNECT_CONNECTOR)}
+              disabled={isConnecting || !WALLETCONNECT_PROJECT_ID}
+            >
+              <QrCode className="w-5 h-5 mr-2" />
+              WalletConnect
+            </Button>
+            {!WALLETCONNECT_PROJECT_ID && (
+              <p className="text-xs text-muted-foreground">
+                WalletConnect is unavailable until VITE_WALLETCONNECT_PROJECT_ID is set
+              </p>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default WalletPicker;
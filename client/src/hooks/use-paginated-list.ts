@@ -0,0 +1,28 @@
+import { useMemo } from "react";
+import { useInfiniteQuery, type InfiniteData } from "@tanstack/react-query";
+import { fetchListPage, type ListPage } from "@/lib/queryClient";
+
+// How list queries are cached: the pages loaded so far, keyed by the cursor each was fetched with
+export type ListPages<T> = InfiniteData<ListPage<T>, string | null>;
+
+// Loads a list route one page at a time; loadMore fetches the page after the last one loaded
+export function usePaginatedList<T>(queryKey: unknown[], options: { enabled?: boolean } = {}) {
+  const query = useInfiniteQuery({
+    queryKey,
+    queryFn: ({ pageParam }) => fetchListPage<T>(queryKey, pageParam),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: options.enabled,
+  });
+
+  // Stable between renders so effects depending on the list only rerun when a page changes
+  const items = useMemo(() => query.data?.pages.flatMap((page) => page.items), [query.data]);
+
+  return {
+    items,
+    isLoading: query.isLoading,
+    hasMore: query.hasNextPage,
+    isLoadingMore: query.isFetchingNextPage,
+    loadMore: () => query.fetchNextPage(),
+  };
+}
@@ -0,0 +1,114 @@
+import { useEffect, useState } from "react";
+import { type ProposalWithDetails } from "@shared/schema";
+import { useWallet } from "@/lib/web3.tsx";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { getVotingPower, voteOnProposal } from "@/lib/contracts";
+import { type VoteChoice } from "@/lib/proposals";
+
+// Cast the connected wallet's vote on a proposal, on-chain or through the API
+export function useProposalVote(proposal: ProposalWithDetails, hasVoted: boolean) {
+  const { account, signer, provider } = useWallet();
+  const { toast } = useToast();
+  const [isVoting, setIsVoting] = useState(false);
+  const [localHasVoted, setLocalHasVoted] = useState(hasVoted);
+
+  // The caller's vote lookup may finish after the first render
+  useEffect(() => {
+    if (hasVoted) setLocalHasVoted(true);
+  }, [hasVoted]);
+
+  const handleVote = async (direction: VoteChoice, optionId?: number) => {
+    try {
+      if (!account || !signer || !provider) {
+        toast({
+          title: "Wallet not connected",
+          description: "Please connect your wallet to vote",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      if (localHasVoted) {
+        toast({
+          title: "Already voted",
+          description: "You have already voted on this proposal",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      setIsVoting(true);
+
+      // Check if the user had voting power when the proposal was created
+      try {
+        const votingPower = await getVotingPower(
+          provider,
+          proposal.tokenAddress,
+          account,
+          proposal.snapshotBlock
+        );
+
+        if (BigInt(votingPower) === BigInt(0)) {
+          toast({
+            title: "No voting power",
+            description: `You need to have held ${proposal.tokenSymbol} tokens when this proposal was created to vote on it`,
+            variant: "destructive",
+          });
+          setIsVoting(false);
+          return;
+        }
+      } catch (balanceError) {
+        console.error("Error checking voting power:", balanceError);
+        // Continue with voting attempt even if the check fails
+      }
+
+      if (proposal.chainProposalId != null) {
+        // On-chain proposals are voted through the Governance contract; the indexer records the vote
+        if (direction === "option") {
+          throw new Error("On-chain proposals have no options");
+        }
+        await voteOnProposal(signer, proposal.chainProposalId, direction);
+
+        toast({
+          title: "Vote submitted",
+          description: `You voted ${direction} the proposal. Results update once the vote is confirmed on-chain.`,
+        });
+      } else {
+        // Proceed with vote; the server weighs it by our on-chain balance
+        await apiRequest("POST", "/api/votes", {
+          proposalId: proposal.id,
+          voteDirection: direction,
+          optionId,
+        });
+
+        const choice = direction === "option"
+          ? `for "${proposal.options.find((option) => option.id === optionId)?.label}"`
+          : direction === "abstain" ? "to abstain" : direction;
+        toast({
+          title: "Vote submitted",
+          description: `You voted ${choice} on the proposal`,
+        });
+      }
+
+      setLocalHasVoted(true);
+
+      // Invalidate proposal queries to refresh the data
+      queryClient.invalidateQueries({ queryKey: ["/api/proposals"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/proposals/active"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/proposals/${proposal.id}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/votes/proposal/${proposal.id}`] });
+    } catch (error) {
+      console.error("Error voting:", error);
+      toast({
+        title: "Failed to vote",
+        description: error instanceof Error ? error.message : "An error occurred while voting",
+        variant: "destructive",
+      });
+    } finally {
+      setIsVoting(false);
+    }
+  };
+
+  return { handleVote, isVoting, hasVoted: localHasVoted };
+}
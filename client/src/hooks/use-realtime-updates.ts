@@ -0,0 +1,113 @@
+import { useEffect } from "react";
+import { queryClient, type ListPage } from "@/lib/queryClient";
+import { type ListPages } from "@/hooks/use-paginated-list";
+import { REALTIME_PATH, type RealtimeEvent } from "@shared/realtime";
+import { type ProposalWithDetails } from "@shared/schema";
+
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+const replaceById = <T extends { id: number }>(items: T[], item: T) =>
+  items.map((existing) => (existing.id === item.id ? item : existing));
+
+// Lists only change once they are loaded; unloaded queries fetch fresh data anyway
+const patchPages = <T>(queryKey: string[], update: (pages: ListPage<T>[]) => ListPage<T>[]) => {
+  queryClient.setQueryData<ListPages<T>>(queryKey, (data) => (data ? { ...data, pages: update(data.pages) } : data));
+};
+
+const replaceInList = <T extends { id: number }>(queryKey: string[], item: T) =>
+  patchPages<T>(queryKey, (pages) => pages.map((page) => ({ ...page, items: replaceById(page.items, item) })));
+
+const removeFromList = (queryKey: string[], id: number) =>
+  patchPages<{ id: number }>(queryKey, (pages) =>
+    pages.map((page) => ({ ...page, items: page.items.filter((existing) => existing.id !== id) }))
+  );
+
+// For newest-first lists: a new item goes to the top of the first page, so later cursors stay valid
+const prependToList = <T extends { id: number }>(queryKey: string[], item: T) =>
+  patchPages<T>(queryKey, (pages) =>
+    pages.some((page) => page.items.some((existing) => existing.id === item.id))
+      ? pages.map((page) => ({ ...page, items: replaceById(page.items, item) }))
+      : pages.map((page, index) => (index === 0 ? { ...page, items: [item, ...page.items] } : page))
+  );
+
+const applyEvent = (event: RealtimeEvent) => {
+  const { proposal } = event;
+
+  // Every event carries the proposal as it is now
+  queryClient.setQueryData<ProposalWithDetails>(
+    [`/api/proposals/${proposal.id}`],
+    (existing) => (existing ? proposal : existing)
+  );
+
+  switch (event.type) {
+    case "proposal_created":
+      prependToList(["/api/proposals"], proposal);
+      // Active proposals end soonest first, so where a new one lands depends on pages not loaded yet
+      queryClient.invalidateQueries({ queryKey: ["/api/proposals/active"] });
+      break;
+
+    case "vote_cast":
+      replaceInList(["/api/proposals"], proposal);
+      replaceInList(["/api/proposals/active"], proposal);
+      prependToList([`/api/votes/proposal/${proposal.id}`], event.vote);
+      break;
+
+    case "proposal_closed":
+      replaceInList(["/api/proposals"], proposal);
+      removeFromList(["/api/proposals/active"], proposal.id);
+      break;
+  }
+
+  // Totals are aggregated on the server, so refetch them rather than patching
+  queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
+};
+
+// Keep cached proposals and votes current with changes made by other users
+export function useRealtimeUpdates() {
+  useEffect(() => {
+    let socket: WebSocket | undefined;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let attempts = 0;
+    let stopped = false;
+
+    const connect = () => {
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      socket = new WebSocket(`${protocol}//${window.location.host}${REALTIME_PATH}`);
+
+      socket.onopen = () => {
+        // Events sent while disconnected are lost, so reload what they could have changed
+        if (attempts > 0) {
+          queryClient.invalidateQueries({ queryKey: ["/api/proposals"] });
+          queryClient.invalidateQueries({ queryKey: ["/api/proposals/active"] });
+          queryClient.invalidateQueries({
+            predicate: (query) => String(query.queryKey[0]).startsWith("/api/votes/proposal/"),
+          });
+        }
+        attempts = 0;
+      };
+
+      socket.onmessage = (message) => {
+        try {
+          applyEvent(JSON.parse(message.data) as RealtimeEvent);
+        } catch (error) {
+          console.error("Failed to apply live update:", error);
+        }
+      };
+
+      socket.onclose = () => {
+        if (stopped) return;
+        const delay = Math.min(MAX_RECONNECT_DELAY_MS, 1000 * Math.pow(2, attempts));
+        attempts += 1;
+        reconnectTimer = setTimeout(connect, delay);
+      };
+    };
+
+    connect();
+
+    return () => {
+      stopped = true;
+      clearTimeout(reconnectTimer);
+      socket?.close();
+    };
+  }, []);
+}
@@ -0,0 +1,141 @@
+import { ethers } from "ethers";
+import { CUSTOM_TOKEN_ABI } from "@/lib/contracts";
+import { shortenAddress } from "@/lib/web3";
+import { DEFAULT_DECIMALS, formatTokenAmount, parseTokenAmount } from "@shared/token-amount";
+import { type InsertProposalAction, type Token } from "@shared/schema";
+import { DEFAULT_CHAIN_ID, getNetwork } from "@shared/networks";
+
+export type ActionParamType = "address" | "amount" | "bool";
+
+export interface ActionParam {
+  name: string;
+  label: string;
+  type: ActionParamType;
+}
+
+// A call on the proposal's token the action builder knows how to encode; Governance only allows calls to that token
+export interface ActionTemplate {
+  id: string;
+  label: string;
+  description: string;
+  functionName: string;
+  params: ActionParam[];
+}
+
+export const ACTION_TEMPLATES: ActionTemplate[] = [
+  {
+    id: "mint",
+    label: "Mint tokens",
+    description: "Mints new tokens. Governance must own the token.",
+    functionName: "mint",
+    params: [
+      { name: "to", label: "Recipient", type: "address" },
+      { name: "amount", label: "Amount", type: "amount" },
+    ],
+  },
+  {
+    id: "setTransferable",
+    label: "Set transferability",
+    description: "Enables or disables token transfers. Governance must own the token.",
+    functionName: "setTransferable",
+    params: [
+      { name: "_transferable", label: "Transferable", type: "bool" },
+    ],
+  },
+  {
+    id: "transfer",
+    label: "Transfer from treasury",
+    description: "Sends tokens held by the Governance contract.",
+    functionName: "transfer",
+    params: [
+      { name: "to", label: "Recipient", type: "address" },
+      { name: "amount", label: "Amount", type: "amount" },
+    ],
+  },
+  {
+    id: "transferOwnership",
+    label: "Transfer token ownership",
+    description: "Hands token ownership to another address. Governance must own the token.",
+    functionName: "transferOwnership",
+    params: [
+      { name: "newOwner", label: "New owner", type: "address" },
+    ],
+  },
+];
+
+const tokenInterface = new ethers.Interface(CUSTOM_TOKEN_ABI);
+// Encode a template call from form input; amounts are entered in whole tokens
+export const encodeAction = (
+  template: ActionTemplate,
+  token: Token | undefined,
+  values: Record<string, string>
+): InsertProposalAction => {
+  if (!token) {
+    throw new Error("Select the token this action calls");
+  }
+
+  const args = template.params.map((param) => {
+    const raw = (values[param.name] ?? "").trim();
+    switch (param.type) {
+      case "address":
+        if (!ethers.isAddress(raw)) {
+          throw new Error(`${param.label} must be a valid address`);
+        }
+        return ethers.getAddress(raw);
+      case "amount": {
+        let amount: bigint;
+        try {
+          amount = parseTokenAmount(raw, token.decimals);
+        } catch (error) {
+          throw new Error(`${param.label}: ${error instanceof Error ? error.message : "invalid amount"}`);
+        }
+        if (amount <= BigInt(0)) {
+          throw new Error(`${param.label} must be greater than 0`);
+        }
+        return amount;
+      }
+      case "bool":
+        return raw === "true";
+    }
+  });
+
+  return {
+    target: token.contractAddress,
+    value: "0",
+    calldata: tokenInterface.encodeFunctionData(template.functionName, args),
+  };
+};
+
+// Human-readable summary of an action, decoding calls to the known contracts
+export const describeAction = (action: InsertProposalAction, tokens: Token[], chainId: number): string => {
+  const network = getNetwork(chainId) ?? getNetwork(DEFAULT_CHAIN_ID)!;
+  const token = tokens.find(
+    (token) => token.contractAddress.toLowerCase() === action.target.toLowerCase()
+  );
+  const targetLabel = token?.symbol ?? shortenAddress(action.target);
+  const sent = BigInt(action.value) > BigInt(0)
+    ? ` sending ${ethers.formatEther(action.value)} ${network.nativeCurrency.symbol}`
+    : "";
+
+  try {
+    const call = tokenInterface.parseTransaction({ data: action.calldata });
+    if (call) {
+      const args = call.fragment.inputs.map((input, i) => {
+        const arg = call.args[i];
+        if (input.name === "amount") {
+          return `${formatTokenAmount(arg, token?.decimals ?? DEFAULT_DECIMALS)}${token ? ` ${token.symbol}` : ""}`;
+        }
+        if (input.type === "address") {
+          return shortenAddress(arg);
+        }
+        return String(arg);
+      });
+      return `${targetLabel}.${call.name}(${args.join(", ")})${sent}`;
+    }
+  } catch (error) {
+    // Fall through to the raw description
+  }
+
+  const size = (action.calldata.length - 2) / 2;
+  return `Call ${targetLabel} with ${size} bytes of calldata${sent}`;
+};
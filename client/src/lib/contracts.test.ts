@@ -0,0 +1,147 @@
+import { describe, expect, it } from "vitest";
+import { ethers } from "ethers";
+import { CONTRACT_ERRORS_ABI, CUSTOM_TOKEN_ABI } from "@shared/contracts";
+import { decodeContractError, getVotingPower } from "./contracts";
+
+// Fixtures mirror what ethers and the common wallets throw, including the nesting MetaMask adds
+const HOLDER = "0x4B20993Bc481177ec7E8f571ceCaE8A9e22C02db";
+const errors = new ethers.Interface(CONTRACT_ERRORS_ABI);
+const revertData = (reason: string) => ethers.concat([
+  ethers.id("Error(string)").slice(0, 10),
+  ethers.AbiCoder.defaultAbiCoder().encode(["string"], [reason]),
+]);
+
+describe("decodeContractError", () => {
+  describe("revert strings", () => {
+    it("maps a reason decoded by ethers to its wording", () => {
+      const error = {
+        code: "CALL_EXCEPTION",
+        action: "estimateGas",
+        reason: "Already voted",
+        data: revertData("Already voted"),
+        shortMessage: 'execution reverted: "Already voted"',
+        message: 'execution reverted: "Already voted" (action="estimateGas", ...)',
+      };
+      expect(decodeContractError(error)).toBe("You have already voted on this proposal");
+    });
+
+    it("reads the reason from a wallet message when ethers could not decode it", () => {
+      const error = {
+        code: -32603,
+        message: "Internal JSON-RPC error.",
+        data: { code: 3, message: "execution reverted: Quorum not reached" },
+      };
+      expect(decodeContractError(error)).toBe("Not enough votes were cast to reach the proposal's quorum");
+    });
+
+    it("passes through reasons without a wording", () => {
+      expect(decodeContractError({ code: "CALL_EXCEPTION", reason: "Paused", message: "" })).toBe("Paused");
+    });
+  });
+
+  describe("custom errors", () => {
+    const data = errors.encodeErrorResult("ERC20InsufficientBalance", [HOLDER, 1, 2]);
+
+    it("decodes revert data ethers left undecoded", () => {
+      const error = { code: "CALL_EXCEPTION", reason: null, data, message: "execution reverted (unknown custom error)" };
+      expect(decodeContractError(error)).toBe("The token balance is too low for this amount");
+    });
+
+    it("finds revert data nested in the wallet's RPC error", () => {
+      const error = {
+        code: "UNKNOWN_ERROR",
+        message: "could not coalesce error",
+        error: { code: -32603, message: "Internal JSON-RPC error.", data: { code: 3, message: "execution reverted", data } },
+      };
+      expect(decodeContractError(error)).toBe("The token balance is too low for this amount");
+    });
+
+    it("falls back to a generic message for reverts without data", () => {
+      expect(decodeContractError({ code: "CALL_EXCEPTION", reason: null, data: null, message: "missing revert data" }))
+        .toBe("The transaction was reverted by the contract");
+    });
+  });
+
+  describe("user rejections", () => {
+    const rejected = "The request was rejected in your wallet";
+
+    it("recognises ethers' ACTION_REJECTED", () => {
+      expect(decodeContractError({ code: "ACTION_REJECTED", action: "sendTransaction", message: "user rejected action" }))
+        .toBe(rejected);
+    });
+
+    it("recognises the EIP-1193 error code, bare or wrapped", () => {
+      expect(decodeContractError({ code: 4001, message: "User denied transaction signature." })).toBe(rejected);
+      expect(decodeContractError({ code: "UNKNOWN_ERROR", message: "", info: { error: { code: 4001, message: "" } } }))
+        .toBe(rejected);
+    });
+
+    it("recognises wallets that only say so in the message", () => {
+      expect(decodeContractError({ code: -32000, message: "MetaMask Tx Signature: User denied transaction signature." }))
+        .toBe(rejected);
+    });
+  });
+
+  describe("RPC errors", () => {
+    it("explains insufficient funds", () => {
+      const expected = "Your wallet does not have enough funds to pay for gas";
+      expect(decodeContractError({ code: "INSUFFICIENT_FUNDS", message: "insufficient funds" })).toBe(expected);
+      expect(decodeContractError({ code: -32000, message: "insufficient funds for gas * price + value" })).toBe(expected);
+    });
+
+    it("explains nonce conflicts", () => {
+      expect(decodeContractError({ code: "NONCE_EXPIRED", message: "nonce has already been used" }))
+        .toMatch(/another transaction with the same nonce/);
+      expect(decodeContractError({ code: -32000, message: "replacement transaction underpriced" }))
+        .toMatch(/another transaction with the same nonce/);
+    });
+
+    it("falls back to the short message of anything else", () => {
+      const error = { code: "NETWORK_ERROR", shortMessage: "network changed: 1 => 11155111", message: "network changed: 1 => 11155111 (...)" };
+      expect(decodeContractError(error)).toBe("network changed: 1 => 11155111");
+      expect(decodeContractError("boom")).toBe("boom");
+    });
+  });
+});
+
+describe("getVotingPower", () => {
+  const TOKEN = "0x5B38Da6a701c568545dCfcB03FcB875f56beddC4";
+  const token = new ethers.Interface(CUSTOM_TOKEN_ABI);
+
+  // Wallet provider whose token has a balance of 42 at every block and fails getPastVotes with error
+  const failingPastVotes = (error: Error) => {
+    const balanceBlocks: unknown[] = [];
+    const provider = {
+      call: async (tx: ethers.TransactionRequest) => {
+        const parsed = token.parseTransaction({ data: tx.data as string })!;
+        if (parsed.name === "getPastVotes") throw error;
+        balanceBlocks.push(tx.blockTag);
+        return token.encodeFunctionResult("balanceOf", [BigInt(42)]);
+      },
+    };
+    return { provider: provider as unknown as ethers.BrowserProvider, balanceBlocks };
+  };
+
+  it("falls back to the balance at the snapshot for tokens without ERC20Votes", async () => {
+    const { provider, balanceBlocks } = failingPastVotes(ethers.makeError("execution reverted", "CALL_EXCEPTION", {
+      action: "call",
+      data: "0x",
+      reason: null,
+      transaction: { to: TOKEN, data: "0x" },
+      invocation: null,
+      revert: null,
+    }));
+
+    expect(await getVotingPower(provider, TOKEN, HOLDER, 900)).toBe("42");
+    expect(balanceBlocks).toEqual([900]);
+  });
+
+  it("rethrows RPC failures instead of reporting no voting power", async () => {
+    const { provider, balanceBlocks } = failingPastVotes(
+      ethers.makeError("request timed out", "TIMEOUT", { operation: "call", reason: "timeout" })
+    );
+
+    await expect(getVotingPower(provider, TOKEN, HOLDER, 900)).rejects.toMatchObject({ code: "TIMEOUT" });
+    expect(balanceBlocks).toEqual([]);
+  });
+});
@@ -1,77 +1,236 @@
 import { ethers } from "ethers";
+import {
+  CUSTOM_TOKEN_ABI,
+  TOKEN_FACTORY_ABI,
+  GOVERNANCE_ABI,
+  BATCH_DISTRIBUTOR_ABI,
+  MERKLE_DISTRIBUTOR_ABI,
+  MERKLE_DISTRIBUTOR_FACTORY_ABI,
+  TOKEN_VESTING_ABI,
+  TOKEN_VESTING_FACTORY_ABI,
+  CONTRACT_ERRORS_ABI,
+  VOTE_SUPPORT,
+} from "@shared/contracts";
+import { getNetwork, type NetworkContracts } from "@shared/networks";
+import { type InsertProposalAction } from "@shared/schema";
 
-// CustomToken ABI
-export const CUSTOM_TOKEN_ABI = [
-  // Read functions
-  "function name() view returns (string)",
-  "function symbol() view returns (string)",
-  "function decimals() view returns (uint8)",
-  "function totalSupply() view returns (uint256)",
-  "function balanceOf(address account) view returns (uint256)",
-  "function allowance(address owner, address spender) view returns (uint256)",
-  "function transferable() view returns (bool)",
-  "function owner() view returns (address)",
-  
-  // Write functions
-  "function transfer(address to, uint256 amount) returns (bool)",
-  "function approve(address spender, uint256 amount) returns (bool)",
-  "function transferFrom(address from, address to, uint256 amount) returns (bool)",
-  "function mint(address to, uint256 amount)",
-  "function setTransferable(bool _transferable)",
-  "function transferOwnership(address newOwner)",
-  
-  // Events
-  "event Transfer(address indexed from, address indexed to, uint256 value)",
-  "event Approval(address indexed owner, address indexed spender, uint256 value)"
-];
-
-// Token Factory ABI
-export const TOKEN_FACTORY_ABI = [
-  // Read functions
-  "function tokens(uint256 index) view returns (address)",
-  "function creatorTokens(address creator, uint256 index) view returns (address)",
-  "function getTokenCount() view returns (uint256)",
-  "function getTokensByCreator(address creator) view returns (address[])",
-  "function getCreatorTokenCount(address creator) view returns (uint256)",
-  
-  // Write functions
-  "function createToken(string name, string symbol, uint256 initialSupply, uint8 decimals, bool transferable) returns (address)",
-  
-  // Events
-  "event TokenCreated(address indexed tokenAddress, string name, string symbol, uint256 initialSupply, uint8 decimals, bool transferable, address indexed creator)"
-];
-
-// Governance ABI
-export const GOVERNANCE_ABI = [
-  // Read functions
-  "function proposalCount() view returns (uint256)",
-  "function getProposal(uint256 proposalId) view returns (tuple(uint256 id, string title, string description, address tokenAddress, address creator, uint256 startTime, uint256 endTime, uint256 quorum, uint256 votesFor, uint256 votesAgainst, bool executed))",
-  "function hasVoted(uint256 proposalId, address voter) view returns (bool)",
-  "function getVote(uint256 proposalId, address voter) view returns (bool voted, bool support, uint256 weight)",
-  
-  // Write functions
-  "function createProposal(string title, string description, address tokenAddress, uint256 duration, uint256 quorumPercent) returns (uint256)",
-  "function castVote(uint256 proposalId, bool support)",
-  "function executeProposal(uint256 proposalId)",
-  
-  // Events
-  "event ProposalCreated(uint256 indexed proposalId, string title, address indexed tokenAddress, address indexed creator, uint256 startTime, uint256 endTime, uint256 quorum)",
-  "event VoteCast(uint256 indexed proposalId, address indexed voter, bool support, uint256 weight)",
-  "event ProposalExecuted(uint256 indexed proposalId, bool passed)"
-];
+export {
+  CUSTOM_TOKEN_ABI,
+  TOKEN_FACTORY_ABI,
+  GOVERNANCE_ABI,
+  BATCH_DISTRIBUTOR_ABI,
+  MERKLE_DISTRIBUTOR_ABI,
+  MERKLE_DISTRIBUTOR_FACTORY_ABI,
+  TOKEN_VESTING_ABI,
+  TOKEN_VESTING_FACTORY_ABI,
+  VOTE_SUPPORT,
+};
+
+const CONTRACT_NAMES: Record<keyof NetworkContracts, string> = {
+  tokenFactory: "TokenFactory",
+  governance: "Governance",
+  batchDistributor: "BatchDistributor",
+  merkleDistributorFactory: "MerkleDistributorFactory",
+  tokenVestingFactory: "TokenVestingFactory",
+};
+
+// Address of a platform contract on the network the wallet is connected to
+const getContractAddress = async (
+  runner: ethers.JsonRpcSigner | ethers.BrowserProvider,
+  contract: keyof NetworkContracts
+): Promise<string> => {
+  const provider = runner instanceof ethers.JsonRpcSigner ? runner.provider : runner;
+  const { chainId } = await provider.getNetwork();
+  const network = getNetwork(Number(chainId));
+  if (!network) {
+    throw new Error(`Chain ${chainId} is not supported`);
+  }
+  if (!network.contracts[contract]) {
+    throw new Error(`${CONTRACT_NAMES[contract]} is not deployed on ${network.name}`);
+  }
+  return network.contracts[contract];
+};
+
+// Wording shown for the require messages of the platform contracts
+const REVERT_MESSAGES: Record<string, string> = {
+  "Creator must hold some tokens": "You need to hold some of this token to create a proposal for it",
+  "Already voted": "You have already voted on this proposal",
+  "Must have voting power": "You had no voting power for this token when the proposal was created",
+  "Voting period ended": "Voting on this proposal has ended",
+  "Voting period not ended": "The proposal can be queued once voting has ended",
+  "Quorum not reached": "Not enough votes were cast to reach the proposal's quorum",
+  "Proposal did not pass": "The proposal did not get more votes for than against",
+  "Proposal already queued": "The proposal is already queued",
+  "Proposal not queued": "The proposal has to be queued before it can be executed",
+  "Timelock not expired": "The proposal can be executed once its timelock delay has passed",
+  "Proposal already executed": "The proposal has already been executed",
+  "Token transfers are disabled": "Transfers of this token are disabled by its owner",
+  "Airdrop has ended": "This airdrop has ended",
+  "Allocation already claimed": "This allocation has already been claimed",
+  "Invalid proof": "The claim does not match the airdrop's recipient list",
+  "Nothing to release": "No vested tokens are ready to be released yet",
+};
+
+// Wording shown for the custom errors in CONTRACT_ERRORS_ABI
+const CUSTOM_ERROR_MESSAGES: Record<string, string> = {
+  ERC20InsufficientBalance: "The token balance is too low for this amount",
+  ERC20InsufficientAllowance: "The contract is not approved to spend this many tokens",
+  ERC20InvalidReceiver: "Tokens cannot be sent to the zero address",
+  ERC2612ExpiredSignature: "The signature has expired, please sign again",
+  ERC2612InvalidSigner: "The signature does not match the token holder",
+  VotesExpiredSignature: "The delegation signature has expired, please sign again",
+  InvalidAccountNonce: "The signature was already used, please sign again",
+  OwnableUnauthorizedAccount: "Only the token owner can do this",
+  SafeERC20FailedOperation: "The token transfer failed",
+};
+
+const contractErrors = new ethers.Interface(CONTRACT_ERRORS_ABI);
+
+const USER_REJECTED_MESSAGE = "The request was rejected in your wallet";
+const INSUFFICIENT_FUNDS_MESSAGE = "Your wallet does not have enough funds to pay for gas";
+const NONCE_MESSAGE =
+  "Your wallet has another transaction with the same nonce. Wait for it to confirm, or reset the account's pending transactions in your wallet, then try again";
+
+// Revert data of a failed call; wallets nest the RPC error at different depths
+const findRevertData = (error: any, depth = 0): string | undefined => {
+  if (!error || typeof error !== "object" || depth > 4) return undefined;
+  if (typeof error.data === "string" && error.data.startsWith("0x") && error.data.length > 2) {
+    return error.data;
+  }
+  return findRevertData(error.data, depth + 1) ??
+    findRevertData(error.error, depth + 1) ??
+    findRevertData(error.info?.error, depth + 1);
+};
+
+// Messages of an error and the RPC errors wrapped in it, where wallets put the node's explanation
+const collectMessages = (error: any, depth = 0): string[] => {
+  if (!error || typeof error !== "object" || depth > 4) return [];
+  return [
+    ...(typeof error.message === "string" ? [error.message] : []),
+    ...collectMessages(error.data, depth + 1),
+    ...collectMessages(error.error, depth + 1),
+    ...collectMessages(error.info?.error, depth + 1),
+  ];
+};
+
+const parseCustomError = (data: string): ethers.ErrorDescription | null => {
+  try {
+    const description = contractErrors.parseError(data);
+    // Error(string) and Panic(uint256) are built in; ethers already turns them into a reason
+    return description && description.name !== "Error" && description.name !== "Panic" ? description : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+// Human-readable explanation of a failed wallet request, call or transaction
+export const decodeContractError = (error: unknown): string => {
+  const err = error as any;
+
+  if (ethers.isError(err, "ACTION_REJECTED") || err?.code === 4001 || err?.info?.error?.code === 4001) {
+    return USER_REJECTED_MESSAGE;
+  }
+  if (ethers.isError(err, "INSUFFICIENT_FUNDS")) {
+    return INSUFFICIENT_FUNDS_MESSAGE;
+  }
+  if (ethers.isError(err, "NONCE_EXPIRED") || ethers.isError(err, "REPLACEMENT_UNDERPRICED")) {
+    return NONCE_MESSAGE;
+  }
+
+  // Error(string) reverts are decoded by ethers, though some wallets only pass the reason in the message
+  const messages = collectMessages(err);
+  const reason: string | undefined = err?.reason ??
+    messages.map((text) => text.match(/execution reverted: "?([^"]+?)"?$/)?.[1]).find(Boolean);
+  if (reason) {
+    return REVERT_MESSAGES[reason] ?? reason;
+  }
+
+  const data = findRevertData(err);
+  const customError = data ? parseCustomError(data) : null;
+  if (customError) {
+    return CUSTOM_ERROR_MESSAGES[customError.name] ?? `The contract reverted with ${customError.name}`;
+  }
+  if (ethers.isError(err, "CALL_EXCEPTION")) {
+    return "The transaction was reverted by the contract";
+  }
+
+  // Wallet and RPC messages that ethers does not classify
+  const text = messages.join("\n");
+  if (/insufficient funds/i.test(text)) {
+    return INSUFFICIENT_FUNDS_MESSAGE;
+  }
+  if (/nonce (too low|has already been used)|replacement transaction underpriced/i.test(text)) {
+    return NONCE_MESSAGE;
+  }
+  if (/user (rejected|denied)/i.test(text)) {
+    return USER_REJECTED_MESSAGE;
+  }
+  return err?.shortMessage ?? messages[0] ?? String(error);
+};
+
+// Error with a readable message, keeping the original for debugging
+const toContractError = (error: unknown): Error =>
+  new Error(decodeContractError(error), { cause: error });
 
-// Mainnet addresses
-export const TOKEN_FACTORY_ADDRESS = "0x69F14a29F815AF56c1efee18c92f266a77459C98";
-export const GOVERNANCE_ADDRESS = "0x42b91cFF3FD5429C7bD8610b945C9aA8a2F9FBDD";
+// Called with every transaction the functions below send, before it is mined
+export type TransactionListener = (tx: ethers.TransactionResponse, description: string) => void;
 
-// Function to create a new ERC20 token using the Token Factory
+const transactionListeners = new Set<TransactionListener>();
+
+export const subscribeToTransactions = (listener: TransactionListener) => {
+  transactionListeners.add(listener);
+  return () => {
+    transactionListeners.delete(listener);
+  };
+};
+
+// Report a sent transaction to the listeners, then wait for it to be mined; throws if it reverts
+const waitForTransaction = async (
+  tx: ethers.TransactionResponse,
+  description: string
+): Promise<ethers.TransactionReceipt> => {
+  transactionListeners.forEach((listener) => listener(tx, description));
+  const receipt = await tx.wait();
+  if (!receipt) {
+    throw new Error("Transaction was not mined");
+  }
+  return receipt;
+};
+
+// Why a mined transaction reverted, found by replaying it against the state before its block
+export const getRevertReason = async (
+  provider: ethers.BrowserProvider,
+  transactionHash: string
+): Promise<string> => {
+  try {
+    const tx = await provider.getTransaction(transactionHash);
+    if (!tx || tx.blockNumber === null) {
+      return "Transaction reverted";
+    }
+    await provider.call({
+      to: tx.to,
+      from: tx.from,
+      data: tx.data,
+      value: tx.value,
+      blockTag: tx.blockNumber - 1,
+    });
+  } catch (error) {
+    return decodeContractError(error);
+  }
+  return "Transaction reverted";
+};
+
+// Function to create a new ERC20 token using the Token Factory, resolving to the hash of the mined
+// transaction; initialSupply is in base units
 export const createToken = async (
   signer: ethers.JsonRpcSigner,
   name: string, 
   symbol: string, 
   initialSupply: string,
   decimals: number,
-  transferable: boolean
+  transferable: boolean,
+  // Receives the transaction hash as soon as the transaction is sent
+  onSubmitted?: (transactionHash: string) => void
 ): Promise<string> => {
   try {
     // First, check if signer is available
@@ -79,12 +238,9 @@ export const createToken = async (
       throw new Error("No signer available");
     }
     
-    // Parse initialSupply from string to BigInt
-    const initialSupplyValue = ethers.parseUnits(initialSupply, decimals);
-    
     // Connect to token factory contract
     const factory = new ethers.Contract(
-      TOKEN_FACTORY_ADDRESS,
+      await getContractAddress(signer, "tokenFactory"),
       TOKEN_FACTORY_ABI,
       signer
     );
@@ -93,13 +249,14 @@ export const createToken = async (
     const tx = await factory.createToken(
       name, 
       symbol, 
-      initialSupplyValue,
+      initialSupply,
       decimals,
       transferable
     );
+    onSubmitted?.(tx.hash);
     
     // Wait for transaction to complete
-    const receipt = await tx.wait();
+    const receipt = await waitForTransaction(tx, `Create token ${symbol}`);
     
     // Find the TokenCreated event in the receipt
     const event = receipt.logs
@@ -112,17 +269,15 @@ export const createToken = async (
       })
       .find((event: any) => event && event.name === 'TokenCreated');
     
-    // Get the token address from the event
-    const tokenAddress = event ? event.args.tokenAddress : null;
-    
-    if (!tokenAddress) {
-      throw new Error("Failed to create token: No token address in event");
+    if (!event) {
+      throw new Error("Failed to create token: No TokenCreated event in the receipt");
     }
     
-    return tokenAddress;
+    // The server reads the token's details from this transaction
+    return receipt.hash;
   } catch (error) {
     console.error("Error creating token:", error);
-    throw error;
+    throw toContractError(error);
   }
 };
 
@@ -165,7 +320,7 @@ export const getTokenInfo = async (
     };
   } catch (error) {
     console.error("Error getting token info:", error);
-    throw error;
+    throw toContractError(error);
   }
 };
 
@@ -214,7 +369,217 @@ export const getTokenBalance = async (
   }
 };
 
-// Function to transfer tokens to another address
+// A call to a function the contract lacks reverts without data, or returns nothing to decode;
+// reverts with data and RPC failures mean the function exists but the call failed
+const isMissingFunction = (error: unknown): boolean =>
+  (ethers.isError(error, "CALL_EXCEPTION") && (error.data == null || error.data === "0x")) ||
+  ethers.isError(error, "BAD_DATA");
+
+// Function to get the voting power an address had at a proposal's snapshot block, read the same
+// way the server weighs votes
+export const getVotingPower = async (
+  provider: ethers.BrowserProvider,
+  tokenAddress: string,
+  walletAddress: string,
+  snapshotBlock: number | null
+): Promise<string> => {
+  // First, check if provider is available
+  if (!provider) {
+    throw new Error("No provider available");
+  }
+  
+  // Connect to token contract
+  const tokenContract = new ethers.Contract(
+    tokenAddress,
+    CUSTOM_TOKEN_ABI,
+    provider
+  );
+  
+  // Proposals without a snapshot fall back to the live balance
+  if (snapshotBlock == null) {
+    const balance = await tokenContract.balanceOf(walletAddress);
+    return balance.toString();
+  }
+  
+  try {
+    const votes = await tokenContract.getPastVotes(walletAddress, snapshotBlock);
+    return votes.toString();
+  } catch (error) {
+    // Tokens deployed before ERC20Votes support have no checkpoints
+    if (!isMissingFunction(error)) throw error;
+    const balance = await tokenContract.balanceOf(walletAddress, { blockTag: snapshotBlock });
+    return balance.toString();
+  }
+};
+
+// Function to get the address an account has delegated its votes to
+export const getDelegate = async (
+  provider: ethers.BrowserProvider,
+  tokenAddress: string,
+  walletAddress: string
+): Promise<string | null> => {
+  try {
+    // First, check if provider is available
+    if (!provider) {
+      throw new Error("No provider available");
+    }
+    
+    // Connect to token contract
+    const tokenContract = new ethers.Contract(
+      tokenAddress,
+      CUSTOM_TOKEN_ABI,
+      provider
+    );
+    
+    const delegatee: string = await tokenContract.delegates(walletAddress);
+    return delegatee === ethers.ZeroAddress ? null : delegatee;
+  } catch (error) {
+    console.error("Error getting delegate:", error);
+    return null;
+  }
+};
+
+// Function to delegate the sender's voting power to another address
+export const delegateVotes = async (
+  signer: ethers.JsonRpcSigner,
+  tokenAddress: string,
+  delegatee: string
+): Promise<string> => {
+  try {
+    // First, check if signer is available
+    if (!signer) {
+      throw new Error("No signer available");
+    }
+    
+    // Connect to token contract with signer
+    const tokenContract = new ethers.Contract(
+      tokenAddress,
+      CUSTOM_TOKEN_ABI,
+      signer
+    );
+    
+    // Delegate votes
+    const tx = await tokenContract.delegate(delegatee);
+    
+    // Wait for transaction to complete
+    const receipt = await waitForTransaction(tx, "Delegate votes");
+    
+    return receipt.hash;
+  } catch (error) {
+    console.error("Error delegating votes:", error);
+    throw toContractError(error);
+  }
+};
+
+export interface SignedDelegation {
+  delegatee: string;
+  nonce: string;
+  expiry: number;
+  v: number;
+  r: string;
+  s: string;
+}
+
+// Function to sign an EIP-712 delegation that anyone can submit with delegateBySig
+export const signDelegation = async (
+  signer: ethers.JsonRpcSigner,
+  tokenAddress: string,
+  delegatee: string,
+  expiry: number
+): Promise<SignedDelegation> => {
+  try {
+    // First, check if signer is available
+    if (!signer) {
+      throw new Error("No signer available");
+    }
+    
+    // Connect to token contract with signer
+    const tokenContract = new ethers.Contract(
+      tokenAddress,
+      CUSTOM_TOKEN_ABI,
+      signer
+    );
+    
+    const [name, nonce, network] = await Promise.all([
+      tokenContract.name(),
+      tokenContract.nonces(await signer.getAddress()),
+      signer.provider.getNetwork(),
+    ]);
+    
+    // ERC20Permit uses the token name and version "1" for its EIP-712 domain
+    const signature = await signer.signTypedData(
+      {
+        name,
+        version: "1",
+        chainId: network.chainId,
+        verifyingContract: tokenAddress,
+      },
+      {
+        Delegation: [
+          { name: "delegatee", type: "address" },
+          { name: "nonce", type: "uint256" },
+          { name: "expiry", type: "uint256" },
+        ],
+      },
+      { delegatee, nonce, expiry }
+    );
+    
+    const { v, r, s } = ethers.Signature.from(signature);
+    
+    return {
+      delegatee,
+      nonce: nonce.toString(),
+      expiry,
+      v,
+      r,
+      s,
+    };
+  } catch (error) {
+    console.error("Error signing delegation:", error);
+    throw toContractError(error);
+  }
+};
+
+// Function to submit a signed delegation on behalf of its signer
+export const delegateBySig = async (
+  signer: ethers.JsonRpcSigner,
+  tokenAddress: string,
+  delegation: SignedDelegation
+): Promise<string> => {
+  try {
+    // First, check if signer is available
+    if (!signer) {
+      throw new Error("No signer available");
+    }
+    
+    // Connect to token contract with signer
+    const tokenContract = new ethers.Contract(
+      tokenAddress,
+      CUSTOM_TOKEN_ABI,
+      signer
+    );
+    
+    // Submit the signed delegation
+    const tx = await tokenContract.delegateBySig(
+      delegation.delegatee,
+      delegation.nonce,
+      delegation.expiry,
+      delegation.v,
+      delegation.r,
+      delegation.s
+    );
+    
+    // Wait for transaction to complete
+    const receipt = await waitForTransaction(tx, "Submit signed delegation");
+    
+    return receipt.hash;
+  } catch (error) {
+    console.error("Error submitting delegation:", error);
+    throw toContractError(error);
+  }
+};
+
+// Function to transfer tokens to another address; amount is in base units
 export const transferTokens = async (
   signer: ethers.JsonRpcSigner,
   tokenAddress: string,
@@ -234,34 +599,287 @@ export const transferTokens = async (
       signer
     );
     
-    // Get decimals to correctly parse the amount
-    const decimals = await tokenContract.decimals();
-    
-    // Parse amount from string to BigInt
-    const amountValue = ethers.parseUnits(amount, decimals);
-    
     // Transfer tokens
-    const tx = await tokenContract.transfer(recipientAddress, amountValue);
+    const tx = await tokenContract.transfer(recipientAddress, amount);
     
     // Wait for transaction to complete
-    const receipt = await tx.wait();
+    const receipt = await waitForTransaction(tx, "Transfer tokens");
     
     return receipt.hash;
   } catch (error) {
     console.error("Error transferring tokens:", error);
-    throw error;
+    throw toContractError(error);
+  }
+};
+
+// Approve spender for at least amount of a token, skipping the transaction if the allowance covers it
+export const ensureAllowance = async (
+  signer: ethers.JsonRpcSigner,
+  tokenAddress: string,
+  spender: string,
+  amount: string
+): Promise<void> => {
+  try {
+    const owner = await signer.getAddress();
+    const tokenContract = new ethers.Contract(tokenAddress, CUSTOM_TOKEN_ABI, signer);
+
+    const allowance: bigint = await tokenContract.allowance(owner, spender);
+    if (allowance >= BigInt(amount)) {
+      return;
+    }
+
+    const tx = await tokenContract.approve(spender, amount);
+    await waitForTransaction(tx, "Approve token spending");
+  } catch (error) {
+    console.error("Error approving tokens:", error);
+    throw toContractError(error);
   }
 };
 
-// Function to create a new governance proposal
+// Send tokens to several recipients in one transaction through the batch distributor; amounts are in base units
+export const distributeTokens = async (
+  signer: ethers.JsonRpcSigner,
+  tokenAddress: string,
+  recipients: string[],
+  amounts: string[]
+): Promise<string> => {
+  try {
+    const distributor = new ethers.Contract(
+      await getContractAddress(signer, "batchDistributor"),
+      BATCH_DISTRIBUTOR_ABI,
+      signer
+    );
+
+    const tx = await distributor.distribute(tokenAddress, recipients, amounts);
+    const receipt = await waitForTransaction(tx, `Distribute tokens to ${recipients.length} recipients`);
+
+    return receipt.hash;
+  } catch (error) {
+    console.error("Error distributing tokens:", error);
+    throw toContractError(error);
+  }
+};
+
+// Deploy a MerkleDistributor through the factory and fund it with totalAmount, resolving to the hash
+// of the mined transaction
+export const createAirdropDistributor = async (
+  signer: ethers.JsonRpcSigner,
+  tokenAddress: string,
+  merkleRoot: string,
+  totalAmount: string,
+  endTime: Date
+): Promise<string> => {
+  try {
+    const factoryAddress = await getContractAddress(signer, "merkleDistributorFactory");
+    await ensureAllowance(signer, tokenAddress, factoryAddress, totalAmount);
+
+    const factory = new ethers.Contract(
+      factoryAddress,
+      MERKLE_DISTRIBUTOR_FACTORY_ABI,
+      signer
+    );
+
+    const tx = await factory.createDistributor(
+      tokenAddress,
+      merkleRoot,
+      totalAmount,
+      Math.floor(endTime.getTime() / 1000)
+    );
+    const receipt = await waitForTransaction(tx, "Deploy airdrop");
+
+    // Find the DistributorCreated event in the receipt
+    const event = receipt.logs
+      .map((log: any) => {
+        try {
+          return factory.interface.parseLog(log);
+        } catch (e) {
+          return null;
+        }
+      })
+      .find((event: any) => event && event.name === 'DistributorCreated');
+
+    if (!event) {
+      throw new Error("Failed to create airdrop: No DistributorCreated event in the receipt");
+    }
+
+    // The server reads the distributor from this transaction
+    return receipt.hash;
+  } catch (error) {
+    console.error("Error creating airdrop distributor:", error);
+    throw toContractError(error);
+  }
+};
+
+// Whether the allocation at leafIndex of an airdrop has been claimed
+export const isAirdropClaimed = async (
+  provider: ethers.BrowserProvider,
+  distributorAddress: string,
+  leafIndex: number
+): Promise<boolean> => {
+  const distributor = new ethers.Contract(distributorAddress, MERKLE_DISTRIBUTOR_ABI, provider);
+  return await distributor.isClaimed(leafIndex);
+};
+
+// Claim an airdrop allocation with its Merkle proof; amount is in base units
+export const claimAirdrop = async (
+  signer: ethers.JsonRpcSigner,
+  distributorAddress: string,
+  leafIndex: number,
+  account: string,
+  amount: string,
+  proof: string[]
+): Promise<string> => {
+  try {
+    const distributor = new ethers.Contract(
+      distributorAddress,
+      MERKLE_DISTRIBUTOR_ABI,
+      signer
+    );
+
+    const tx = await distributor.claim(leafIndex, account, amount, proof);
+    const receipt = await waitForTransaction(tx, "Claim airdrop");
+
+    return receipt.hash;
+  } catch (error) {
+    console.error("Error claiming airdrop:", error);
+    throw toContractError(error);
+  }
+};
+
+export interface VestingState {
+  released: string;
+  releasable: string;
+  vested: string;
+  // Still held back until it vests; zero once revoked
+  locked: string;
+  revoked: boolean;
+}
+
+// Deploy a vesting contract holding amount (base units) for beneficiary; returns its address
+export const createVestingSchedule = async (
+  signer: ethers.JsonRpcSigner,
+  tokenAddress: string,
+  beneficiary: string,
+  amount: string,
+  start: Date,
+  cliffSeconds: number,
+  durationSeconds: number,
+  revocable: boolean
+): Promise<string> => {
+  try {
+    const factoryAddress = await getContractAddress(signer, "tokenVestingFactory");
+    await ensureAllowance(signer, tokenAddress, factoryAddress, amount);
+
+    const factory = new ethers.Contract(
+      factoryAddress,
+      TOKEN_VESTING_FACTORY_ABI,
+      signer
+    );
+
+    const tx = await factory.createVesting(
+      tokenAddress,
+      beneficiary,
+      amount,
+      Math.floor(start.getTime() / 1000),
+      cliffSeconds,
+      durationSeconds,
+      revocable
+    );
+    const receipt = await waitForTransaction(tx, "Create vesting schedule");
+
+    // Find the VestingCreated event in the receipt
+    const event = receipt.logs
+      .map((log: any) => {
+        try {
+          return factory.interface.parseLog(log);
+        } catch (e) {
+          return null;
+        }
+      })
+      .find((event: any) => event && event.name === 'VestingCreated');
+
+    if (!event) {
+      throw new Error("Failed to create vesting schedule: No vesting address in event");
+    }
+
+    return event.args.vesting;
+  } catch (error) {
+    console.error("Error creating vesting schedule:", error);
+    throw toContractError(error);
+  }
+};
+
+// Released, releasable, vested and locked amounts of a vesting contract, in base units
+export const getVestingState = async (
+  provider: ethers.BrowserProvider,
+  vestingAddress: string
+): Promise<VestingState> => {
+  const vesting = new ethers.Contract(vestingAddress, TOKEN_VESTING_ABI, provider);
+  const token = new ethers.Contract(await vesting.token(), CUSTOM_TOKEN_ABI, provider);
+  const now = Math.floor(Date.now() / 1000);
+  const [released, releasable, vested, revoked, held] = await Promise.all([
+    vesting.released(),
+    vesting.releasable(),
+    vesting.vestedAmount(now),
+    vesting.revoked(),
+    token.balanceOf(vestingAddress),
+  ]);
+
+  return {
+    released: released.toString(),
+    releasable: releasable.toString(),
+    vested: vested.toString(),
+    locked: (held + released - vested).toString(),
+    revoked,
+  };
+};
+
+// Send the vested, unreleased tokens to the beneficiary
+export const releaseVested = async (
+  signer: ethers.JsonRpcSigner,
+  vestingAddress: string
+): Promise<string> => {
+  try {
+    const vesting = new ethers.Contract(vestingAddress, TOKEN_VESTING_ABI, signer);
+
+    const tx = await vesting.release();
+    const receipt = await waitForTransaction(tx, "Release vested tokens");
+
+    return receipt.hash;
+  } catch (error) {
+    console.error("Error releasing vested tokens:", error);
+    throw toContractError(error);
+  }
+};
+
+// Stop a revocable schedule and return the unvested tokens to its owner
+export const revokeVesting = async (
+  signer: ethers.JsonRpcSigner,
+  vestingAddress: string
+): Promise<string> => {
+  try {
+    const vesting = new ethers.Contract(vestingAddress, TOKEN_VESTING_ABI, signer);
+
+    const tx = await vesting.revoke();
+    const receipt = await waitForTransaction(tx, "Revoke vesting schedule");
+
+    return receipt.hash;
+  } catch (error) {
+    console.error("Error revoking vesting schedule:", error);
+    throw toContractError(error);
+  }
+};
+
+// Function to create a new governance proposal, resolving to the hash of the mined transaction
 export const createProposal = async (
   signer: ethers.JsonRpcSigner,
   title: string,
   description: string,
   tokenAddress: string,
   durationDays: number,
-  quorumPercent: number
-): Promise<number> => {
+  quorumPercent: number,
+  actions: InsertProposalAction[] = []
+): Promise<string> => {
   try {
     // First, check if signer is available
     if (!signer) {
@@ -270,7 +888,7 @@ export const createProposal = async (
     
     // Connect to governance contract
     const governance = new ethers.Contract(
-      GOVERNANCE_ADDRESS,
+      await getContractAddress(signer, "governance"),
       GOVERNANCE_ABI,
       signer
     );
@@ -284,11 +902,14 @@ export const createProposal = async (
       description,
       tokenAddress,
       duration,
-      quorumPercent
+      quorumPercent,
+      actions.map((action) => action.target),
+      actions.map((action) => action.value),
+      actions.map((action) => action.calldata)
     );
     
     // Wait for transaction to complete
-    const receipt = await tx.wait();
+    const receipt = await waitForTransaction(tx, `Create proposal "${title}"`);
     
     // Find the ProposalCreated event in the receipt
     const event = receipt.logs
@@ -301,17 +922,15 @@ export const createProposal = async (
       })
       .find((event: any) => event && event.name === 'ProposalCreated');
     
-    // Get the proposal ID from the event
-    const proposalId = event ? event.args.proposalId : null;
-    
-    if (!proposalId) {
-      throw new Error("Failed to create proposal: No proposal ID in event");
+    if (!event) {
+      throw new Error("Failed to create proposal: No ProposalCreated event in the receipt");
     }
     
-    return Number(proposalId);
+    // The server reads the proposal id from this transaction
+    return receipt.hash;
   } catch (error) {
     console.error("Error creating proposal:", error);
-    throw error;
+    throw toContractError(error);
   }
 };
 
@@ -319,7 +938,7 @@ export const createProposal = async (
 export const voteOnProposal = async (
   signer: ethers.JsonRpcSigner,
   proposalId: number,
-  support: boolean
+  direction: keyof typeof VOTE_SUPPORT
 ): Promise<string> => {
   try {
     // First, check if signer is available
@@ -329,21 +948,108 @@ export const voteOnProposal = async (
     
     // Connect to governance contract
     const governance = new ethers.Contract(
-      GOVERNANCE_ADDRESS,
+      await getContractAddress(signer, "governance"),
       GOVERNANCE_ABI,
       signer
     );
     
     // Cast vote
-    const tx = await governance.castVote(proposalId, support);
+    const tx = await governance.castVote(proposalId, VOTE_SUPPORT[direction]);
     
     // Wait for transaction to complete
-    const receipt = await tx.wait();
+    const receipt = await waitForTransaction(tx, `Vote ${direction} on proposal #${proposalId}`);
     
     return receipt.hash;
   } catch (error) {
     console.error("Error voting on proposal:", error);
-    throw error;
+    throw toContractError(error);
+  }
+};
+
+// Function to queue a passed proposal in the governance timelock
+export const queueProposal = async (
+  signer: ethers.JsonRpcSigner,
+  proposalId: number
+): Promise<string> => {
+  try {
+    // First, check if signer is available
+    if (!signer) {
+      throw new Error("No signer available");
+    }
+    
+    // Connect to governance contract
+    const governance = new ethers.Contract(
+      await getContractAddress(signer, "governance"),
+      GOVERNANCE_ABI,
+      signer
+    );
+    
+    // Queue proposal
+    const tx = await governance.queueProposal(proposalId);
+    
+    // Wait for transaction to complete
+    const receipt = await waitForTransaction(tx, `Queue proposal #${proposalId}`);
+    
+    return receipt.hash;
+  } catch (error) {
+    console.error("Error queueing proposal:", error);
+    throw toContractError(error);
+  }
+};
+
+// Function to execute the actions of a queued proposal once its timelock expired
+export const executeProposal = async (
+  signer: ethers.JsonRpcSigner,
+  proposalId: number
+): Promise<string> => {
+  try {
+    // First, check if signer is available
+    if (!signer) {
+      throw new Error("No signer available");
+    }
+    
+    // Connect to governance contract
+    const governance = new ethers.Contract(
+      await getContractAddress(signer, "governance"),
+      GOVERNANCE_ABI,
+      signer
+    );
+    
+    // Execute proposal
+    const tx = await governance.executeProposal(proposalId);
+    
+    // Wait for transaction to complete
+    const receipt = await waitForTransaction(tx, `Execute proposal #${proposalId}`);
+    
+    return receipt.hash;
+  } catch (error) {
+    console.error("Error executing proposal:", error);
+    throw toContractError(error);
+  }
+};
+
+// Function to get the governance timelock delay in seconds
+export const getTimelockDelay = async (
+  provider: ethers.BrowserProvider
+): Promise<number> => {
+  try {
+    // First, check if provider is available
+    if (!provider) {
+      throw new Error("No provider available");
+    }
+    
+    // Connect to governance contract
+    const governance = new ethers.Contract(
+      await getContractAddress(provider, "governance"),
+      GOVERNANCE_ABI,
+      provider
+    );
+    
+    const delay = await governance.timelockDelay();
+    return Number(delay);
+  } catch (error) {
+    console.error("Error getting timelock delay:", error);
+    throw toContractError(error);
   }
 };
 
@@ -359,9 +1065,12 @@ export const getProposal = async (
   creator: string;
   startTime: number;
   endTime: number;
+  snapshotBlock: number;
   quorum: number;
   votesFor: string;
   votesAgainst: string;
+  votesAbstain: string;
+  eta: number;
   executed: boolean;
 }> => {
   try {
@@ -372,7 +1081,7 @@ export const getProposal = async (
     
     // Connect to governance contract
     const governance = new ethers.Contract(
-      GOVERNANCE_ADDRESS,
+      await getContractAddress(provider, "governance"),
       GOVERNANCE_ABI,
       provider
     );
@@ -388,13 +1097,16 @@ export const getProposal = async (
       creator: proposal.creator,
       startTime: Number(proposal.startTime),
       endTime: Number(proposal.endTime),
+      snapshotBlock: Number(proposal.snapshotBlock),
       quorum: Number(proposal.quorum),
       votesFor: proposal.votesFor.toString(),
       votesAgainst: proposal.votesAgainst.toString(),
+      votesAbstain: proposal.votesAbstain.toString(),
+      eta: Number(proposal.eta),
       executed: proposal.executed
     };
   } catch (error) {
     console.error("Error getting proposal:", error);
-    throw error;
+    throw toContractError(error);
   }
 };
@@ -0,0 +1,140 @@
+import { ethers } from "ethers";
+import { parseTokenAmount } from "@shared/token-amount";
+
+// Recipients paid per BatchDistributor transaction
+const DISTRIBUTOR_BATCH_SIZE = 100;
+
+// On networks without a BatchDistributor each recipient is its own transfer
+export const getDistributionBatchSize = (batchDistributorAddress: string) =>
+  batchDistributorAddress ? DISTRIBUTOR_BATCH_SIZE : 1;
+
+export interface DistributionRow {
+  line: number;
+  // Checksummed when valid, as written otherwise
+  address: string;
+  amountText: string;
+  // Base units; "0" when the amount is invalid
+  amount: string;
+  error?: string;
+}
+
+const HEX_ADDRESS = /^0x[0-9a-fA-F]{40}$/;
+
+const parseAddress = (value: string): { address: string; error?: string } => {
+  if (!HEX_ADDRESS.test(value)) {
+    return { address: value, error: "Invalid address" };
+  }
+  try {
+    // Mixed-case addresses carry an EIP-55 checksum that getAddress verifies
+    const address = ethers.getAddress(value);
+    if (address === ethers.ZeroAddress) {
+      return { address, error: "Zero address" };
+    }
+    return { address };
+  } catch (error) {
+    return { address: value, error: "Checksum mismatch" };
+  }
+};
+
+const parseAmount = (value: string, decimals: number): { amount: string; error?: string } => {
+  try {
+    const amount = parseTokenAmount(value, decimals);
+    return amount > BigInt(0) ? { amount: amount.toString() } : { amount: "0", error: "Amount must be positive" };
+  } catch (error) {
+    return { amount: "0", error: error instanceof Error ? error.message : "Invalid amount" };
+  }
+};
+
+// Parse "address,amount" lines into rows, flagging invalid values and repeated recipients.
+// Blank lines, # comments and a leading header row are skipped.
+export const parseDistributionCsv = (text: string, decimals: number): DistributionRow[] => {
+  const rows: DistributionRow[] = [];
+  const firstLines = new Map<string, number>();
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = index + 1;
+    const content = rawLine.trim();
+    if (!content || content.startsWith("#")) return;
+
+    const cells = content.split(",").map((cell) => cell.trim());
+    if (rows.length === 0 && /address/i.test(cells[0]) && !HEX_ADDRESS.test(cells[0])) return;
+
+    if (cells.length !== 2) {
+      rows.push({ line, address: cells[0], amountText: cells[1] ?? "", amount: "0", error: "Expected address,amount" });
+      return;
+    }
+
+    const { address, error: addressError } = parseAddress(cells[0]);
+    const { amount, error: amountError } = parseAmount(cells[1], decimals);
+
+    let error = addressError ?? amountError;
+    if (!addressError) {
+      const firstLine = firstLines.get(address);
+      if (firstLine !== undefined) {
+        error = `Duplicate of line ${firstLine}`;
+      } else {
+        firstLines.set(address, line);
+      }
+    }
+
+    rows.push({ line, address, amountText: cells[1], amount, error });
+  });
+
+  return rows;
+};
+
+// Split rows into the batches sent as one transaction each
+export const getDistributionBatches = <T>(rows: T[], batchSize: number): T[][] => {
+  const batches: T[][] = [];
+  for (let i = 0; i < rows.length; i += batchSize) {
+    batches.push(rows.slice(i, i + batchSize));
+  }
+  return batches;
+};
+
+// Transaction hash of every batch sent so far, by batch index
+export type DistributionProgress = Record<number, string>;
+
+// Progress is saved per token, sender and recipient list so an interrupted distribution can be resumed
+const progressKey = (tokenAddress: string, account: string, rows: DistributionRow[], batchSize: number) => {
+  const contents = rows.map((row) => `${row.address}:${row.amount}`).join("\n");
+  return [
+    "distribution",
+    tokenAddress.toLowerCase(),
+    account.toLowerCase(),
+    batchSize,
+    ethers.id(contents),
+  ].join(":");
+};
+
+export const loadDistributionProgress = (
+  tokenAddress: string,
+  account: string,
+  rows: DistributionRow[],
+  batchSize: number
+): DistributionProgress => {
+  try {
+    return JSON.parse(localStorage.getItem(progressKey(tokenAddress, account, rows, batchSize)) ?? "{}");
+  } catch (error) {
+    return {};
+  }
+};
+
+export const saveDistributionProgress = (
+  tokenAddress: string,
+  account: string,
+  rows: DistributionRow[],
+  batchSize: number,
+  progress: DistributionProgress
+) => {
+  localStorage.setItem(progressKey(tokenAddress, account, rows, batchSize), JSON.stringify(progress));
+};
+
+export const clearDistributionProgress = (
+  tokenAddress: string,
+  account: string,
+  rows: DistributionRow[],
+  batchSize: number
+) => {
+  localStorage.removeItem(progressKey(tokenAddress, account, rows, batchSize));
+};
@@ -0,0 +1,119 @@
+import { type ProposalResult, type ProposalWithDetails } from "@shared/schema";
+
+export type VoteChoice = "for" | "against" | "abstain" | "option";
+
+export interface ResultRow {
+  key: string;
+  label: string;
+  votes: string;
+  percentage: number;
+  direction: VoteChoice;
+  optionId?: number;
+}
+
+export interface ProposalResults {
+  rows: ResultRow[];
+  totalVotes: bigint;
+  // Leading choice, ignoring abstentions; null when nothing leads
+  winner: ResultRow | null;
+  passed: boolean;
+}
+
+// Tally rows for a proposal; abstentions count toward quorum but never decide the outcome
+export const getProposalResults = (proposal: ProposalWithDetails): ProposalResults => {
+  const choices: Omit<ResultRow, "percentage">[] =
+    proposal.proposalType === "multiple_choice"
+      ? proposal.options.map((option) => ({
+          key: `option-${option.id}`,
+          label: option.label,
+          votes: option.votes,
+          direction: "option" as const,
+          optionId: option.id,
+        }))
+      : [
+          { key: "for", label: "For", votes: proposal.votesFor, direction: "for" as const },
+          { key: "against", label: "Against", votes: proposal.votesAgainst, direction: "against" as const },
+        ];
+  choices.push({ key: "abstain", label: "Abstain", votes: proposal.votesAbstain, direction: "abstain" });
+
+  const totalVotes = choices.reduce((sum, row) => sum + BigInt(row.votes), BigInt(0));
+
+  const rows = choices.map((row) => ({
+    ...row,
+    percentage: totalVotes > 0
+      ? Number((BigInt(row.votes) * BigInt(100)) / totalVotes)
+      : 0,
+  }));
+
+  let winner: ResultRow | null = null;
+  let tied = false;
+  for (const row of rows) {
+    if (row.direction === "abstain" || BigInt(row.votes) === BigInt(0)) continue;
+    if (!winner || BigInt(row.votes) > BigInt(winner.votes)) {
+      winner = row;
+      tied = false;
+    } else if (BigInt(row.votes) === BigInt(winner.votes)) {
+      tied = true;
+    }
+  }
+  if (tied) winner = null;
+
+  const passed = proposal.proposalType === "multiple_choice"
+    ? winner !== null
+    : winner?.direction === "for";
+
+  return { rows, totalVotes, winner, passed };
+};
+
+// Progress toward the quorum threshold fixed when the proposal was created, in percent
+export const getQuorumProgress = (proposal: ProposalWithDetails, totalVotes: bigint): number => {
+  if (proposal.quorumReached) return 100;
+  if (!proposal.quorumThreshold || BigInt(proposal.quorumThreshold) === BigInt(0)) return 0;
+  return Math.min(100, Number((totalVotes * BigInt(100)) / BigInt(proposal.quorumThreshold)));
+};
+
+// Bar color for a result row
+export const resultBarClass = (row: ResultRow) => {
+  switch (row.direction) {
+    case "against":
+      return "bg-destructive";
+    case "abstain":
+      return "bg-muted-foreground";
+    default:
+      return "bg-primary";
+  }
+};
+
+// Labels for the outcomes recorded by the server once voting has ended
+export const PROPOSAL_RESULT_LABELS: Record<ProposalResult, string> = {
+  passed: "Passed",
+  failed: "Failed",
+  no_quorum: "Quorum not reached",
+};
+
+// Outcome badge of a proposal, preferring the result the server recorded when voting ended
+export const getOutcome = (proposal: ProposalWithDetails): { label: string; passed: boolean } => {
+  const { winner, passed } = getProposalResults(proposal);
+  const finalResult = proposal.result as ProposalResult | null;
+  if (finalResult) {
+    const winningOption = proposal.options.find((option) => option.id === proposal.winningOptionId);
+    return {
+      label: winningOption ? `Winner: ${winningOption.label}` : PROPOSAL_RESULT_LABELS[finalResult],
+      passed: finalResult === "passed",
+    };
+  }
+  if (proposal.proposalType === "multiple_choice") {
+    return { label: winner ? `Winner: ${winner.label}` : "No winner", passed };
+  }
+  return { label: passed ? "Passed" : "Rejected", passed };
+};
+
+// Date and time as shown in proposal details
+export const formatProposalDate = (date: Date) =>
+  date.toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
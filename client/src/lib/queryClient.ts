@@ -23,41 +23,46 @@ export async function apiRequest(
   return res;
 }
 
+// Builds the request URL of a query key: the path first, then key/value pairs or a lone address
+function getQueryUrl(queryKey: readonly unknown[]): string {
+  // Extract base URL and params
+  const [baseUrl, ...params] = queryKey as string[];
+  
+  // Handle query parameters if they exist
+  let url = baseUrl;
+  if (params.length > 0) {
+    // If there's a single parameter and no specific key mentioned, assume it's for the URL path
+    const queryParams = new URLSearchParams();
+    
+    // If we have two or more parameters, treat them as key-value pairs
+    if (params.length >= 2 && typeof params[0] === 'string' && !params[0].includes('=')) {
+      for (let i = 0; i < params.length; i += 2) {
+        if (i + 1 < params.length && params[i] && params[i+1]) {
+          queryParams.append(params[i] as string, params[i+1] as string);
+        }
+      }
+    } 
+    // Otherwise, use the first parameter as the value for 'address'
+    else if (params[0]) {
+      queryParams.append('address', params[0] as string);
+    }
+    
+    // Append query parameters to URL if we have any
+    const queryString = queryParams.toString();
+    if (queryString) {
+      url = `${baseUrl}?${queryString}`;
+    }
+  }
+  return url;
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
 }) => QueryFunction<T> =
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
-    // Extract base URL and params
-    const [baseUrl, ...params] = queryKey as string[];
-    
-    // Handle query parameters if they exist
-    let url = baseUrl;
-    if (params.length > 0) {
-      // If there's a single parameter and no specific key mentioned, assume it's for the URL path
-      const queryParams = new URLSearchParams();
-      
-      // If we have two or more parameters, treat them as key-value pairs
-      if (params.length >= 2 && typeof params[0] === 'string' && !params[0].includes('=')) {
-        for (let i = 0; i < params.length; i += 2) {
-          if (i + 1 < params.length && params[i] && params[i+1]) {
-            queryParams.append(params[i] as string, params[i+1] as string);
-          }
-        }
-      } 
-      // Otherwise, use the first parameter as the value for 'address'
-      else if (params[0]) {
-        queryParams.append('address', params[0] as string);
-      }
-      
-      // Append query parameters to URL if we have any
-      const queryString = queryParams.toString();
-      if (queryString) {
-        url = `${baseUrl}?${queryString}`;
-      }
-    }
-    
+    const url = getQueryUrl(queryKey);
     console.log("Making API request to:", url);
     const res = await fetch(url, {
       credentials: "include",
@@ -71,6 +76,29 @@ export const getQueryFn: <T>(options: {
     return await res.json();
   };
 
+export interface ListPage<T> {
+  items: T[];
+  nextCursor: string | null;
+}
+
+// Fetches one page of a list route; the server sends the cursor of the following page in
+// X-Next-Cursor and leaves it out on the last page
+export async function fetchListPage<T>(
+  queryKey: readonly unknown[],
+  cursor: string | null,
+): Promise<ListPage<T>> {
+  const url = getQueryUrl(queryKey);
+  const pageUrl = cursor
+    ? `${url}${url.includes("?") ? "&" : "?"}cursor=${encodeURIComponent(cursor)}`
+    : url;
+  const res = await fetch(pageUrl, {
+    credentials: "include",
+  });
+
+  await throwIfResNotOk(res);
+  return { items: await res.json(), nextCursor: res.headers.get("X-Next-Cursor") };
+}
+
 export const queryClient = new QueryClient({
   defaultOptions: {
     queries: {
@@ -0,0 +1,27 @@
+import { type TokenTransfer } from "@shared/schema";
+
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+export interface SupplyPoint {
+  date: Date;
+  // Base-unit supply after the change
+  supply: string;
+}
+
+export const isMint = (transfer: TokenTransfer) => transfer.fromAddress.toLowerCase() === ZERO_ADDRESS;
+
+// Running total supply over the token's mints and burns, oldest first
+export const getSupplyHistory = (supplyChanges: TokenTransfer[]): SupplyPoint[] => {
+  let supply = BigInt(0);
+  return supplyChanges.map((transfer) => {
+    supply += isMint(transfer) ? BigInt(transfer.value) : -BigInt(transfer.value);
+    return { date: new Date(transfer.blockTimestamp), supply: supply.toString() };
+  });
+};
+
+// Percentage of the supply held, to two decimals
+export const getHolderShare = (balance: string, supply: string) => {
+  const total = BigInt(supply);
+  if (total === BigInt(0)) return 0;
+  return Number((BigInt(balance) * BigInt(10000)) / total) / 100;
+};
@@ -0,0 +1,148 @@
+import { createContext, useContext, useState, useEffect, useCallback, ReactNode } from "react";
+import { useWallet } from "@/lib/web3.tsx";
+import { useToast } from "@/hooks/use-toast";
+import { getRevertReason, subscribeToTransactions } from "@/lib/contracts";
+
+export type TransactionStatus = "pending" | "confirmed" | "failed";
+
+export interface TrackedTransaction {
+  hash: string;
+  chainId: number;
+  // Lowercased sender, so the drawer only lists the connected account's transactions
+  account: string;
+  description: string;
+  status: TransactionStatus;
+  submittedAt: number;
+  // Decoded revert reason of a failed transaction
+  error?: string;
+}
+
+interface TransactionContextType {
+  // Transactions sent from the connected account on its current chain, newest first
+  transactions: TrackedTransaction[];
+  pendingCount: number;
+  clearFinished: () => void;
+}
+
+const TransactionContext = createContext<TransactionContextType>({
+  transactions: [],
+  pendingCount: 0,
+  clearFinished: () => {},
+});
+
+export const useTransactions = () => useContext(TransactionContext);
+
+const STORAGE_KEY = "transactions";
+// Oldest finished transactions are dropped beyond this many, so localStorage does not grow forever
+const MAX_STORED_TRANSACTIONS = 50;
+const RECEIPT_POLL_INTERVAL_MS = 4000;
+
+const loadTransactions = (): TrackedTransaction[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "[]");
+    return Array.isArray(stored) ? stored : [];
+  } catch (error) {
+    return [];
+  }
+};
+
+const trimTransactions = (transactions: TrackedTransaction[]): TrackedTransaction[] => {
+  const overflow = transactions.length - MAX_STORED_TRANSACTIONS;
+  if (overflow <= 0) return transactions;
+  let dropped = 0;
+  return transactions.filter((tx) => tx.status === "pending" || dropped++ >= overflow);
+};
+
+interface TransactionProviderProps {
+  children: ReactNode;
+}
+
+// Follows every transaction sent through lib/contracts until it is mined, including across reloads
+export const TransactionProvider = ({ children }: TransactionProviderProps) => {
+  const { provider, account, chainId } = useWallet();
+  const { toast } = useToast();
+  const [transactions, setTransactions] = useState<TrackedTransaction[]>(loadTransactions);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(transactions));
+  }, [transactions]);
+
+  // Record transactions as soon as they are sent
+  useEffect(() => {
+    return subscribeToTransactions((tx, description) => {
+      setTransactions((current) => trimTransactions([
+        ...current.filter((existing) => existing.hash !== tx.hash),
+        {
+          hash: tx.hash,
+          chainId: Number(tx.chainId),
+          account: tx.from.toLowerCase(),
+          description,
+          status: "pending",
+          submittedAt: Date.now(),
+        },
+      ]));
+    });
+  }, []);
+
+  const pending = transactions.filter((tx) => tx.status === "pending" && tx.chainId === chainId);
+  // Changes exactly when the set of pending transactions does, so polling restarts only then
+  const pendingKey = pending.map((tx) => tx.hash).join(",");
+
+  // Poll receipts of pending transactions on the wallet's chain; the wallet's provider only serves that chain
+  useEffect(() => {
+    if (!provider || pending.length === 0) return;
+
+    let cancelled = false;
+    const settle = async (tx: TrackedTransaction) => {
+      const receipt = await provider.getTransactionReceipt(tx.hash);
+      if (!receipt || cancelled) return;
+
+      const status: TransactionStatus = receipt.status === 1 ? "confirmed" : "failed";
+      const error = status === "failed" ? await getRevertReason(provider, tx.hash) : undefined;
+      if (cancelled) return;
+
+      setTransactions((current) =>
+        current.map((existing) => (existing.hash === tx.hash ? { ...existing, status, error } : existing))
+      );
+      toast(status === "confirmed"
+        ? { title: "Transaction confirmed", description: tx.description }
+        : { title: "Transaction failed", description: `${tx.description}: ${error}`, variant: "destructive" });
+    };
+
+    const poll = () => {
+      pending.forEach((tx) => {
+        settle(tx).catch((error) => console.warn("Error checking transaction:", error));
+      });
+    };
+
+    poll();
+    const interval = setInterval(poll, RECEIPT_POLL_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [provider, pendingKey, toast]);
+
+  // Remove the connected account's confirmed and failed transactions on this chain
+  const clearFinished = useCallback(() => {
+    setTransactions((current) =>
+      current.filter((tx) => tx.status === "pending" || tx.account !== account?.toLowerCase() || tx.chainId !== chainId)
+    );
+  }, [account, chainId]);
+
+  const visible = transactions
+    .filter((tx) => tx.account === account?.toLowerCase() && tx.chainId === chainId)
+    .sort((a, b) => b.submittedAt - a.submittedAt);
+
+  const contextValue = {
+    transactions: visible,
+    pendingCount: visible.filter((tx) => tx.status === "pending").length,
+    clearFinished,
+  };
+
+  return (
+    <TransactionContext.Provider value={contextValue}>
+      {children}
+    </TransactionContext.Provider>
+  );
+};
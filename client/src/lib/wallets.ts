@@ -0,0 +1,123 @@
+import { useSyncExternalStore } from "react";
+import { ethers } from "ethers";
+import { EthereumProvider } from "@walletconnect/ethereum-provider";
+import { NETWORKS, type Network } from "@shared/networks";
+
+// EIP-1193 provider, as injected by a browser wallet or created by WalletConnect
+export interface EIP1193Provider extends ethers.Eip1193Provider {
+  on(event: string, listener: (...args: any[]) => void): void;
+  removeListener?(event: string, listener: (...args: any[]) => void): void;
+}
+
+// A wallet the user can pick in the connect dialog
+export interface InjectedWallet {
+  // Stable across page loads, so it can be remembered for auto-connect
+  id: string;
+  name: string;
+  icon?: string;
+  provider: EIP1193Provider;
+}
+
+// Payload of an EIP-6963 eip6963:announceProvider event
+interface ProviderDetail {
+  info: { uuid: string; name: string; icon: string; rdns: string };
+  provider: EIP1193Provider;
+}
+
+export const WALLETCONNECT_CONNECTOR = "walletconnect";
+// Wallets that only set window.ethereum and do not announce themselves
+const LEGACY_INJECTED_CONNECTOR = "injected";
+
+export const WALLETCONNECT_PROJECT_ID: string = import.meta.env.VITE_WALLETCONNECT_PROJECT_ID ?? "";
+
+// How long to wait for a wallet to announce itself; extensions may only answer after the app's
+// scripts have run
+const ANNOUNCE_TIMEOUT_MS = 1000;
+
+// Injected wallets announced through EIP-6963, keyed by reverse-DNS name
+const announced = new Map<string, InjectedWallet>();
+const subscribers = new Set<() => void>();
+let injectedWallets: InjectedWallet[] = [];
+
+const updateInjectedWallets = () => {
+  injectedWallets = Array.from(announced.values());
+  if (injectedWallets.length === 0 && window.ethereum) {
+    injectedWallets = [{ id: LEGACY_INJECTED_CONNECTOR, name: "Browser Wallet", provider: window.ethereum }];
+  }
+  subscribers.forEach((notify) => notify());
+};
+
+window.addEventListener("eip6963:announceProvider", (event) => {
+  const { info, provider } = (event as CustomEvent<ProviderDetail>).detail;
+  announced.set(info.rdns, { id: `injected:${info.rdns}`, name: info.name, icon: info.icon, provider });
+  updateInjectedWallets();
+});
+window.dispatchEvent(new Event("eip6963:requestProvider"));
+updateInjectedWallets();
+
+const subscribe = (notify: () => void) => {
+  subscribers.add(notify);
+  return () => {
+    subscribers.delete(notify);
+  };
+};
+
+export const getInjectedWallets = () => injectedWallets;
+
+// Injected wallets discovered so far; wallets announcing themselves later are added as they arrive
+export const useInjectedWallets = () => useSyncExternalStore(subscribe, getInjectedWallets);
+
+// Resolves with the injected wallet with this id once it has announced itself, or with null when it
+// has not done so within the timeout
+export const waitForInjectedWallet = (id: string): Promise<InjectedWallet | null> =>
+  new Promise((resolve) => {
+    const find = () => injectedWallets.find((candidate) => candidate.id === id);
+    const found = find();
+    if (found) {
+      resolve(found);
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      unsubscribe();
+      resolve(null);
+    }, ANNOUNCE_TIMEOUT_MS);
+    const unsubscribe = subscribe(() => {
+      const wallet = find();
+      if (!wallet) return;
+      clearTimeout(timer);
+      unsubscribe();
+      resolve(wallet);
+    });
+  });
+
+type WalletConnectProvider = Awaited<ReturnType<typeof EthereumProvider.init>>;
+
+let walletConnect: Promise<WalletConnectProvider> | null = null;
+
+// The single WalletConnect client; init restores the session saved by a previous visit
+export const getWalletConnectProvider = (): Promise<WalletConnectProvider> => {
+  if (!WALLETCONNECT_PROJECT_ID) {
+    return Promise.reject(new Error("WalletConnect is not configured"));
+  }
+  if (!walletConnect) {
+    walletConnect = EthereumProvider.init({
+      projectId: WALLETCONNECT_PROJECT_ID,
+      optionalChains: NETWORKS.map((network) => network.chainId) as [number, ...number[]],
+      rpcMap: Object.fromEntries(NETWORKS.map((network: Network) => [network.chainId, network.rpcUrl])),
+      // The connect dialog renders the pairing URI as its own QR code
+      showQrModal: false,
+      metadata: {
+        name: "TokenVote",
+        description: "Create tokens and vote on proposals",
+        url: window.location.origin,
+        icons: [],
+      },
+    });
+    // Allow a retry after a failed init, e.g. when the relay is unreachable
+    walletConnect.catch(() => {
+      walletConnect = null;
+    });
+  }
+  return walletConnect;
+};
@@ -1,16 +1,39 @@
-import { createContext, useContext, useState, useEffect, useCallback, ReactNode } from "react";
+import { createContext, useContext, useState, useEffect, useCallback, useRef, ReactNode } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { ethers } from "ethers";
+import { SiweMessage } from "siwe";
 import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { DEFAULT_CHAIN_ID, getNetwork, type Network } from "@shared/networks";
+import {
+  getInjectedWallets,
+  getWalletConnectProvider,
+  waitForInjectedWallet,
+  WALLETCONNECT_CONNECTOR,
+  type EIP1193Provider,
+} from "@/lib/wallets";
 
 interface WalletContextType {
   provider: ethers.BrowserProvider | null;
   signer: ethers.JsonRpcSigner | null;
   account: string | null;
   chainId: number | null;
+  // Registry entry for chainId, or the default network before a wallet connects; null on unsupported chains
+  network: Network | null;
+  // Network the server runs on, which the wallet has to be connected to
+  supportedNetwork: Network | null;
+  isWrongNetwork: boolean;
   isConnected: boolean;
   isConnecting: boolean;
-  connectWallet: () => Promise<void>;
+  isAuthenticated: boolean;
+  // Injected wallet id or WALLETCONNECT_CONNECTOR of the connected wallet
+  connectorId: string | null;
+  // Pairing URI to show as a QR code while a WalletConnect connection is pending
+  walletConnectUri: string | null;
+  connectWallet: (connectorId: string) => Promise<void>;
+  cancelConnect: () => void;
   disconnectWallet: () => void;
+  switchNetwork: () => Promise<void>;
 }
 
 const WalletContext = createContext<WalletContextType>({
@@ -18,62 +41,182 @@ const WalletContext = createContext<WalletContextType>({
   signer: null,
   account: null,
   chainId: null,
+  network: getNetwork(DEFAULT_CHAIN_ID) ?? null,
+  supportedNetwork: null,
+  isWrongNetwork: false,
   isConnected: false,
   isConnecting: false,
+  isAuthenticated: false,
+  connectorId: null,
+  walletConnectUri: null,
   connectWallet: async () => {},
+  cancelConnect: () => {},
   disconnectWallet: () => {},
+  switchNetwork: async () => {},
 });
 
 export const useWallet = () => useContext(WalletContext);
 
+// Sign in with an EIP-4361 message unless the server session already belongs to this address
+const authenticate = async (
+  ethSigner: ethers.JsonRpcSigner,
+  address: string,
+  chainId: number
+): Promise<void> => {
+  const sessionRes = await fetch("/api/auth/session", { credentials: "include" });
+  if (sessionRes.ok) {
+    const session = await sessionRes.json();
+    if (session.address?.toLowerCase() === address.toLowerCase()) {
+      return;
+    }
+  }
+
+  const nonceRes = await apiRequest("GET", "/api/auth/nonce");
+  const { nonce } = await nonceRes.json();
+
+  const message = new SiweMessage({
+    domain: window.location.host,
+    address: ethers.getAddress(address),
+    statement: "Sign in to TokenVote to create tokens, proposals and votes.",
+    uri: window.location.origin,
+    version: "1",
+    chainId,
+    nonce,
+  }).prepareMessage();
+
+  const signature = await ethSigner.signMessage(message);
+  await apiRequest("POST", "/api/auth/verify", { message, signature });
+};
+
+// EIP-1193 error codes for a rejected request and, from wallet_switchEthereumChain, a chain the wallet does not know
+const USER_REJECTED_ERROR = 4001;
+const UNRECOGNIZED_CHAIN_ERROR = 4902;
+
+// Ask the wallet to switch to a network, adding it first if the wallet does not know it
+const requestNetwork = async (wallet: EIP1193Provider, network: Network): Promise<void> => {
+  const chainId = ethers.toQuantity(network.chainId);
+  try {
+    await wallet.request({ method: "wallet_switchEthereumChain", params: [{ chainId }] });
+  } catch (error: any) {
+    // Some wallets wrap the code in data.originalError
+    const code = error?.code ?? error?.data?.originalError?.code;
+    if (code !== UNRECOGNIZED_CHAIN_ERROR) throw error;
+
+    await wallet.request({
+      method: "wallet_addEthereumChain",
+      params: [{
+        chainId,
+        chainName: network.name,
+        nativeCurrency: network.nativeCurrency,
+        rpcUrls: [network.rpcUrl],
+        blockExplorerUrls: network.explorerUrl ? [network.explorerUrl] : undefined,
+      }],
+    });
+  }
+};
+
+// localStorage key holding the connector to reconnect with on the next visit
+const CONNECTOR_STORAGE_KEY = "walletConnector";
+
 interface WalletProviderProps {
   children: ReactNode;
 }
 
 export const WalletProvider = ({ children }: WalletProviderProps) => {
+  const [wallet, setWallet] = useState<EIP1193Provider | null>(null);
+  const [connectorId, setConnectorId] = useState<string | null>(null);
+  const [walletConnectUri, setWalletConnectUri] = useState<string | null>(null);
   const [provider, setProvider] = useState<ethers.BrowserProvider | null>(null);
   const [signer, setSigner] = useState<ethers.JsonRpcSigner | null>(null);
   const [account, setAccount] = useState<string | null>(null);
   const [chainId, setChainId] = useState<number | null>(null);
   const [isConnected, setIsConnected] = useState(false);
   const [isConnecting, setIsConnecting] = useState(false);
+  const [isAuthenticated, setIsAuthenticated] = useState(false);
+  // Bumped by cancelConnect so a connection the user gave up on is ignored if it completes later
+  const connectAttempt = useRef(0);
   
   const { toast } = useToast();
 
-  const connectWallet = useCallback(async () => {
+  const { data: supportedNetwork } = useQuery<Network>({
+    queryKey: ["/api/network"],
+  });
+  const isWrongNetwork = isConnected && !!supportedNetwork && chainId !== supportedNetwork.chainId;
+
+  const switchNetwork = useCallback(async () => {
+    if (!supportedNetwork || !wallet) return;
     try {
-      if (!window.ethereum) {
-        toast({
-          title: "MetaMask not found",
-          description: "Please install MetaMask to use this application",
-          variant: "destructive",
-        });
-        return;
+      await requestNetwork(wallet, supportedNetwork);
+    } catch (error: any) {
+      console.error("Error switching network:", error);
+      toast({
+        title: "Network not switched",
+        description: error?.code === USER_REJECTED_ERROR
+          ? "The request was rejected in your wallet"
+          : `Switch your wallet to ${supportedNetwork.name} manually`,
+        variant: "destructive",
+      });
+    }
+  }, [supportedNetwork, wallet, toast]);
+
+  // Resolve a connector to its EIP-1193 provider, pairing through WalletConnect when needed
+  const openConnector = async (id: string): Promise<EIP1193Provider> => {
+    if (id === WALLETCONNECT_CONNECTOR) {
+      const walletConnect = await getWalletConnectProvider();
+      if (!walletConnect.session) {
+        walletConnect.once("display_uri", setWalletConnectUri);
+        try {
+          await walletConnect.connect();
+        } finally {
+          setWalletConnectUri(null);
+        }
       }
+      return walletConnect as unknown as EIP1193Provider;
+    }
+
+    const injected = getInjectedWallets().find((candidate) => candidate.id === id);
+    if (!injected) {
+      throw new Error("Wallet not found. It may have been disabled or uninstalled.");
+    }
+    return injected.provider;
+  };
 
+  const connectWallet = useCallback(async (id: string) => {
+    const attempt = ++connectAttempt.current;
+    try {
       setIsConnecting(true);
-      
+
+      const connected = await openConnector(id);
+      if (attempt !== connectAttempt.current) return;
+
       // Create provider
-      const browserProvider = new ethers.BrowserProvider(window.ethereum);
-      setProvider(browserProvider);
+      const browserProvider = new ethers.BrowserProvider(connected);
       
       // Request accounts
       const accounts = await browserProvider.send("eth_requestAccounts", []);
       const address = accounts[0];
-      setAccount(address);
       
       // Get network
       const network = await browserProvider.getNetwork();
-      setChainId(Number(network.chainId));
       
       // Get signer
       const ethSigner = await browserProvider.getSigner();
-      setSigner(ethSigner);
       
+      // Prove wallet ownership to the backend
+      await authenticate(ethSigner, address, Number(network.chainId));
+      if (attempt !== connectAttempt.current) return;
+
+      setWallet(connected);
+      setConnectorId(id);
+      setProvider(browserProvider);
+      setAccount(address);
+      setChainId(Number(network.chainId));
+      setSigner(ethSigner);
+      setIsAuthenticated(true);
       setIsConnected(true);
       
-      // Save connection status
-      localStorage.setItem("isWalletConnected", "true");
+      // Remember the wallet for auto-connect
+      localStorage.setItem(CONNECTOR_STORAGE_KEY, id);
       
       toast({
         title: "Wallet connected",
@@ -81,79 +224,144 @@ export const WalletProvider = ({ children }: WalletProviderProps) => {
       });
     } catch (error) {
       console.error("Error connecting wallet:", error);
+      if (attempt !== connectAttempt.current) return;
+
+      // A wallet without a signed-in session cannot use the app
+      setWallet(null);
+      setConnectorId(null);
+      setSigner(null);
+      setAccount(null);
+      setIsConnected(false);
+      setIsAuthenticated(false);
+
       toast({
         title: "Connection failed",
-        description: "Failed to connect wallet",
+        description: error instanceof Error && error.message.startsWith("Wallet not found")
+          ? error.message
+          : "Failed to connect wallet",
         variant: "destructive",
       });
     } finally {
-      setIsConnecting(false);
+      if (attempt === connectAttempt.current) {
+        setIsConnecting(false);
+      }
     }
   }, [toast]);
 
+  const cancelConnect = useCallback(() => {
+    connectAttempt.current++;
+    setWalletConnectUri(null);
+    setIsConnecting(false);
+  }, []);
+
   const disconnectWallet = useCallback(() => {
+    // WalletConnect sessions live on the relay until they are ended explicitly
+    if (connectorId === WALLETCONNECT_CONNECTOR) {
+      getWalletConnectProvider()
+        .then((walletConnect) => walletConnect.disconnect())
+        .catch((error) => console.error("Error ending WalletConnect session:", error));
+    }
+
+    setWallet(null);
+    setConnectorId(null);
     setProvider(null);
     setSigner(null);
     setAccount(null);
     setChainId(null);
     setIsConnected(false);
-    localStorage.removeItem("isWalletConnected");
+    setIsAuthenticated(false);
+    localStorage.removeItem(CONNECTOR_STORAGE_KEY);
+    
+    apiRequest("POST", "/api/auth/logout").catch((error) => {
+      console.error("Error ending session:", error);
+    });
     
     toast({
       title: "Wallet disconnected",
       description: "Your wallet has been disconnected",
     });
-  }, [toast]);
+  }, [connectorId, toast]);
 
-  // Auto-connect if previously connected
+  // Auto-connect to the wallet used last time, without prompting for a new WalletConnect pairing
   useEffect(() => {
+    let cancelled = false;
+
     const autoConnect = async () => {
-      const shouldAutoConnect = localStorage.getItem("isWalletConnected") === "true";
-      if (shouldAutoConnect && window.ethereum) {
-        try {
-          await connectWallet();
-        } catch (error) {
-          console.error("Auto-connect failed:", error);
+      const savedConnector = localStorage.getItem(CONNECTOR_STORAGE_KEY);
+      if (!savedConnector) return;
+
+      try {
+        if (savedConnector === WALLETCONNECT_CONNECTOR) {
+          const walletConnect = await getWalletConnectProvider();
+          if (!walletConnect.session) return;
+        } else if (!(await waitForInjectedWallet(savedConnector))) {
+          // The wallet is no longer installed, or did not announce itself in time
+          return;
         }
+        if (cancelled) return;
+        await connectWallet(savedConnector);
+      } catch (error) {
+        console.error("Auto-connect failed:", error);
       }
     };
     
     autoConnect();
+    return () => {
+      cancelled = true;
+    };
   }, [connectWallet]);
 
   // Handle account and chain changes
   useEffect(() => {
-    if (window.ethereum) {
-      const handleAccountsChanged = (accounts: string[]) => {
-        if (accounts.length === 0) {
-          disconnectWallet();
-        } else if (isConnected) {
-          setAccount(accounts[0]);
-          toast({
-            title: "Account changed",
-            description: `Switched to ${shortenAddress(accounts[0])}`,
-          });
-        }
-      };
+    if (!wallet || !isConnected || !connectorId) return;
 
-      const handleChainChanged = (chainIdHex: string) => {
-        if (isConnected) {
-          setChainId(parseInt(chainIdHex, 16));
-          window.location.reload();
-        }
-      };
+    const handleAccountsChanged = (accounts: string[]) => {
+      if (accounts.length === 0) {
+        disconnectWallet();
+      } else if (accounts[0].toLowerCase() !== account?.toLowerCase()) {
+        setAccount(accounts[0]);
+        setIsAuthenticated(false);
+        toast({
+          title: "Account changed",
+          description: `Switched to ${shortenAddress(accounts[0])}`,
+        });
+        
+        // The session belongs to the previous account, so sign in again
+        connectWallet(connectorId);
+      }
+    };
 
-      window.ethereum.on("accountsChanged", handleAccountsChanged);
-      window.ethereum.on("chainChanged", handleChainChanged);
+    // A BrowserProvider is bound to one chain, so rebuild it and the signer for the new one
+    const handleChainChanged = async (chainIdHex: string | number) => {
+      try {
+        const browserProvider = new ethers.BrowserProvider(wallet);
+        setProvider(browserProvider);
+        setSigner(await browserProvider.getSigner());
+        setChainId(Number(chainIdHex));
+      } catch (error) {
+        console.error("Error handling network change:", error);
+      }
+    };
 
-      return () => {
-        if (window.ethereum.removeListener) {
-          window.ethereum.removeListener("accountsChanged", handleAccountsChanged);
-          window.ethereum.removeListener("chainChanged", handleChainChanged);
-        }
-      };
-    }
-  }, [disconnectWallet, isConnected, toast]);
+    // Ended from the other side, e.g. the session was removed in the mobile wallet
+    const handleDisconnect = () => {
+      if (connectorId === WALLETCONNECT_CONNECTOR) {
+        disconnectWallet();
+      }
+    };
+
+    wallet.on("accountsChanged", handleAccountsChanged);
+    wallet.on("chainChanged", handleChainChanged);
+    wallet.on("disconnect", handleDisconnect);
+
+    return () => {
+      if (wallet.removeListener) {
+        wallet.removeListener("accountsChanged", handleAccountsChanged);
+        wallet.removeListener("chainChanged", handleChainChanged);
+        wallet.removeListener("disconnect", handleDisconnect);
+      }
+    };
+  }, [wallet, connectorId, account, connectWallet, disconnectWallet, isConnected, toast]);
 
   // Creating context value separately to avoid JSX parsing issues
   const contextValue = {
@@ -161,10 +369,18 @@ export const WalletProvider = ({ children }: WalletProviderProps) => {
     signer,
     account,
     chainId,
+    network: getNetwork(chainId ?? DEFAULT_CHAIN_ID) ?? null,
+    supportedNetwork: supportedNetwork ?? null,
+    isWrongNetwork,
     isConnected,
     isConnecting,
+    isAuthenticated,
+    connectorId,
+    walletConnectUri,
     connectWallet,
+    cancelConnect,
     disconnectWallet,
+    switchNetwork,
   };
   
   return (
@@ -0,0 +1,309 @@
+import React, { useEffect, useState } from "react";
+import { Link, useParams } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ArrowLeft } from "lucide-react";
+import { type Airdrop, type TokenWithDetails } from "@shared/schema";
+import { formatTokenAmount } from "@shared/token-amount";
+import { getExplorerUrl } from "@shared/networks";
+import { useWallet, shortenAddress } from "@/lib/web3.tsx";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatProposalDate } from "@/lib/proposals";
+import {
+  claimAirdrop,
+  createAirdropDistributor,
+  isAirdropClaimed,
+} from "@/lib/contracts";
+
+
+interface AirdropProof {
+  leafIndex: number;
+  account: string;
+  amount: string;
+  proof: string[];
+}
+
+const AirdropView: React.FC<{ airdrop: Airdrop }> = ({ airdrop }) => {
+  const { account, signer, provider, network } = useWallet();
+  const { toast } = useToast();
+  const [isClaimed, setIsClaimed] = useState<boolean | null>(null);
+  const [isClaiming, setIsClaiming] = useState(false);
+  const [isDeploying, setIsDeploying] = useState(false);
+
+  const { data: token } = useQuery<TokenWithDetails>({
+    queryKey: [`/api/tokens/${airdrop.tokenAddress}`],
+  });
+
+  // A 404 means the connected wallet has no allocation
+  const { data: allocation, isLoading: isLoadingAllocation } = useQuery<AirdropProof>({
+    queryKey: [`/api/airdrops/${airdrop.id}/proof/${account}`],
+    enabled: !!account,
+    retry: false,
+  });
+
+  // Claims are tracked by the distributor contract, not the API
+  useEffect(() => {
+    const loadClaimed = async () => {
+      if (!provider || !airdrop.distributorAddress || !allocation) return;
+      try {
+        setIsClaimed(await isAirdropClaimed(provider, airdrop.distributorAddress, allocation.leafIndex));
+      } catch (error) {
+        console.warn("Error checking airdrop claim:", error);
+      }
+    };
+    setIsClaimed(null);
+    loadClaimed();
+  }, [provider, airdrop.distributorAddress, allocation]);
+
+  const decimals = token?.decimals ?? 18;
+  const symbol = token?.symbol ?? "";
+  const endTime = new Date(airdrop.endTime);
+  const hasEnded = endTime <= new Date();
+  const isCreator = !!account && account.toLowerCase() === airdrop.creatorAddress.toLowerCase();
+
+  const handleDeploy = async () => {
+    if (!signer) {
+      toast({
+        title: "Wallet not connected",
+        description: "Please connect your wallet first",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      setIsDeploying(true);
+      const transactionHash = await createAirdropDistributor(
+        signer,
+        airdrop.tokenAddress,
+        airdrop.merkleRoot,
+        airdrop.totalAmount,
+        endTime
+      );
+      await apiRequest("POST", `/api/airdrops/${airdrop.id}/deploy`, { transactionHash });
+
+      toast({
+        title: "Airdrop funded",
+        description: "Recipients can now claim their tokens",
+      });
+      queryClient.invalidateQueries({ queryKey: [`/api/airdrops/${airdrop.id}`] });
+    } catch (error) {
+      console.error("Error deploying airdrop:", error);
+      toast({
+        title: "Failed to fund airdrop",
+        description: error instanceof Error ? error.message : "Unknown error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setIsDeploying(false);
+    }
+  };
+
+  const handleClaim = async () => {
+    if (!signer || !allocation || !airdrop.distributorAddress) {
+      toast({
+        title: "Wallet not connected",
+        description: "Please connect your wallet first",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      setIsClaiming(true);
+      await claimAirdrop(
+        signer,
+        airdrop.distributorAddress,
+        allocation.leafIndex,
+        allocation.account,
+        allocation.amount,
+        allocation.proof
+      );
+
+      toast({
+        title: "Tokens claimed",
+        description: `${formatTokenAmount(allocation.amount, decimals)} ${symbol} sent to your wallet`,
+      });
+      setIsClaimed(true);
+      queryClient.invalidateQueries({ queryKey: [`/api/tokens/${airdrop.tokenAddress}/holders`] });
+    } catch (error) {
+      console.error("Error claiming airdrop:", error);
+      toast({
+        title: "Failed to claim",
+        description: error instanceof Error ? error.message : "Unknown error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setIsClaiming(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <div className="flex flex-wrap items-center gap-2 mb-2">
+          <Badge variant={airdrop.distributorAddress && !hasEnded ? "secondary" : "outline"}>
+            {!airdrop.distributorAddress ? "Awaiting funding" : hasEnded ? "Ended" : "Open for claims"}
+          </Badge>
+        </div>
+        <h1 className="text-3xl font-bold font-heading">
+          {token ? `${token.name} Airdrop` : "Airdrop"}
+        </h1>
+        <div className="text-sm text-muted-foreground mt-1">
+          By{" "}
+          <a
+            href={getExplorerUrl(token?.chainId, "address", airdrop.creatorAddress)}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-primary hover:underline"
+          >
+            {shortenAddress(airdrop.creatorAddress)}
+          </a>{" "}
+          ·{" "}
+          <Link href={`/tokens/${airdrop.tokenAddress}`} className="text-primary hover:underline">
+            {symbol || shortenAddress(airdrop.tokenAddress)}
+          </Link>
+        </div>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-3">
+        <Card>
+          <CardContent className="p-6">
+            <div className="text-sm text-muted-foreground">Total</div>
+            <div className="text-2xl font-bold">
+              {formatTokenAmount(airdrop.totalAmount, decimals)} {symbol}
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-6">
+            <div className="text-sm text-muted-foreground">Recipients</div>
+            <div className="text-2xl font-bold">{airdrop.recipientCount}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-6">
+            <div className="text-sm text-muted-foreground">{hasEnded ? "Claims closed" : "Claims close"}</div>
+            <div className="text-2xl font-bold">{formatProposalDate(endTime)}</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {!airdrop.distributorAddress && isCreator && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Fund the airdrop</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Approve and send {formatTokenAmount(airdrop.totalAmount, decimals)} {symbol} to a new claim contract.
+              Until then no one can claim.
+            </p>
+            {!network?.contracts.merkleDistributorFactory ? (
+              <p className="text-sm text-destructive">
+                Airdrops cannot be funded until MerkleDistributorFactory is deployed on {network?.name ?? "this network"}
+              </p>
+            ) : hasEnded ? (
+              <p className="text-sm text-destructive">The claim period has already ended</p>
+            ) : (
+              <Button onClick={handleDeploy} disabled={isDeploying}>
+                {isDeploying ? "Funding..." : "Fund Airdrop"}
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Your allocation</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {!account ? (
+            <p className="text-muted-foreground">Connect your wallet to check your allocation</p>
+          ) : isLoadingAllocation ? (
+            <Skeleton className="h-12" />
+          ) : !allocation ? (
+            <p className="text-muted-foreground">This wallet has no allocation in this airdrop</p>
+          ) : (
+            <>
+              <div className="text-2xl font-bold">
+                {formatTokenAmount(allocation.amount, decimals)} {symbol}
+              </div>
+              {!airdrop.distributorAddress ? (
+                <p className="text-sm text-muted-foreground">Claims open once the creator funds the airdrop</p>
+              ) : isClaimed ? (
+                <Badge variant="outline">Claimed</Badge>
+              ) : hasEnded ? (
+                <p className="text-sm text-muted-foreground">The claim period has ended</p>
+              ) : (
+                <Button onClick={handleClaim} disabled={isClaiming || isClaimed === null}>
+                  {isClaiming ? "Claiming..." : "Claim Tokens"}
+                </Button>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {airdrop.distributorAddress && (
+        <div className="text-sm text-muted-foreground">
+          Claim contract{" "}
+          <a
+            href={getExplorerUrl(token?.chainId, "address", airdrop.distributorAddress)}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="font-mono text-primary hover:underline"
+          >
+            {shortenAddress(airdrop.distributorAddress)}
+          </a>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const AirdropPage: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+
+  const { data: airdrop, isLoading, error } = useQuery<Airdrop>({
+    queryKey: [`/api/airdrops/${id}`],
+    retry: false,
+  });
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <section className="py-6">
+        <Link href="/tokens">
+          <div className="cursor-pointer">
+            <Button variant="link" className="text-primary flex items-center px-0 mb-4">
+              <ArrowLeft className="w-4 h-4 mr-1" />
+              Tokens
+            </Button>
+          </div>
+        </Link>
+
+        {isLoading ? (
+          <div className="space-y-6">
+            <Skeleton className="h-16" />
+            <Skeleton className="h-64" />
+          </div>
+        ) : airdrop ? (
+          <AirdropView airdrop={airdrop} />
+        ) : (
+          <div className="text-center py-12">
+            <p className="text-muted-foreground">
+              {error?.message.startsWith("404") ? "Airdrop not found" : "Failed to load airdrop"}
+            </p>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default AirdropPage;
@@ -1,28 +1,28 @@
 import React, { useState } from "react";
 import { useLocation } from "wouter";
-import { useQuery } from "@tanstack/react-query";
 import ProposalForm from "@/components/proposals/proposal-form";
 import { useWallet } from "@/lib/web3";
 import { useToast } from "@/hooks/use-toast";
+import { usePaginatedList } from "@/hooks/use-paginated-list";
 import { apiRequest } from "@/lib/queryClient";
 import { queryClient } from "@/lib/queryClient";
+import { createProposal } from "@/lib/contracts";
 import { Token } from "@shared/schema";
 
 const CreateProposal: React.FC = () => {
-  const { account, isConnected } = useWallet();
+  const { account, signer, chainId, isConnected } = useWallet();
   const { toast } = useToast();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [, setLocation] = useLocation();
 
-  // Fetch user's tokens for proposal creation
-  const { data: tokens = [] } = useQuery<Token[]>({
-    queryKey: [account ? "/api/tokens/creator" : "", account || ""],
+  // Fetch user's tokens for proposal creation; the first page covers all but the busiest creators
+  const { items: tokens = [] } = usePaginatedList<Token>(["/api/tokens/creator", account], {
     enabled: !!account,
   });
 
   const handleSubmit = async (values: any) => {
     try {
-      if (!isConnected || !account) {
+      if (!isConnected || !signer || !account) {
         toast({
           title: "Wallet not connected",
           description: "Please connect your wallet first",
@@ -42,17 +42,55 @@ const CreateProposal: React.FC = () => {
         throw new Error("Selected token not found");
       }
 
-      // Create proposal in our backend
-      await apiRequest("POST", "/api/proposals", {
-        title: values.title,
-        description: values.description,
-        creatorAddress: account,
-        tokenAddress: values.tokenAddress,
-        tokenSymbol: selectedToken.symbol,
-        startDate: new Date(),
-        endDate: values.endDate,
-        quorum: parseInt(values.quorum),
-      });
+      const startDate = new Date();
+      const quorum = parseInt(values.quorum);
+
+      if (values.proposalType === "multiple_choice") {
+        // Governance only supports for/against/abstain, so these are tallied by our backend
+        await apiRequest("POST", "/api/proposals", {
+          title: values.title,
+          description: values.description,
+          tokenAddress: values.tokenAddress,
+          tokenSymbol: selectedToken.symbol,
+          tokenDecimals: selectedToken.decimals,
+          startDate,
+          endDate: values.endDate,
+          quorum,
+          chainId,
+          proposalType: "multiple_choice",
+          options: values.options.map((option: { label: string }) => option.label.trim()),
+        });
+      } else {
+        // Create proposal on the Governance contract
+        const durationDays = Math.max(
+          1,
+          Math.ceil((values.endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24))
+        );
+        const transactionHash = await createProposal(
+          signer,
+          values.title,
+          values.description,
+          values.tokenAddress,
+          durationDays,
+          quorum,
+          values.actions
+        );
+
+        // Save proposal in our backend so it shows up before the indexer catches up
+        await apiRequest("POST", "/api/proposals", {
+          title: values.title,
+          description: values.description,
+          tokenAddress: values.tokenAddress,
+          tokenSymbol: selectedToken.symbol,
+          tokenDecimals: selectedToken.decimals,
+          startDate,
+          endDate: new Date(startDate.getTime() + durationDays * 24 * 60 * 60 * 1000),
+          quorum,
+          chainId,
+          transactionHash,
+          actions: values.actions,
+        });
+      }
 
       // Show success toast
       toast({
@@ -4,7 +4,7 @@ import TokenForm from "@/components/tokens/token-form";
 import { useWallet } from "@/lib/web3.tsx";
 import { useToast } from "@/hooks/use-toast";
 import { createToken } from "@/lib/contracts";
-import { ethers } from "ethers";
+import { parseTokenAmount } from "@shared/token-amount";
 import { apiRequest } from "@/lib/queryClient";
 import { queryClient } from "@/lib/queryClient";
 
@@ -30,31 +30,21 @@ const CreateToken: React.FC = () => {
 
       // Convert values to proper format
       const decimals = parseInt(values.tokenDecimals);
-      const initialSupply = ethers.parseUnits(values.tokenSupply, decimals).toString();
+      const initialSupply = parseTokenAmount(values.tokenSupply, decimals).toString();
 
-      // Create token on blockchain (simulated in this demo)
-      const tokenAddress = await createToken(
+      // Create token on blockchain
+      const createdHash = await createToken(
         signer,
         values.tokenName,
         values.tokenSymbol,
         initialSupply,
         decimals,
-        values.tokenTransferable
+        values.tokenTransferable,
+        setTransactionHash
       );
-
-      // Save token transaction hash
-      setTransactionHash(tokenAddress);
       
-      // Save token in our backend
-      await apiRequest("POST", "/api/tokens", {
-        name: values.tokenName,
-        symbol: values.tokenSymbol,
-        totalSupply: initialSupply,
-        decimals,
-        contractAddress: tokenAddress,
-        creatorAddress: account,
-        isTransferable: values.tokenTransferable,
-      });
+      // Save token in our backend, which reads its details from the transaction
+      await apiRequest("POST", "/api/tokens", { transactionHash: createdHash });
 
       // Show success toast
       toast({
@@ -79,6 +69,7 @@ const CreateToken: React.FC = () => {
       });
     } finally {
       setIsSubmitting(false);
+      setTransactionHash(undefined);
     }
   };
 
@@ -1,11 +1,33 @@
-import React from "react";
+import React, { useState } from "react";
 import { Link } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Area, AreaChart, XAxis } from "recharts";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { type ActivityCounts, type PlatformStats } from "@shared/schema";
 import { useWallet } from "@/lib/web3.tsx";
 
+const formatCount = (value: number) =>
+  new Intl.NumberFormat(undefined, { notation: "compact", maximumFractionDigits: 1 }).format(value);
+
+const sparklineConfig = {
+  votes: { label: "Votes", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
 const Home: React.FC = () => {
   const { isConnected } = useWallet();
+  const [trendDays, setTrendDays] = useState("7");
+
+  const { data: stats, isLoading } = useQuery<PlatformStats>({
+    queryKey: ["/api/stats"],
+  });
+
+  const trend = stats?.trends.find((entry) => String(entry.days) === trendDays);
+  const trendText = (key: keyof ActivityCounts) =>
+    trend ? `+${formatCount(trend.current[key])} in ${trend.days} days` : undefined;
 
   return (
     <div className="container mx-auto px-4 py-8">
@@ -38,11 +60,59 @@ const Home: React.FC = () => {
         <Card className="relative w-full max-w-4xl mx-auto overflow-hidden shadow-lg">
           <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-primary via-accent to-secondary"></div>
           <CardContent className="p-6">
-            <div className="flex flex-wrap gap-4 justify-around">
-              <StatsCard value="128" label="Active Tokens" color="text-primary" />
-              <StatsCard value="57" label="Open Proposals" color="text-accent" />
-              <StatsCard value="4.2K" label="Total Votes" color="text-secondary" />
-            </div>
+            {isLoading ? (
+              <Skeleton className="h-32" />
+            ) : stats ? (
+              <div className="space-y-6">
+                <div className="flex flex-wrap gap-4 justify-around">
+                  <StatsCard
+                    value={formatCount(stats.tokenCount)}
+                    label="Tokens"
+                    color="text-primary"
+                    trend={trendText("tokens")}
+                  />
+                  <StatsCard
+                    value={formatCount(stats.activeProposalCount)}
+                    label="Open Proposals"
+                    color="text-accent"
+                    trend={trendText("proposals")}
+                  />
+                  <StatsCard
+                    value={formatCount(stats.totalVotes)}
+                    label="Total Votes"
+                    color="text-secondary"
+                    trend={trendText("votes")}
+                  />
+                  <StatsCard
+                    value={formatCount(stats.uniqueVoters)}
+                    label="Unique Voters"
+                    color="text-primary"
+                    trend={trendText("voters")}
+                  />
+                </div>
+                <div className="flex flex-col sm:flex-row items-center gap-4">
+                  <div className="flex-1 w-full text-left">
+                    <div className="text-sm text-muted-foreground mb-1">
+                      Votes per day, last {stats.dailyVotes.length} days
+                    </div>
+                    <ActivitySparkline dailyVotes={stats.dailyVotes} />
+                  </div>
+                  <ToggleGroup
+                    type="single"
+                    value={trendDays}
+                    onValueChange={(value) => value && setTrendDays(value)}
+                  >
+                    {stats.trends.map((entry) => (
+                      <ToggleGroupItem key={entry.days} value={String(entry.days)}>
+                        {entry.days}d
+                      </ToggleGroupItem>
+                    ))}
+                  </ToggleGroup>
+                </div>
+              </div>
+            ) : (
+              <p className="text-muted-foreground">Statistics are unavailable right now</p>
+            )}
           </CardContent>
         </Card>
       </section>
@@ -54,9 +124,10 @@ interface StatsCardProps {
   value: string;
   label: string;
   color: string;
+  trend?: string;
 }
 
-const StatsCard: React.FC<StatsCardProps> = ({ value, label, color }) => {
+const StatsCard: React.FC<StatsCardProps> = ({ value, label, color, trend }) => {
   return (
     <div className="flex flex-col items-center">
       <div className={`text-4xl font-bold font-heading ${color}`}>
@@ -65,8 +136,31 @@ const StatsCard: React.FC<StatsCardProps> = ({ value, label, color }) => {
       <div className="text-muted-foreground">
         {label}
       </div>
+      {trend && (
+        <div className="text-xs text-muted-foreground mt-1">
+          {trend}
+        </div>
+      )}
     </div>
   );
 };
 
+const ActivitySparkline: React.FC<{ dailyVotes: PlatformStats["dailyVotes"] }> = ({ dailyVotes }) => {
+  return (
+    <ChartContainer config={sparklineConfig} className="h-16 w-full aspect-auto">
+      <AreaChart data={dailyVotes} margin={{ top: 4, bottom: 4, left: 0, right: 0 }}>
+        <XAxis dataKey="date" hide />
+        <ChartTooltip content={<ChartTooltipContent />} />
+        <Area
+          dataKey="votes"
+          type="monotone"
+          stroke="var(--color-votes)"
+          fill="var(--color-votes)"
+          fillOpacity={0.2}
+        />
+      </AreaChart>
+    </ChartContainer>
+  );
+};
+
 export default Home;
@@ -0,0 +1,247 @@
+import React from "react";
+import { Link, useParams } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ArrowLeft, Link as LinkIcon } from "lucide-react";
+import { type ProposalWithDetails, type Vote } from "@shared/schema";
+import { formatTokenAmount } from "@shared/token-amount";
+import { getExplorerUrl } from "@shared/networks";
+import { useWallet, shortenAddress } from "@/lib/web3.tsx";
+import { useToast } from "@/hooks/use-toast";
+import { useProposalVote } from "@/hooks/use-proposal-vote";
+import { formatProposalDate, getOutcome } from "@/lib/proposals";
+import ProposalDetails from "@/components/proposals/proposal-details";
+import LoadMoreButton from "@/components/layout/load-more-button";
+import { usePaginatedList } from "@/hooks/use-paginated-list";
+
+
+interface TimelineEntry {
+  label: string;
+  date: Date;
+}
+
+// Milestones of a proposal that have happened or are scheduled
+const getTimeline = (proposal: ProposalWithDetails): TimelineEntry[] => {
+  const entries: TimelineEntry[] = [
+    { label: "Created", date: new Date(proposal.createdAt) },
+    { label: "Voting starts", date: new Date(proposal.startDate) },
+    { label: "Voting ends", date: new Date(proposal.endDate) },
+  ];
+  if (proposal.finalizedAt) {
+    entries.push({ label: "Result recorded", date: new Date(proposal.finalizedAt) });
+  }
+  if (proposal.eta) {
+    entries.push({ label: "Executable from", date: new Date(proposal.eta) });
+  }
+  return entries.sort((a, b) => a.date.getTime() - b.date.getTime());
+};
+
+const voteLabel = (proposal: ProposalWithDetails, vote: Vote) => {
+  if (vote.voteDirection === "option") {
+    return proposal.options.find((option) => option.id === vote.optionId)?.label ?? "Option";
+  }
+  return vote.voteDirection.charAt(0).toUpperCase() + vote.voteDirection.slice(1);
+};
+
+const ProposalView: React.FC<{ proposal: ProposalWithDetails }> = ({ proposal }) => {
+  const { account } = useWallet();
+  const { toast } = useToast();
+
+  const { data: voteCheck } = useQuery<{ hasVoted: boolean }>({
+    queryKey: [`/api/votes/check/${proposal.id}/${account}`],
+    enabled: !!account,
+  });
+  const { handleVote, isVoting, hasVoted } = useProposalVote(proposal, !!voteCheck?.hasVoted);
+
+  // Latest votes first; live updates add new ones as they are cast
+  const votes = usePaginatedList<Vote>([`/api/votes/proposal/${proposal.id}`]);
+
+  const now = new Date();
+  const isActive = proposal.status === "active" && new Date(proposal.endDate) > now;
+  const outcome = getOutcome(proposal);
+  const isExecuted = proposal.executedBlock != null;
+
+  const copyLink = () => {
+    navigator.clipboard.writeText(window.location.href);
+    toast({
+      title: "Link copied!",
+      description: "Share it to point others to this proposal.",
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <div className="flex flex-wrap items-center gap-2 mb-2">
+            <Badge variant={isActive ? "secondary" : "outline"}>
+              {isActive ? "Active" : "Completed"}
+            </Badge>
+            {!isActive && (
+              <Badge variant={outcome.passed ? "default" : "destructive"}>
+                {outcome.label}
+              </Badge>
+            )}
+            {isExecuted && <Badge variant="outline">Executed</Badge>}
+          </div>
+          <h1 className="text-3xl font-bold font-heading">{proposal.title}</h1>
+          <div className="text-sm text-muted-foreground mt-1">
+            By{" "}
+            <a
+              href={getExplorerUrl(proposal.chainId, "address", proposal.creatorAddress)}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-primary hover:underline"
+            >
+              {shortenAddress(proposal.creatorAddress)}
+            </a>{" "}
+            · Using <span className="font-medium">{proposal.tokenSymbol}</span>
+          </div>
+        </div>
+        <Button variant="outline" className="text-foreground" onClick={copyLink}>
+          <LinkIcon className="h-4 w-4 mr-2" />
+          Copy link
+        </Button>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        <Card className="lg:col-span-2">
+          <CardContent className="p-6">
+            <ProposalDetails
+              proposal={proposal}
+              hasVoted={hasVoted}
+              onVote={handleVote}
+              isVoting={isVoting}
+            />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Timeline</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ol className="space-y-4 border-l border-border pl-4">
+              {getTimeline(proposal).map((entry) => (
+                <li key={entry.label} className="relative">
+                  <span
+                    className={`absolute -left-[21px] top-1.5 h-2.5 w-2.5 rounded-full ${
+                      entry.date <= now ? "bg-primary" : "bg-muted-foreground/40"
+                    }`}
+                  />
+                  <div className="text-sm font-medium">{entry.label}</div>
+                  <div className="text-sm text-muted-foreground">{formatProposalDate(entry.date)}</div>
+                </li>
+              ))}
+            </ol>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Voters</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {votes.isLoading ? (
+            <Skeleton className="h-32" />
+          ) : votes.items && votes.items.length > 0 ? (
+            <>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Voter</TableHead>
+                    <TableHead>Vote</TableHead>
+                    <TableHead className="text-right">Weight</TableHead>
+                    <TableHead className="text-right">Time</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {votes.items.map((vote) => (
+                    <TableRow key={vote.id}>
+                      <TableCell>
+                        <a
+                          href={getExplorerUrl(proposal.chainId, "address", vote.voterAddress)}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="font-mono text-primary hover:underline"
+                        >
+                          {shortenAddress(vote.voterAddress)}
+                        </a>
+                        {account && vote.voterAddress.toLowerCase() === account.toLowerCase() && (
+                          <Badge variant="outline" className="ml-2">You</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>{voteLabel(proposal, vote)}</TableCell>
+                      <TableCell className="text-right">
+                        {formatTokenAmount(vote.voteAmount, proposal.tokenDecimals)} {proposal.tokenSymbol}
+                      </TableCell>
+                      <TableCell className="text-right text-muted-foreground">
+                        {formatProposalDate(new Date(vote.timestamp))}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              <LoadMoreButton hasMore={votes.hasMore} isLoadingMore={votes.isLoadingMore} onLoadMore={votes.loadMore} />
+            </>
+          ) : (
+            <p className="text-muted-foreground">No votes yet</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+const ProposalPage: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+
+  const { data: proposal, isLoading, error } = useQuery<ProposalWithDetails>({
+    queryKey: [`/api/proposals/${id}`],
+    retry: false,
+  });
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <section className="py-6">
+        <Link href="/proposals">
+          <div className="cursor-pointer">
+            <Button variant="link" className="text-primary flex items-center px-0 mb-4">
+              <ArrowLeft className="w-4 h-4 mr-1" />
+              All proposals
+            </Button>
+          </div>
+        </Link>
+
+        {isLoading ? (
+          <div className="space-y-6">
+            <Skeleton className="h-16" />
+            <Skeleton className="h-96" />
+          </div>
+        ) : proposal ? (
+          <ProposalView proposal={proposal} />
+        ) : (
+          <div className="text-center py-12">
+            <p className="text-muted-foreground">
+              {error?.message.startsWith("404") ? "Proposal not found" : "Failed to load proposal"}
+            </p>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default ProposalPage;
@@ -5,8 +5,10 @@ import { Button } from "@/components/ui/button";
 import { Plus } from "lucide-react";
 import ProposalCard from "@/components/proposals/proposal-card";
 import ProposalFilter from "@/components/proposals/proposal-filter";
+import LoadMoreButton from "@/components/layout/load-more-button";
+import { usePaginatedList } from "@/hooks/use-paginated-list";
 import { useWallet } from "@/lib/web3.tsx";
-import { type Proposal } from "@shared/schema";
+import { type ProposalWithDetails } from "@shared/schema";
 import { Skeleton } from "@/components/ui/skeleton";
 
 const Proposals: React.FC = () => {
@@ -16,10 +18,9 @@ const Proposals: React.FC = () => {
   const [votedProposals, setVotedProposals] = useState<number[]>([]);
 
   // Fetch proposals based on filter
-  const { data: proposals, isLoading } = useQuery({
-    queryKey: activeFilter === "active" ? ["/api/proposals/active"] : ["/api/proposals"],
-    enabled: true,
-  });
+  const { items: proposals, isLoading, hasMore, isLoadingMore, loadMore } = usePaginatedList<ProposalWithDetails>(
+    activeFilter === "active" ? ["/api/proposals/active"] : ["/api/proposals"]
+  );
 
   // Fetch user votes
   const { data: userVotes, isLoading: isLoadingVotes } = useQuery({
@@ -107,13 +108,14 @@ const Proposals: React.FC = () => {
           </div>
         ) : filteredProposals.length > 0 ? (
           <div className="space-y-6">
-            {filteredProposals.map((proposal: Proposal) => (
+            {filteredProposals.map((proposal: ProposalWithDetails) => (
               <ProposalCard
                 key={proposal.id}
                 proposal={proposal}
                 hasVoted={hasUserVoted(proposal.id)}
               />
             ))}
+            <LoadMoreButton hasMore={hasMore} isLoadingMore={isLoadingMore} onLoadMore={loadMore} />
           </div>
         ) : (
           <div className="text-center py-12">
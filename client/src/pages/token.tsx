@@ -0,0 +1,312 @@
+import React from "react";
+import { Link, useParams } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ArrowLeft } from "lucide-react";
+import {
+  type ProposalWithDetails,
+  type TokenBalance,
+  type TokenWithDetails,
+  type VestingSchedule,
+} from "@shared/schema";
+import { formatTokenAmount } from "@shared/token-amount";
+import { getExplorerUrl } from "@shared/networks";
+import { useWallet, shortenAddress } from "@/lib/web3.tsx";
+import { formatProposalDate, getOutcome } from "@/lib/proposals";
+import { getHolderShare, getSupplyHistory, isMint } from "@/lib/tokens";
+import SupplyHistoryChart from "@/components/tokens/supply-history-chart";
+import HolderDistributionChart from "@/components/tokens/holder-distribution-chart";
+import LoadMoreButton from "@/components/layout/load-more-button";
+import { usePaginatedList } from "@/hooks/use-paginated-list";
+import VestingScheduleCard from "@/components/tokens/vesting-schedule-card";
+
+const AddressLink: React.FC<{ address: string; chainId: number }> = ({ address, chainId }) => (
+  <a
+    href={getExplorerUrl(chainId, "address", address)}
+    target="_blank"
+    rel="noopener noreferrer"
+    className="font-mono text-primary hover:underline"
+  >
+    {shortenAddress(address)}
+  </a>
+);
+
+const TokenView: React.FC<{ token: TokenWithDetails }> = ({ token }) => {
+  const { account } = useWallet();
+
+  // Largest holders first, from indexed Transfer events
+  const holders = usePaginatedList<TokenBalance>([`/api/tokens/${token.contractAddress}/holders`]);
+  const proposals = usePaginatedList<ProposalWithDetails>([`/api/proposals/token/${token.contractAddress}`]);
+  const vestingSchedules = usePaginatedList<VestingSchedule>([`/api/vesting/token/${token.contractAddress}`]);
+
+  // Indexed mints and burns give the live supply; fall back to the supply at deployment
+  const history = getSupplyHistory(token.supplyChanges);
+  const supply = history.length > 0 ? history[history.length - 1].supply : token.totalSupply;
+  const format = (value: string) => formatTokenAmount(value, token.decimals);
+  const now = new Date();
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <div className="flex flex-wrap items-center gap-2 mb-2">
+          <Badge className="bg-primary/10 text-primary hover:bg-primary/20">ERC20</Badge>
+          <Badge variant={token.transferable ? "secondary" : "outline"}>
+            {token.transferable ? "Transferable" : "Non-transferable"}
+          </Badge>
+        </div>
+        <h1 className="text-3xl font-bold font-heading">
+          {token.name} <span className="text-muted-foreground">{token.symbol}</span>
+        </h1>
+        <div className="text-sm text-muted-foreground mt-1">
+          Contract <AddressLink address={token.contractAddress} chainId={token.chainId} /> · Created by{" "}
+          <AddressLink address={token.creatorAddress} chainId={token.chainId} />
+        </div>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-3">
+        <Card>
+          <CardContent className="p-6">
+            <div className="text-sm text-muted-foreground">Total Supply</div>
+            <div className="text-2xl font-bold">{format(supply)}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-6">
+            <div className="text-sm text-muted-foreground">Holders</div>
+            <div className="text-2xl font-bold">{token.holderCount}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-6">
+            <div className="text-sm text-muted-foreground">Decimals</div>
+            <div className="text-2xl font-bold">{token.decimals}</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Supply History</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <SupplyHistoryChart supplyChanges={token.supplyChanges} decimals={token.decimals} />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Holder Distribution</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {holders.isLoading ? (
+              <Skeleton className="h-64" />
+            ) : (
+              <HolderDistributionChart holders={holders.items ?? []} supply={supply} decimals={token.decimals} />
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Holders</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {holders.isLoading ? (
+            <Skeleton className="h-32" />
+          ) : holders.items && holders.items.length > 0 ? (
+            <>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Holder</TableHead>
+                    <TableHead className="text-right">Balance</TableHead>
+                    <TableHead className="text-right">Share</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {holders.items.map((holder) => (
+                    <TableRow key={holder.id}>
+                      <TableCell>
+                        <AddressLink address={holder.holderAddress} chainId={token.chainId} />
+                        {account && holder.holderAddress.toLowerCase() === account.toLowerCase() && (
+                          <Badge variant="outline" className="ml-2">You</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {format(holder.balance)} {token.symbol}
+                      </TableCell>
+                      <TableCell className="text-right text-muted-foreground">
+                        {getHolderShare(holder.balance, supply)}%
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              <LoadMoreButton hasMore={holders.hasMore} isLoadingMore={holders.isLoadingMore} onLoadMore={holders.loadMore} />
+            </>
+          ) : (
+            <p className="text-muted-foreground">No holders yet</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Mint History</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {token.supplyChanges.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Event</TableHead>
+                  <TableHead>Account</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead className="text-right">Time</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {[...token.supplyChanges].reverse().map((transfer) => (
+                  <TableRow key={transfer.id}>
+                    <TableCell>
+                      <a
+                        href={getExplorerUrl(token.chainId, "tx", transfer.transactionHash)}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-primary hover:underline"
+                      >
+                        {isMint(transfer) ? "Mint" : "Burn"}
+                      </a>
+                    </TableCell>
+                    <TableCell>
+                      <AddressLink
+                        address={isMint(transfer) ? transfer.toAddress : transfer.fromAddress}
+                        chainId={token.chainId}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {format(transfer.value)} {token.symbol}
+                    </TableCell>
+                    <TableCell className="text-right text-muted-foreground">
+                      {formatProposalDate(new Date(transfer.blockTimestamp))}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <p className="text-muted-foreground">No mints indexed yet</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Proposals</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {proposals.isLoading ? (
+            <Skeleton className="h-32" />
+          ) : proposals.items && proposals.items.length > 0 ? (
+            <>
+              <ul className="divide-y divide-border">
+                {proposals.items.map((proposal) => {
+                  const isActive = proposal.status === "active" && new Date(proposal.endDate) > now;
+                  const outcome = getOutcome(proposal);
+                  return (
+                    <li key={proposal.id} className="flex flex-wrap items-center justify-between gap-2 py-3">
+                      <div>
+                        <Link href={`/proposals/${proposal.id}`} className="font-medium hover:text-primary">
+                          {proposal.title}
+                        </Link>
+                        <div className="text-sm text-muted-foreground">
+                          {isActive ? "Ends" : "Ended"} {formatProposalDate(new Date(proposal.endDate))}
+                        </div>
+                      </div>
+                      {isActive ? (
+                        <Badge variant="secondary">Active</Badge>
+                      ) : (
+                        <Badge variant={outcome.passed ? "default" : "destructive"}>{outcome.label}</Badge>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+              <LoadMoreButton hasMore={proposals.hasMore} isLoadingMore={proposals.isLoadingMore} onLoadMore={proposals.loadMore} />
+            </>
+          ) : (
+            <p className="text-muted-foreground">No proposals use this token yet</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {vestingSchedules.items && vestingSchedules.items.length > 0 && (
+        <div className="space-y-4">
+          <h2 className="text-lg font-semibold">Vesting Schedules</h2>
+          {vestingSchedules.items.map((schedule) => (
+            <VestingScheduleCard key={schedule.id} schedule={schedule} />
+          ))}
+          <LoadMoreButton
+            hasMore={vestingSchedules.hasMore}
+            isLoadingMore={vestingSchedules.isLoadingMore}
+            onLoadMore={vestingSchedules.loadMore}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+const TokenPage: React.FC = () => {
+  const { address } = useParams<{ address: string }>();
+
+  const { data: token, isLoading, error } = useQuery<TokenWithDetails>({
+    queryKey: [`/api/tokens/${address}`],
+    retry: false,
+  });
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <section className="py-6">
+        <Link href="/tokens">
+          <div className="cursor-pointer">
+            <Button variant="link" className="text-primary flex items-center px-0 mb-4">
+              <ArrowLeft className="w-4 h-4 mr-1" />
+              All tokens
+            </Button>
+          </div>
+        </Link>
+
+        {isLoading ? (
+          <div className="space-y-6">
+            <Skeleton className="h-16" />
+            <Skeleton className="h-96" />
+          </div>
+        ) : token ? (
+          <TokenView token={token} />
+        ) : (
+          <div className="text-center py-12">
+            <p className="text-muted-foreground">
+              {error?.message.startsWith("404") ? "Token not found" : "Failed to load token"}
+            </p>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default TokenPage;
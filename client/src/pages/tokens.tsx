@@ -1,9 +1,10 @@
 import React, { useEffect, useState } from "react";
 import { Link } from "wouter";
-import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Plus } from "lucide-react";
 import TokenCard from "@/components/tokens/token-card";
+import LoadMoreButton from "@/components/layout/load-more-button";
+import { usePaginatedList } from "@/hooks/use-paginated-list";
 import { useWallet } from "@/lib/web3.tsx";
 import { type Token } from "@shared/schema";
 import { getTokenBalance } from "@/lib/contracts";
@@ -15,10 +16,10 @@ const Tokens: React.FC = () => {
   const [isLoadingBalances, setIsLoadingBalances] = useState(false);
 
   // Fetch tokens created by the connected wallet
-  const { data: tokens, isLoading } = useQuery({
-    queryKey: account ? ["/api/tokens/creator", account] : ["/api/tokens"],
-    enabled: isConnected,
-  });
+  const { items: tokens, isLoading, hasMore, isLoadingMore, loadMore } = usePaginatedList<Token>(
+    account ? ["/api/tokens/creator", account] : ["/api/tokens"],
+    { enabled: isConnected }
+  );
 
   // Load token balances
   useEffect(() => {
@@ -85,16 +86,19 @@ const Tokens: React.FC = () => {
             ))}
           </div>
         ) : tokens && Array.isArray(tokens) && tokens.length > 0 ? (
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {(tokens as Token[]).map((token: Token) => (
-              <TokenCard
-                key={token.id}
-                token={token}
-                balance={tokenBalances[token.contractAddress] || "0"}
-                // Holders count is now calculated in the TokenCard component
-              />
-            ))}
-          </div>
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {(tokens as Token[]).map((token: Token) => (
+                <TokenCard
+                  key={token.id}
+                  token={token}
+                  balance={tokenBalances[token.contractAddress] || "0"}
+                  // Holders count is now calculated in the TokenCard component
+                />
+              ))}
+            </div>
+            <LoadMoreButton hasMore={hasMore} isLoadingMore={isLoadingMore} onLoadMore={loadMore} />
+          </>
         ) : (
           <div className="text-center py-12">
             <p className="text-muted-foreground mb-4">
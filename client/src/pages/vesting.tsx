@@ -0,0 +1,59 @@
+import React from "react";
+import { Skeleton } from "@/components/ui/skeleton";
+import { type VestingSchedule } from "@shared/schema";
+import { useWallet } from "@/lib/web3.tsx";
+import VestingScheduleCard from "@/components/tokens/vesting-schedule-card";
+import LoadMoreButton from "@/components/layout/load-more-button";
+import { usePaginatedList } from "@/hooks/use-paginated-list";
+
+const Vesting: React.FC = () => {
+  const { account, isConnected } = useWallet();
+
+  // Schedules paying out to the connected wallet
+  const { items: schedules, isLoading, hasMore, isLoadingMore, loadMore } = usePaginatedList<VestingSchedule>(
+    [`/api/vesting/beneficiary/${account}`],
+    { enabled: !!account }
+  );
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <section className="py-12">
+        <div className="mb-8">
+          <h2 className="text-3xl font-bold font-heading">My Vesting</h2>
+          <p className="text-muted-foreground mt-1">
+            Tokens locked for you unlock after the cliff and then release linearly until the end date.
+          </p>
+        </div>
+
+        {!isConnected ? (
+          <div className="text-center py-12">
+            <p className="text-muted-foreground mb-4">
+              Connect your wallet to view your vesting schedules
+            </p>
+          </div>
+        ) : isLoading ? (
+          <div className="space-y-6">
+            {[1, 2].map((i) => (
+              <Skeleton key={i} className="h-48" />
+            ))}
+          </div>
+        ) : schedules && schedules.length > 0 ? (
+          <div className="space-y-6">
+            {schedules.map((schedule) => (
+              <VestingScheduleCard key={schedule.id} schedule={schedule} />
+            ))}
+            <LoadMoreButton hasMore={hasMore} isLoadingMore={isLoadingMore} onLoadMore={loadMore} />
+          </div>
+        ) : (
+          <div className="text-center py-12">
+            <p className="text-muted-foreground mb-4">
+              No tokens are vesting to this wallet
+            </p>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default Vesting;
@@ -0,0 +1,46 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+
+/**
+ * @title BatchDistributor
+ * @dev Sends an ERC20 token from the caller to many recipients in one
+ * transaction. The caller approves this contract for the total first.
+ * Tokens only ever move out of msg.sender's balance, so an allowance left
+ * here cannot be spent by anyone else (unlike approving Multicall3).
+ */
+contract BatchDistributor {
+    using SafeERC20 for IERC20;
+
+    // Event emitted after every batch
+    event Distributed(
+        address indexed token,
+        address indexed sender,
+        uint256 recipientCount,
+        uint256 totalAmount
+    );
+
+    /**
+     * @dev Transfers amounts[i] of token from the caller to recipients[i]
+     * @param token The token to distribute
+     * @param recipients The addresses receiving tokens
+     * @param amounts The amount for each recipient, in base units
+     */
+    function distribute(
+        IERC20 token,
+        address[] calldata recipients,
+        uint256[] calldata amounts
+    ) external {
+        require(recipients.length == amounts.length, "Recipients and amounts differ in length");
+
+        uint256 total;
+        for (uint256 i = 0; i < recipients.length; i++) {
+            token.safeTransferFrom(msg.sender, recipients[i], amounts[i]);
+            total += amounts[i];
+        }
+
+        emit Distributed(address(token), msg.sender, recipients.length, total);
+    }
+}
@@ -2,15 +2,25 @@
 pragma solidity ^0.8.20;
 
 import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/ERC20Votes.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/utils/Nonces.sol";
 
 /**
  * @title CustomToken
- * @dev ERC20 token with additional governance features
+ * @dev ERC20 token with additional governance features. Voting power is
+ * checkpointed per block (ERC20Votes) so proposals can use a snapshot.
+ * Accounts start out delegated to themselves when they first receive tokens;
+ * contracts do not, and delegate through their own logic if they can.
+ * Holders can hand their voting power to a representative without moving
+ * tokens via `delegate`, or gaslessly via a signed `delegateBySig`.
  */
-contract CustomToken is ERC20, Ownable {
+contract CustomToken is ERC20, ERC20Permit, ERC20Votes, Ownable {
     uint8 private _decimals;
     bool public transferable;
+    // Accounts that have received tokens before, so self-delegation happens only once
+    mapping(address => bool) private _received;
 
     /**
      * @dev Constructor for creating a new token
@@ -28,7 +38,7 @@ contract CustomToken is ERC20, Ownable {
         uint8 tokenDecimals,
         bool isTransferable,
         address creator
-    ) ERC20(name, symbol) Ownable(creator) {
+    ) ERC20(name, symbol) ERC20Permit(name) Ownable(creator) {
         _decimals = tokenDecimals;
         transferable = isTransferable;
         _mint(creator, initialSupply);
@@ -59,13 +69,29 @@ contract CustomToken is ERC20, Ownable {
     }
 
     /**
-     * @dev Hook that is called before any transfer
+     * @dev Hook that is called on every transfer, mint and burn
      */
-    function _update(address from, address to, uint256 value) internal override {
+    function _update(address from, address to, uint256 value) internal override(ERC20, ERC20Votes) {
         // Allow minting by the owner even if transfers are disabled
         if (from != address(0) && !transferable) {
             revert("Token transfers are disabled");
         }
         super._update(from, to, value);
+
+        // Accounts vote with their own balance from their first receipt until they delegate
+        // elsewhere. Contracts are left undelegated, as they may have no way to change it.
+        if (to != address(0) && !_received[to]) {
+            _received[to] = true;
+            if (to.code.length == 0 && delegates(to) == address(0)) {
+                _delegate(to, to);
+            }
+        }
+    }
+
+    /**
+     * @dev Returns the current nonce of an owner, shared by permit and delegateBySig
+     */
+    function nonces(address owner) public view override(ERC20Permit, Nonces) returns (uint256) {
+        return super.nonces(owner);
     }
 }
@@ -2,10 +2,16 @@
 pragma solidity ^0.8.20;
 
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/governance/utils/IVotes.sol";
 
 /**
  * @title Governance
- * @dev Contract for creating and managing governance proposals and votes
+ * @dev Contract for creating and managing governance proposals and votes.
+ * Proposals can carry actions (target, value, calldata) that are called by
+ * this contract once the proposal has passed and sat in the timelock. One
+ * contract serves every token, so an action may only call the token the
+ * proposal votes with and cannot send native currency; otherwise holders of
+ * one token could act on another token or on funds held for it.
  */
 contract Governance {
     struct Proposal {
@@ -16,18 +22,39 @@ contract Governance {
         address creator;
         uint256 startTime;
         uint256 endTime;
+        uint256 snapshotBlock;
         uint256 quorum;
         uint256 votesFor;
         uint256 votesAgainst;
+        uint256 votesAbstain;
+        uint256 eta; // earliest execution time once queued, 0 before
         bool executed;
     }
     
+    struct Action {
+        address target;
+        uint256 value;
+        bytes data;
+    }
+    
     struct Vote {
         bool voted;
-        bool support;
+        uint8 support;
         uint256 weight;
     }
     
+    // Vote choices, in the order used by GovernorBravo
+    uint8 public constant VOTE_AGAINST = 0;
+    uint8 public constant VOTE_FOR = 1;
+    uint8 public constant VOTE_ABSTAIN = 2;
+    
+    // Upper bounds for the timelock and the number of actions per proposal
+    uint256 public constant MAX_TIMELOCK_DELAY = 30 days;
+    uint256 public constant MAX_ACTIONS = 10;
+    
+    // Seconds a passed proposal waits in the timelock before it can be executed
+    uint256 public timelockDelay;
+    
     // Counter for proposal IDs
     uint256 public proposalCount;
     
@@ -37,6 +64,9 @@ contract Governance {
     // Mapping of proposal ID to voter address to Vote
     mapping(uint256 => mapping(address => Vote)) private votes;
     
+    // Mapping of proposal ID to the calls made when it is executed
+    mapping(uint256 => Action[]) private actions;
+    
     // Events
     event ProposalCreated(
         uint256 indexed proposalId,
@@ -45,21 +75,35 @@ contract Governance {
         address indexed creator,
         uint256 startTime,
         uint256 endTime,
+        uint256 snapshotBlock,
         uint256 quorum
     );
     
     event VoteCast(
         uint256 indexed proposalId,
         address indexed voter,
-        bool support,
+        uint8 support,
         uint256 weight
     );
     
+    event ProposalQueued(
+        uint256 indexed proposalId,
+        uint256 eta
+    );
+    
     event ProposalExecuted(
         uint256 indexed proposalId,
         bool passed
     );
     
+    /**
+     * @param delay The timelock delay in seconds, shared by every token and fixed at deployment
+     */
+    constructor(uint256 delay) {
+        require(delay <= MAX_TIMELOCK_DELAY, "Delay exceeds maximum");
+        timelockDelay = delay;
+    }
+    
     /**
      * @dev Creates a new proposal
      * @param title The title of the proposal
@@ -67,6 +111,9 @@ contract Governance {
      * @param tokenAddress The address of the token to use for voting
      * @param duration The duration of the proposal in seconds
      * @param quorumPercent The percentage of total supply required for quorum (e.g., 10 for 10%)
+     * @param targets The contracts called when the proposal is executed; each must be tokenAddress
+     * @param values The native token amounts sent with each call; each must be 0
+     * @param calldatas The encoded function calls
      * @return The ID of the new proposal
      */
     function createProposal(
@@ -74,17 +121,28 @@ contract Governance {
         string memory description,
         address tokenAddress,
         uint256 duration,
-        uint256 quorumPercent
+        uint256 quorumPercent,
+        address[] memory targets,
+        uint256[] memory values,
+        bytes[] memory calldatas
     ) public returns (uint256) {
         require(tokenAddress != address(0), "Invalid token address");
         require(quorumPercent > 0 && quorumPercent <= 100, "Quorum must be between 1 and 100");
         require(duration > 0, "Duration must be positive");
+        require(
+            targets.length == values.length && targets.length == calldatas.length,
+            "Action length mismatch"
+        );
+        require(targets.length <= MAX_ACTIONS, "Too many actions");
         
         IERC20 token = IERC20(tokenAddress);
         require(token.balanceOf(msg.sender) > 0, "Creator must hold some tokens");
         
-        // Calculate quorum value (percentage of total supply)
-        uint256 totalSupply = token.totalSupply();
+        // Voting power is read at the previous block, which is final for this transaction
+        uint256 snapshotBlock = block.number - 1;
+        
+        // Calculate quorum value (percentage of total supply at the snapshot)
+        uint256 totalSupply = IVotes(tokenAddress).getPastTotalSupply(snapshotBlock);
         uint256 quorumValue = (totalSupply * quorumPercent) / 100;
         
         // Increment proposal counter
@@ -99,41 +157,70 @@ contract Governance {
             creator: msg.sender,
             startTime: block.timestamp,
             endTime: block.timestamp + duration,
+            snapshotBlock: snapshotBlock,
             quorum: quorumValue,
             votesFor: 0,
             votesAgainst: 0,
+            votesAbstain: 0,
+            eta: 0,
             executed: false
         });
         
+        _storeActions(proposalCount, tokenAddress, targets, values, calldatas);
+        
         // Emit event
+        Proposal storage proposal = proposals[proposalCount];
         emit ProposalCreated(
-            proposalCount,
-            title,
-            tokenAddress,
-            msg.sender,
-            block.timestamp,
-            block.timestamp + duration,
-            quorumValue
+            proposal.id,
+            proposal.title,
+            proposal.tokenAddress,
+            proposal.creator,
+            proposal.startTime,
+            proposal.endTime,
+            proposal.snapshotBlock,
+            proposal.quorum
         );
         
         return proposalCount;
     }
     
+    /**
+     * @dev Stores the actions of a new proposal; split out of createProposal to keep its stack small
+     */
+    function _storeActions(
+        uint256 proposalId,
+        address tokenAddress,
+        address[] memory targets,
+        uint256[] memory values,
+        bytes[] memory calldatas
+    ) private {
+        for (uint256 i = 0; i < targets.length; i++) {
+            require(targets[i] == tokenAddress, "Actions can only call the proposal's token");
+            require(values[i] == 0, "Actions cannot send native currency");
+            actions[proposalId].push(Action({
+                target: targets[i],
+                value: values[i],
+                data: calldatas[i]
+            }));
+        }
+    }
+    
     /**
      * @dev Casts a vote on a proposal
      * @param proposalId The ID of the proposal to vote on
-     * @param support Whether to support the proposal
+     * @param support The vote choice: 0 = against, 1 = for, 2 = abstain
      */
-    function castVote(uint256 proposalId, bool support) public {
+    function castVote(uint256 proposalId, uint8 support) public {
         Proposal storage proposal = proposals[proposalId];
         require(proposal.id == proposalId, "Proposal does not exist");
         require(block.timestamp <= proposal.endTime, "Voting period ended");
         require(!proposal.executed, "Proposal already executed");
         require(!votes[proposalId][msg.sender].voted, "Already voted");
+        require(support <= VOTE_ABSTAIN, "Invalid vote type");
         
-        // Get token balance of voter
-        IERC20 token = IERC20(proposal.tokenAddress);
-        uint256 weight = token.balanceOf(msg.sender);
+        // Get voting power of voter at the proposal snapshot, so tokens
+        // moved after the proposal was created cannot vote twice
+        uint256 weight = IVotes(proposal.tokenAddress).getPastVotes(msg.sender, proposal.snapshotBlock);
         require(weight > 0, "Must have voting power");
         
         // Record vote
@@ -144,10 +231,12 @@ contract Governance {
         });
         
         // Update vote counts
-        if (support) {
+        if (support == VOTE_FOR) {
             proposal.votesFor += weight;
-        } else {
+        } else if (support == VOTE_AGAINST) {
             proposal.votesAgainst += weight;
+        } else {
+            proposal.votesAbstain += weight;
         }
         
         // Emit event
@@ -155,27 +244,57 @@ contract Governance {
     }
     
     /**
-     * @dev Executes a proposal after the voting period ends
-     * @param proposalId The ID of the proposal to execute
+     * @dev Queues a passed proposal in the timelock after the voting period ends
+     * @param proposalId The ID of the proposal to queue
+     * @return The earliest time the proposal can be executed
      */
-    function executeProposal(uint256 proposalId) public {
+    function queueProposal(uint256 proposalId) public returns (uint256) {
         Proposal storage proposal = proposals[proposalId];
         require(proposal.id == proposalId, "Proposal does not exist");
         require(block.timestamp > proposal.endTime, "Voting period not ended");
-        require(!proposal.executed, "Proposal already executed");
+        require(proposal.eta == 0, "Proposal already queued");
         
-        // Check if quorum is reached
-        uint256 totalVotes = proposal.votesFor + proposal.votesAgainst;
+        // Check if quorum is reached; abstentions count toward quorum but not the outcome
+        uint256 totalVotes = proposal.votesFor + proposal.votesAgainst + proposal.votesAbstain;
         require(totalVotes >= proposal.quorum, "Quorum not reached");
+        require(proposal.votesFor > proposal.votesAgainst, "Proposal did not pass");
+        
+        proposal.eta = block.timestamp + timelockDelay;
+        
+        emit ProposalQueued(proposalId, proposal.eta);
+        
+        return proposal.eta;
+    }
+    
+    /**
+     * @dev Executes the actions of a queued proposal once its timelock has expired
+     * @param proposalId The ID of the proposal to execute
+     */
+    function executeProposal(uint256 proposalId) public {
+        Proposal storage proposal = proposals[proposalId];
+        require(proposal.id == proposalId, "Proposal does not exist");
+        require(proposal.eta != 0, "Proposal not queued");
+        require(block.timestamp >= proposal.eta, "Timelock not expired");
+        require(!proposal.executed, "Proposal already executed");
         
-        // Mark proposal as executed
+        // Mark proposal as executed before any external call
         proposal.executed = true;
         
-        // Determine if proposal passed
-        bool passed = proposal.votesFor > proposal.votesAgainst;
+        Action[] storage proposalActions = actions[proposalId];
+        for (uint256 i = 0; i < proposalActions.length; i++) {
+            (bool success, bytes memory returnData) = proposalActions[i].target.call{
+                value: proposalActions[i].value
+            }(proposalActions[i].data);
+            if (!success) {
+                // Bubble up the revert reason of the failed action
+                assembly {
+                    revert(add(returnData, 32), mload(returnData))
+                }
+            }
+        }
         
         // Emit event
-        emit ProposalExecuted(proposalId, passed);
+        emit ProposalExecuted(proposalId, true);
     }
     
     /**
@@ -193,12 +312,12 @@ contract Governance {
      * @param proposalId The ID of the proposal
      * @param voter The address of the voter
      * @return voted Whether the voter has voted
-     * @return support Whether the voter supported the proposal
+     * @return support The vote choice: 0 = against, 1 = for, 2 = abstain
      * @return weight The voting weight of the voter
      */
     function getVote(uint256 proposalId, address voter) public view returns (
         bool voted,
-        bool support,
+        uint8 support,
         uint256 weight
     ) {
         Vote storage vote = votes[proposalId][voter];
@@ -214,4 +333,28 @@ contract Governance {
         require(proposals[proposalId].id == proposalId, "Proposal does not exist");
         return proposals[proposalId];
     }
+    
+    /**
+     * @dev Gets the actions of a proposal
+     * @param proposalId The ID of the proposal
+     * @return targets The contracts called on execution
+     * @return values The native token amounts sent with each call
+     * @return calldatas The encoded function calls
+     */
+    function getActions(uint256 proposalId) public view returns (
+        address[] memory targets,
+        uint256[] memory values,
+        bytes[] memory calldatas
+    ) {
+        require(proposals[proposalId].id == proposalId, "Proposal does not exist");
+        Action[] storage proposalActions = actions[proposalId];
+        targets = new address[](proposalActions.length);
+        values = new uint256[](proposalActions.length);
+        calldatas = new bytes[](proposalActions.length);
+        for (uint256 i = 0; i < proposalActions.length; i++) {
+            targets[i] = proposalActions[i].target;
+            values[i] = proposalActions[i].value;
+            calldatas[i] = proposalActions[i].data;
+        }
+    }
 }
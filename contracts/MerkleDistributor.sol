@@ -0,0 +1,93 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
+
+/**
+ * @title MerkleDistributor
+ * @dev Airdrop of one token where recipients claim their own allocation, so
+ * the creator only pays to fund the contract. Each leaf of the Merkle tree is
+ * keccak256(abi.encodePacked(index, account, amount)) and pairs are hashed in
+ * sorted order. After endTime the owner can withdraw what was not claimed.
+ */
+contract MerkleDistributor {
+    using SafeERC20 for IERC20;
+
+    address public immutable token;
+    bytes32 public immutable merkleRoot;
+    uint256 public immutable endTime;
+    address public immutable owner;
+
+    // Claimed allocations, one bit per leaf index
+    mapping(uint256 => uint256) private claimedBitMap;
+
+    // Event emitted when an allocation is claimed
+    event Claimed(uint256 index, address indexed account, uint256 amount);
+
+    // Event emitted when the owner withdraws unclaimed tokens
+    event Withdrawn(address indexed to, uint256 amount);
+
+    /**
+     * @dev Constructor for creating a new distributor
+     * @param _token The token being distributed
+     * @param _merkleRoot Root of the allocation tree
+     * @param _endTime Time after which unclaimed tokens can be withdrawn
+     * @param _owner The account allowed to withdraw unclaimed tokens
+     */
+    constructor(address _token, bytes32 _merkleRoot, uint256 _endTime, address _owner) {
+        token = _token;
+        merkleRoot = _merkleRoot;
+        endTime = _endTime;
+        owner = _owner;
+    }
+
+    /**
+     * @dev Returns whether the allocation at index has been claimed
+     * @param index The leaf index of the allocation
+     */
+    function isClaimed(uint256 index) public view returns (bool) {
+        uint256 word = claimedBitMap[index / 256];
+        uint256 mask = 1 << (index % 256);
+        return word & mask == mask;
+    }
+
+    /**
+     * @dev Sends an allocation to its account; anyone may submit the claim
+     * @param index The leaf index of the allocation
+     * @param account The account receiving the tokens
+     * @param amount The allocated amount, in base units
+     * @param merkleProof Sibling hashes from the leaf up to the root
+     */
+    function claim(
+        uint256 index,
+        address account,
+        uint256 amount,
+        bytes32[] calldata merkleProof
+    ) external {
+        require(block.timestamp <= endTime, "Airdrop has ended");
+        require(!isClaimed(index), "Allocation already claimed");
+
+        bytes32 leaf = keccak256(abi.encodePacked(index, account, amount));
+        require(MerkleProof.verifyCalldata(merkleProof, merkleRoot, leaf), "Invalid proof");
+
+        claimedBitMap[index / 256] |= 1 << (index % 256);
+        IERC20(token).safeTransfer(account, amount);
+
+        emit Claimed(index, account, amount);
+    }
+
+    /**
+     * @dev Sends the unclaimed balance to the owner once the airdrop has ended
+     */
+    function withdraw() external {
+        require(msg.sender == owner, "Only the owner can withdraw");
+        require(block.timestamp > endTime, "Airdrop has not ended");
+
+        uint256 amount = IERC20(token).balanceOf(address(this));
+        IERC20(token).safeTransfer(owner, amount);
+
+        emit Withdrawn(owner, amount);
+    }
+}
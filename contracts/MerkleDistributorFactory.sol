@@ -0,0 +1,50 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "./MerkleDistributor.sol";
+
+/**
+ * @title MerkleDistributorFactory
+ * @dev Deploys a funded MerkleDistributor per airdrop. The caller approves
+ * this contract for the airdrop total first; tokens only ever move out of
+ * msg.sender's balance.
+ */
+contract MerkleDistributorFactory {
+    using SafeERC20 for IERC20;
+
+    // Event emitted when a new distributor is created
+    event DistributorCreated(
+        address indexed distributor,
+        address indexed token,
+        address indexed creator,
+        bytes32 merkleRoot,
+        uint256 totalAmount,
+        uint256 endTime
+    );
+
+    /**
+     * @dev Creates a distributor and funds it from the caller
+     * @param token The token being distributed
+     * @param merkleRoot Root of the allocation tree
+     * @param totalAmount Sum of all allocations, in base units
+     * @param endTime Time after which the caller can withdraw unclaimed tokens
+     * @return The address of the new distributor
+     */
+    function createDistributor(
+        address token,
+        bytes32 merkleRoot,
+        uint256 totalAmount,
+        uint256 endTime
+    ) external returns (address) {
+        require(endTime > block.timestamp, "End time must be in the future");
+
+        MerkleDistributor distributor = new MerkleDistributor(token, merkleRoot, endTime, msg.sender);
+        IERC20(token).safeTransferFrom(msg.sender, address(distributor), totalAmount);
+
+        emit DistributorCreated(address(distributor), token, msg.sender, merkleRoot, totalAmount, endTime);
+
+        return address(distributor);
+    }
+}
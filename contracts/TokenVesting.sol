@@ -0,0 +1,117 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+
+/**
+ * @title TokenVesting
+ * @dev Holds one beneficiary's allocation of a token and releases it
+ * linearly from `start` over `duration`, with nothing vested before the
+ * cliff. If revocable, the owner can revoke the schedule: what has vested
+ * stays for the beneficiary and the rest returns to the owner.
+ */
+contract TokenVesting {
+    using SafeERC20 for IERC20;
+
+    address public immutable token;
+    address public immutable beneficiary;
+    address public immutable owner;
+    uint64 public immutable start;
+    uint64 public immutable cliffDuration;
+    uint64 public immutable duration;
+    bool public immutable revocable;
+
+    bool public revoked;
+    uint256 public released;
+
+    // Event emitted when vested tokens are sent to the beneficiary
+    event Released(address indexed beneficiary, uint256 amount);
+
+    // Event emitted when the owner revokes the schedule
+    event Revoked(uint256 refund);
+
+    /**
+     * @dev Constructor for creating a new vesting schedule
+     * @param _token The token being vested
+     * @param _beneficiary The account receiving vested tokens
+     * @param _owner The account allowed to revoke the schedule
+     * @param _start Unix time vesting starts from
+     * @param _cliffDuration Seconds after start before anything vests
+     * @param _duration Seconds after start until everything has vested
+     * @param _revocable Whether the owner can revoke the schedule
+     */
+    constructor(
+        address _token,
+        address _beneficiary,
+        address _owner,
+        uint64 _start,
+        uint64 _cliffDuration,
+        uint64 _duration,
+        bool _revocable
+    ) {
+        require(_beneficiary != address(0), "Beneficiary is the zero address");
+        require(_duration > 0, "Duration must be positive");
+        require(_cliffDuration <= _duration, "Cliff is longer than the duration");
+
+        token = _token;
+        beneficiary = _beneficiary;
+        owner = _owner;
+        start = _start;
+        cliffDuration = _cliffDuration;
+        duration = _duration;
+        revocable = _revocable;
+    }
+
+    /**
+     * @dev Amount vested by timestamp, counting what was already released
+     * @param timestamp The time to compute the vested amount at
+     */
+    function vestedAmount(uint64 timestamp) public view returns (uint256) {
+        uint256 total = IERC20(token).balanceOf(address(this)) + released;
+        // Revoking returns the unvested part, so everything left has vested
+        if (revoked || timestamp >= start + duration) {
+            return total;
+        }
+        if (timestamp < start + cliffDuration) {
+            return 0;
+        }
+        return (total * (timestamp - start)) / duration;
+    }
+
+    /**
+     * @dev Amount that has vested but not been released yet
+     */
+    function releasable() public view returns (uint256) {
+        return vestedAmount(uint64(block.timestamp)) - released;
+    }
+
+    /**
+     * @dev Sends the releasable amount to the beneficiary; anyone may call it
+     */
+    function release() external {
+        uint256 amount = releasable();
+        require(amount > 0, "Nothing to release");
+
+        released += amount;
+        IERC20(token).safeTransfer(beneficiary, amount);
+
+        emit Released(beneficiary, amount);
+    }
+
+    /**
+     * @dev Stops vesting and returns the unvested amount to the owner
+     */
+    function revoke() external {
+        require(msg.sender == owner, "Only the owner can revoke");
+        require(revocable, "Schedule is not revocable");
+        require(!revoked, "Schedule already revoked");
+
+        uint256 vested = vestedAmount(uint64(block.timestamp));
+        uint256 refund = IERC20(token).balanceOf(address(this)) + released - vested;
+        revoked = true;
+        IERC20(token).safeTransfer(owner, refund);
+
+        emit Revoked(refund);
+    }
+}
@@ -0,0 +1,61 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "./TokenVesting.sol";
+
+/**
+ * @title TokenVestingFactory
+ * @dev Deploys a funded TokenVesting per schedule, owned by the caller. The
+ * caller approves this contract for the amount first; tokens only ever move
+ * out of msg.sender's balance.
+ */
+contract TokenVestingFactory {
+    using SafeERC20 for IERC20;
+
+    // Event emitted when a new vesting schedule is created
+    event VestingCreated(
+        address indexed vesting,
+        address indexed token,
+        address indexed beneficiary,
+        address creator,
+        uint256 amount
+    );
+
+    /**
+     * @dev Creates a vesting schedule and funds it from the caller
+     * @param token The token being vested
+     * @param beneficiary The account receiving vested tokens
+     * @param amount The amount to vest, in base units
+     * @param start Unix time vesting starts from
+     * @param cliffDuration Seconds after start before anything vests
+     * @param duration Seconds after start until everything has vested
+     * @param revocable Whether the caller can revoke the schedule
+     * @return The address of the new vesting contract
+     */
+    function createVesting(
+        address token,
+        address beneficiary,
+        uint256 amount,
+        uint64 start,
+        uint64 cliffDuration,
+        uint64 duration,
+        bool revocable
+    ) external returns (address) {
+        TokenVesting vesting = new TokenVesting(
+            token,
+            beneficiary,
+            msg.sender,
+            start,
+            cliffDuration,
+            duration,
+            revocable
+        );
+        IERC20(token).safeTransferFrom(msg.sender, address(vesting), amount);
+
+        emit VestingCreated(address(vesting), token, beneficiary, msg.sender, amount);
+
+        return address(vesting);
+    }
+}
@@ -0,0 +1,142 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import { SiweMessage, generateNonce } from "siwe";
+import { ethers } from "ethers";
+import { storage } from "./storage";
+
+const MemoryStore = createMemoryStore(session);
+
+// Sign-In With Ethereum state kept in the server-side session
+declare module "express-session" {
+  interface SessionData {
+    nonce?: string;
+    siwe?: {
+      address: string;
+      chainId: number;
+    };
+  }
+}
+
+// Address bound to the request by requireAuth
+declare global {
+  namespace Express {
+    interface Request {
+      walletAddress?: string;
+    }
+  }
+}
+
+// Key that signs session cookies; the development fallback is public, so production must set its own
+function getSessionSecret(): string {
+  const secret = process.env.SESSION_SECRET;
+  if (secret) return secret;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+  return "tokenvote-dev-secret";
+}
+
+export function setupAuth(app: Express) {
+  app.set("trust proxy", 1);
+  app.use(
+    session({
+      secret: getSessionSecret(),
+      resave: false,
+      saveUninitialized: false,
+      store: new MemoryStore({
+        checkPeriod: 86400000, // prune expired entries every 24h
+      }),
+      cookie: {
+        httpOnly: true,
+        sameSite: "lax",
+        secure: process.env.NODE_ENV === "production",
+        maxAge: 7 * 24 * 60 * 60 * 1000,
+      },
+    })
+  );
+
+  // Issue a fresh nonce for the next EIP-4361 message
+  app.get("/api/auth/nonce", (req, res) => {
+    const nonce = generateNonce();
+    req.session.nonce = nonce;
+    req.session.save((err) => {
+      if (err) {
+        return res.status(500).json({ message: "Failed to create nonce" });
+      }
+      res.json({ nonce });
+    });
+  });
+
+  app.post("/api/auth/verify", async (req, res) => {
+    try {
+      const { message, signature } = req.body;
+      if (typeof message !== "string" || typeof signature !== "string") {
+        return res.status(400).json({ message: "Message and signature are required" });
+      }
+
+      if (!req.session.nonce) {
+        return res.status(422).json({ message: "Request a nonce before signing in" });
+      }
+
+      const siweMessage = new SiweMessage(message);
+      const { data } = await siweMessage.verify({
+        signature,
+        nonce: req.session.nonce,
+        domain: req.get("host"),
+      });
+
+      const address = ethers.getAddress(data.address);
+
+      // Make sure the wallet has an account row
+      const user = await storage.getUserByWalletAddress(address);
+      if (!user) {
+        await storage.createUser({ walletAddress: address });
+      }
+
+      req.session.regenerate((regenerateErr) => {
+        if (regenerateErr) {
+          return res.status(500).json({ message: "Failed to create session" });
+        }
+        req.session.siwe = { address, chainId: data.chainId };
+        req.session.save((saveErr) => {
+          if (saveErr) {
+            return res.status(500).json({ message: "Failed to create session" });
+          }
+          res.json(req.session.siwe);
+        });
+      });
+    } catch (err: any) {
+      // siwe rejects with a SiweResponse describing the failure
+      const reason = err?.error?.type || err?.message || "Invalid signature";
+      req.session.nonce = undefined;
+      res.status(401).json({ message: `Sign-in failed: ${reason}` });
+    }
+  });
+
+  app.get("/api/auth/session", (req, res) => {
+    if (!req.session.siwe) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+    res.json(req.session.siwe);
+  });
+
+  app.post("/api/auth/logout", (req, res) => {
+    req.session.destroy((err) => {
+      if (err) {
+        return res.status(500).json({ message: "Failed to log out" });
+      }
+      res.clearCookie("connect.sid");
+      res.status(204).end();
+    });
+  });
+}
+
+// Rejects unauthenticated requests and binds the signed-in wallet to req.walletAddress
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.session.siwe) {
+    return res.status(401).json({ message: "Authentication required" });
+  }
+  req.walletAddress = req.session.siwe.address;
+  next();
+}
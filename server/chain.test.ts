@@ -0,0 +1,117 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { ethers } from "ethers";
+import { CUSTOM_TOKEN_ABI } from "@shared/contracts";
+import { getSnapshotBlock, getVotingPower, setProvider } from "./chain";
+
+const TOKEN_ADDRESS = "0x5B38Da6a701c568545dCfcB03FcB875f56beddC4";
+const VOTER = "0x4B20993Bc481177ec7E8f571ceCaE8A9e22C02db";
+const HEAD = 1000;
+
+const tokenInterface = new ethers.Interface(CUSTOM_TOKEN_ABI);
+
+interface RecordedCall {
+  method: string;
+  args: unknown[];
+  blockTag?: ethers.BlockTag;
+}
+
+// Token functions the mock answers; a function without a handler reverts without data, as it
+// does on a token that lacks it
+type Handlers = Record<string, (...args: unknown[]) => unknown>;
+
+// Provider answering eth_call from handlers and recording every call it receives
+const mockProvider = (handlers: Handlers) => {
+  const calls: RecordedCall[] = [];
+  const provider = {
+    getBlockNumber: async () => HEAD,
+    call: async (tx: ethers.TransactionRequest) => {
+      const parsed = tokenInterface.parseTransaction({ data: tx.data as string })!;
+      calls.push({ method: parsed.name, args: [...parsed.args], blockTag: tx.blockTag ?? undefined });
+
+      const handler = handlers[parsed.name];
+      if (!handler) {
+        throw ethers.makeError("execution reverted", "CALL_EXCEPTION", {
+          action: "call",
+          data: "0x",
+          reason: null,
+          transaction: { to: tx.to as string, data: tx.data as string },
+          invocation: null,
+          revert: null,
+        });
+      }
+      return tokenInterface.encodeFunctionResult(parsed.name, [await handler(...parsed.args)]);
+    },
+  };
+  setProvider(provider as unknown as ethers.Provider);
+  return calls;
+};
+
+afterEach(() => {
+  setProvider(null);
+});
+
+describe("getSnapshotBlock", () => {
+  it("uses the block before the head, as Governance.createProposal does", async () => {
+    mockProvider({});
+    expect(await getSnapshotBlock()).toBe(HEAD - 1);
+  });
+});
+
+describe("getVotingPower", () => {
+  it("reads the current balance of proposals without a snapshot", async () => {
+    const calls = mockProvider({ balanceOf: () => BigInt(42) });
+
+    expect(await getVotingPower(TOKEN_ADDRESS, VOTER, null)).toBe(BigInt(42));
+    expect(calls).toEqual([{ method: "balanceOf", args: [VOTER], blockTag: undefined }]);
+  });
+
+  it("reads checkpointed votes at the snapshot", async () => {
+    const calls = mockProvider({
+      getPastVotes: (_account, block) => (block === BigInt(900) ? BigInt(7) : BigInt(0)),
+      balanceOf: () => BigInt(42),
+    });
+
+    expect(await getVotingPower(TOKEN_ADDRESS, VOTER, 900)).toBe(BigInt(7));
+    expect(calls.map((call) => call.method)).toEqual(["getPastVotes"]);
+  });
+
+  it("falls back to the balance at the snapshot for tokens without ERC20Votes", async () => {
+    const calls = mockProvider({ balanceOf: () => BigInt(42) });
+
+    expect(await getVotingPower(TOKEN_ADDRESS, VOTER, 900)).toBe(BigInt(42));
+    expect(calls[1]).toEqual({ method: "balanceOf", args: [VOTER], blockTag: 900 });
+  });
+
+  it("rethrows reverts with data instead of falling back", async () => {
+    const revertData = new ethers.Interface(["error ERC5805FutureLookup(uint256 timepoint, uint48 clock)"])
+      .encodeErrorResult("ERC5805FutureLookup", [HEAD + 1, HEAD]);
+    const calls = mockProvider({
+      getPastVotes: () => {
+        throw ethers.makeError("execution reverted", "CALL_EXCEPTION", {
+          action: "call",
+          data: revertData,
+          reason: null,
+          transaction: { to: TOKEN_ADDRESS, data: "0x" },
+          invocation: null,
+          revert: null,
+        });
+      },
+      balanceOf: () => BigInt(42),
+    });
+
+    await expect(getVotingPower(TOKEN_ADDRESS, VOTER, HEAD + 1)).rejects.toMatchObject({ code: "CALL_EXCEPTION" });
+    expect(calls.map((call) => call.method)).toEqual(["getPastVotes"]);
+  });
+
+  it("rethrows RPC failures instead of falling back", async () => {
+    const calls = mockProvider({
+      getPastVotes: () => {
+        throw ethers.makeError("request timed out", "TIMEOUT", { operation: "call", reason: "timeout" });
+      },
+      balanceOf: () => BigInt(42),
+    });
+
+    await expect(getVotingPower(TOKEN_ADDRESS, VOTER, 900)).rejects.toMatchObject({ code: "TIMEOUT" });
+    expect(calls.map((call) => call.method)).toEqual(["getPastVotes"]);
+  });
+});
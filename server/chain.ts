@@ -0,0 +1,266 @@
+import { ethers } from "ethers";
+import {
+  CUSTOM_TOKEN_ABI,
+  GOVERNANCE_ABI,
+  MERKLE_DISTRIBUTOR_ABI,
+  MERKLE_DISTRIBUTOR_FACTORY_ABI,
+  TOKEN_FACTORY_ABI,
+  TOKEN_VESTING_ABI,
+} from "@shared/contracts";
+import { DEFAULT_CHAIN_ID, getNetwork, type Network } from "@shared/networks";
+import { type InsertToken } from "@shared/schema";
+
+let provider: ethers.Provider | null = null;
+
+// Network the server reads from and indexes, chosen with CHAIN_ID
+export function getActiveNetwork(): Network {
+  const chainId = Number(process.env.CHAIN_ID || DEFAULT_CHAIN_ID);
+  const network = getNetwork(chainId);
+  if (!network) {
+    throw new Error(`CHAIN_ID ${chainId} is not a network in shared/networks.ts`);
+  }
+  return network;
+}
+
+// JSON-RPC provider for on-chain reads; RPC_URL overrides the network's public endpoint
+export function getProvider(): ethers.Provider {
+  if (!provider) {
+    provider = new ethers.JsonRpcProvider(process.env.RPC_URL || getActiveNetwork().rpcUrl);
+  }
+  return provider;
+}
+
+// Replace the provider, e.g. with a mock or a local Hardhat/Anvil node in tests
+export function setProvider(newProvider: ethers.Provider | null) {
+  provider = newProvider;
+}
+
+// Whether a call reverted without data, as calls to functions a contract does not have do.
+// Anything else, such as an RPC failure or a snapshot in the future, is a real error.
+const isMissingFunction = (err: unknown): boolean =>
+  (ethers.isError(err, "CALL_EXCEPTION") && (err.data == null || err.data === "0x")) ||
+  ethers.isError(err, "BAD_DATA");
+
+// Block new proposals take their voting power snapshot from, mirroring Governance.createProposal
+export async function getSnapshotBlock(): Promise<number> {
+  const blockNumber = await getProvider().getBlockNumber();
+  return blockNumber - 1;
+}
+
+// Voting weight of a voter at the proposal snapshot, in base units
+export async function getVotingPower(
+  tokenAddress: string,
+  voterAddress: string,
+  snapshotBlock: number | null
+): Promise<bigint> {
+  const token = new ethers.Contract(tokenAddress, CUSTOM_TOKEN_ABI, getProvider());
+
+  if (snapshotBlock == null) {
+    const balance: bigint = await token.balanceOf(voterAddress);
+    return balance;
+  }
+
+  try {
+    const votes: bigint = await token.getPastVotes(voterAddress, snapshotBlock);
+    return votes;
+  } catch (err) {
+    // Tokens deployed before ERC20Votes support have no checkpoints
+    if (!isMissingFunction(err)) throw err;
+    const balance: bigint = await token.balanceOf(voterAddress, { blockTag: snapshotBlock });
+    return balance;
+  }
+}
+
+// Current voting power of an account, including power delegated to it
+export async function getCurrentVotes(
+  tokenAddress: string,
+  account: string
+): Promise<bigint> {
+  const token = new ethers.Contract(tokenAddress, CUSTOM_TOKEN_ABI, getProvider());
+  const votes: bigint = await token.getVotes(account);
+  return votes;
+}
+
+// Current token balance of an account, in base units
+export async function getTokenBalance(tokenAddress: string, account: string): Promise<bigint> {
+  const token = new ethers.Contract(tokenAddress, CUSTOM_TOKEN_ABI, getProvider());
+  const balance: bigint = await token.balanceOf(account);
+  return balance;
+}
+
+// Total supply of a token at the proposal snapshot, in base units
+export async function getTotalSupply(
+  tokenAddress: string,
+  snapshotBlock: number | null
+): Promise<bigint> {
+  const token = new ethers.Contract(tokenAddress, CUSTOM_TOKEN_ABI, getProvider());
+
+  if (snapshotBlock == null) {
+    const totalSupply: bigint = await token.totalSupply();
+    return totalSupply;
+  }
+
+  try {
+    const totalSupply: bigint = await token.getPastTotalSupply(snapshotBlock);
+    return totalSupply;
+  } catch (err) {
+    // Tokens deployed before ERC20Votes support have no checkpoints
+    if (!isMissingFunction(err)) throw err;
+    const totalSupply: bigint = await token.totalSupply({ blockTag: snapshotBlock });
+    return totalSupply;
+  }
+}
+
+// Whether holders can currently transfer the token
+export async function getTransferable(tokenAddress: string): Promise<boolean> {
+  const token = new ethers.Contract(tokenAddress, CUSTOM_TOKEN_ABI, getProvider());
+  const transferable: boolean = await token.transferable();
+  return transferable;
+}
+
+export interface TokenTransferLog {
+  from: string;
+  to: string;
+  value: bigint;
+}
+
+// Sender of a mined transaction and the Transfer events tokenAddress emitted in it,
+// or null if the transaction is unknown, pending or reverted
+export async function getTransactionTransfers(
+  transactionHash: string,
+  tokenAddress: string
+): Promise<{ sender: string; transfers: TokenTransferLog[] } | null> {
+  const receipt = await getProvider().getTransactionReceipt(transactionHash);
+  if (!receipt || receipt.status !== 1) return null;
+
+  const tokenInterface = new ethers.Interface(CUSTOM_TOKEN_ABI);
+  const transfers: TokenTransferLog[] = [];
+  for (const log of receipt.logs) {
+    if (log.address.toLowerCase() !== tokenAddress.toLowerCase()) continue;
+    const event = tokenInterface.parseLog({ topics: [...log.topics], data: log.data });
+    if (event?.name === "Transfer") {
+      transfers.push({ from: event.args.from, to: event.args.to, value: event.args.value });
+    }
+  }
+  return { sender: receipt.from, transfers };
+}
+
+// Governance proposal created by a mined transaction on the active network, or null if it created none
+export async function getCreatedProposal(
+  transactionHash: string
+): Promise<{ proposalId: number; creator: string } | null> {
+  const receipt = await getProvider().getTransactionReceipt(transactionHash);
+  const governanceAddress = getActiveNetwork().contracts.governance;
+  if (!receipt || receipt.status !== 1 || !governanceAddress) return null;
+
+  const governanceInterface = new ethers.Interface(GOVERNANCE_ABI);
+  for (const log of receipt.logs) {
+    if (log.address.toLowerCase() !== governanceAddress.toLowerCase()) continue;
+    const event = governanceInterface.parseLog({ topics: [...log.topics], data: log.data });
+    if (event?.name === "ProposalCreated") {
+      return { proposalId: Number(event.args.proposalId), creator: event.args.creator };
+    }
+  }
+  return null;
+}
+
+// Token a confirmed transaction created through the token factory, as its TokenCreated event
+// describes it, or null when the transaction did not create one
+export async function getCreatedToken(transactionHash: string): Promise<InsertToken | null> {
+  const receipt = await getProvider().getTransactionReceipt(transactionHash);
+  const network = getActiveNetwork();
+  const factoryAddress = network.contracts.tokenFactory;
+  if (!receipt || receipt.status !== 1 || !factoryAddress) return null;
+
+  const factoryInterface = new ethers.Interface(TOKEN_FACTORY_ABI);
+  for (const log of receipt.logs) {
+    if (log.address.toLowerCase() !== factoryAddress.toLowerCase()) continue;
+    const event = factoryInterface.parseLog({ topics: [...log.topics], data: log.data });
+    if (event?.name === "TokenCreated") {
+      return {
+        name: event.args.name,
+        symbol: event.args.symbol,
+        totalSupply: event.args.initialSupply.toString(),
+        decimals: Number(event.args.decimals),
+        contractAddress: event.args.tokenAddress,
+        creatorAddress: event.args.creator,
+        isTransferable: event.args.transferable,
+        chainId: network.chainId,
+      };
+    }
+  }
+  return null;
+}
+
+// Address of the MerkleDistributor a confirmed transaction deployed through the distributor
+// factory, or null when the transaction did not deploy one
+export async function getCreatedDistributor(transactionHash: string): Promise<string | null> {
+  const receipt = await getProvider().getTransactionReceipt(transactionHash);
+  const factoryAddress = getActiveNetwork().contracts.merkleDistributorFactory;
+  if (!receipt || receipt.status !== 1 || !factoryAddress) return null;
+
+  const factoryInterface = new ethers.Interface(MERKLE_DISTRIBUTOR_FACTORY_ABI);
+  for (const log of receipt.logs) {
+    if (log.address.toLowerCase() !== factoryAddress.toLowerCase()) continue;
+    const event = factoryInterface.parseLog({ topics: [...log.topics], data: log.data });
+    if (event?.name === "DistributorCreated") {
+      return event.args.distributor;
+    }
+  }
+  return null;
+}
+
+// Configuration a MerkleDistributor was deployed with
+export async function getDistributorConfig(
+  distributorAddress: string
+): Promise<{ token: string; merkleRoot: string; owner: string; endTime: Date }> {
+  const distributor = new ethers.Contract(distributorAddress, MERKLE_DISTRIBUTOR_ABI, getProvider());
+  const [token, merkleRoot, owner, endTime]: [string, string, string, bigint] = await Promise.all([
+    distributor.token(),
+    distributor.merkleRoot(),
+    distributor.owner(),
+    distributor.endTime(),
+  ]);
+  return { token, merkleRoot, owner, endTime: new Date(Number(endTime) * 1000) };
+}
+
+// Schedule a TokenVesting contract was deployed with, and the amount it holds in total
+export async function getVestingConfig(vestingAddress: string): Promise<{
+  token: string;
+  beneficiary: string;
+  owner: string;
+  startTime: Date;
+  cliffTime: Date;
+  endTime: Date;
+  revocable: boolean;
+  totalAmount: bigint;
+}> {
+  const vesting = new ethers.Contract(vestingAddress, TOKEN_VESTING_ABI, getProvider());
+  const [token, beneficiary, owner, start, cliffDuration, duration, revocable, released]: [
+    string, string, string, bigint, bigint, bigint, boolean, bigint
+  ] = await Promise.all([
+    vesting.token(),
+    vesting.beneficiary(),
+    vesting.owner(),
+    vesting.start(),
+    vesting.cliffDuration(),
+    vesting.duration(),
+    vesting.revocable(),
+    vesting.released(),
+  ]);
+
+  const tokenContract = new ethers.Contract(token, CUSTOM_TOKEN_ABI, getProvider());
+  const balance: bigint = await tokenContract.balanceOf(vestingAddress);
+  const toDate = (seconds: bigint) => new Date(Number(seconds) * 1000);
+
+  return {
+    token,
+    beneficiary,
+    owner,
+    startTime: toDate(start),
+    cliffTime: toDate(start + cliffDuration),
+    endTime: toDate(start + duration),
+    revocable,
+    totalAmount: balance + released,
+  };
+}
@@ -0,0 +1,884 @@
+import { 
+  users, type User, type InsertUser,
+  tokens, type Token, type InsertToken,
+  proposals, type Proposal, type NewProposal,
+  proposalOptions, type ProposalOption,
+  proposalActions, type ProposalAction, type InsertProposalAction,
+  votes, type Vote, type InsertVote,
+  delegations, type Delegation, type InsertDelegation,
+  tokenTransfers, type TokenTransfer, type InsertTokenTransfer,
+  tokenBalances, type TokenBalance,
+  distributions, distributionRecipients, type Distribution, type RecordDistribution,
+  airdrops, airdropAllocations, type Airdrop, type InsertAirdrop,
+  type AirdropAllocation, type InsertAirdropAllocation,
+  vestingSchedules, type VestingSchedule, type InsertVestingSchedule,
+  indexerState, type IndexerState,
+  type ProposalResult, type ActivityCounts
+} from "@shared/schema";
+import { sumTokenAmounts } from "@shared/token-amount";
+import { ethers } from "ethers";
+import { db } from "./db";
+import { toPage, type Page, type PageOptions } from "./pagination";
+import { DuplicateVoteError, VotingClosedError } from "./storage-errors";
+import type {
+  IStorage,
+  TokenFilter,
+  ProposalFilter,
+  VoteFilter,
+  VestingFilter,
+  PlatformTotals,
+} from "./storage";
+import { eq, and, or, lte, gt, gte, inArray, isNull, sql, asc, desc, count, countDistinct, type SQL } from "drizzle-orm";
+import { type PgColumn } from "drizzle-orm/pg-core";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Allocation rows per insert statement when storing an airdrop
+const AIRDROP_INSERT_BATCH = 1000;
+
+// Keyset seek and ordering for a page, with id breaking ties so cursors stay stable
+const pageClauses = (
+  sortColumns: Record<string, PgColumn>,
+  id: PgColumn,
+  { order, after }: PageOptions
+): { seek: SQL | undefined; orderBy: SQL[] } => {
+  const column = order.field ? sortColumns[order.field] : undefined;
+  const direction = order.direction === "asc" ? asc : desc;
+  const operator = sql.raw(order.direction === "asc" ? ">" : "<");
+
+  let seek: SQL | undefined;
+  if (after) {
+    seek = column
+      ? sql`(${column}, ${id}) ${operator} (${sql.param(after.value, column)}, ${after.id})`
+      : sql`${id} ${operator} ${after.id}`;
+  }
+
+  return {
+    seek,
+    orderBy: column ? [direction(column), direction(id)] : [direction(id)],
+  };
+};
+
+export class DatabaseStorage implements IStorage {
+  // User operations
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByWalletAddress(walletAddress: string): Promise<User | undefined> {
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(eq(users.walletAddressLower, walletAddress.toLowerCase()));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await db
+      .insert(users)
+      .values(insertUser)
+      .returning();
+    return user;
+  }
+
+  // Token operations
+  async getTokenById(id: number): Promise<Token | undefined> {
+    const [token] = await db.select().from(tokens).where(eq(tokens.id, id));
+    return token;
+  }
+
+  async getTokenByAddress(contractAddress: string): Promise<Token | undefined> {
+    const [token] = await db
+      .select()
+      .from(tokens)
+      .where(eq(tokens.contractAddressLower, contractAddress.toLowerCase()));
+    return token;
+  }
+
+  async getAllTokens(): Promise<Token[]> {
+    return await db.select().from(tokens);
+  }
+
+  async listTokens(filter: TokenFilter, page: PageOptions): Promise<Page<Token>> {
+    const { seek, orderBy } = pageClauses({ name: tokens.name }, tokens.id, page);
+    const rows = await db
+      .select()
+      .from(tokens)
+      .where(
+        and(
+          filter.creatorAddress !== undefined
+            ? eq(tokens.creatorAddressLower, filter.creatorAddress.toLowerCase())
+            : undefined,
+          seek
+        )
+      )
+      .orderBy(...orderBy)
+      .limit(page.limit + 1);
+    return toPage(rows, page);
+  }
+
+  async createToken(insertToken: InsertToken): Promise<Token> {
+    const [token] = await db
+      .insert(tokens)
+      .values(insertToken)
+      .returning();
+    return token;
+  }
+
+  // Proposal operations
+  async getProposalById(id: number): Promise<Proposal | undefined> {
+    const [proposal] = await db.select().from(proposals).where(eq(proposals.id, id));
+    return proposal;
+  }
+
+  async listProposals(filter: ProposalFilter, page: PageOptions): Promise<Page<Proposal>> {
+    const { seek, orderBy } = pageClauses({ endDate: proposals.endDate }, proposals.id, page);
+    const rows = await db
+      .select()
+      .from(proposals)
+      .where(
+        and(
+          filter.tokenAddress !== undefined
+            ? eq(proposals.tokenAddressLower, filter.tokenAddress.toLowerCase())
+            : undefined,
+          filter.creatorAddress !== undefined
+            ? eq(proposals.creatorAddressLower, filter.creatorAddress.toLowerCase())
+            : undefined,
+          filter.active
+            ? and(eq(proposals.status, "active"), gt(proposals.endDate, new Date()))
+            : undefined,
+          seek
+        )
+      )
+      .orderBy(...orderBy)
+      .limit(page.limit + 1);
+    return toPage(rows, page);
+  }
+
+  async createProposal(insertProposal: NewProposal): Promise<Proposal> {
+    const { options, actions, ...values } = insertProposal;
+    return await db.transaction(async (tx) => {
+      const [proposal] = await tx
+        .insert(proposals)
+        .values({
+          ...values,
+          votesFor: "0",
+          votesAgainst: "0",
+          votesAbstain: "0",
+          status: "active"
+        })
+        .returning();
+
+      if (options?.length) {
+        await tx.insert(proposalOptions).values(
+          options.map((label, position) => ({
+            proposalId: proposal.id,
+            label,
+            position,
+          }))
+        );
+      }
+
+      if (actions?.length) {
+        await this.replaceProposalActions(tx, proposal.id, actions);
+      }
+
+      return proposal;
+    });
+  }
+
+  async updateProposalVotes(id: number, votesFor: string, votesAgainst: string, votesAbstain: string): Promise<Proposal> {
+    const [updatedProposal] = await db
+      .update(proposals)
+      .set({
+        votesFor,
+        votesAgainst,
+        votesAbstain
+      })
+      .where(eq(proposals.id, id))
+      .returning();
+
+    if (!updatedProposal) {
+      throw new Error(`Proposal with id ${id} not found`);
+    }
+
+    return updatedProposal;
+  }
+
+  async closeProposal(id: number): Promise<Proposal> {
+    const [updatedProposal] = await db
+      .update(proposals)
+      .set({
+        status: "completed"
+      })
+      .where(eq(proposals.id, id))
+      .returning();
+
+    if (!updatedProposal) {
+      throw new Error(`Proposal with id ${id} not found`);
+    }
+
+    return updatedProposal;
+  }
+
+  async getProposalOptions(proposalIds: number[]): Promise<ProposalOption[]> {
+    if (proposalIds.length === 0) return [];
+    return await db
+      .select()
+      .from(proposalOptions)
+      .where(inArray(proposalOptions.proposalId, proposalIds))
+      .orderBy(proposalOptions.proposalId, proposalOptions.position);
+  }
+
+  async getProposalActions(proposalIds: number[]): Promise<ProposalAction[]> {
+    if (proposalIds.length === 0) return [];
+    return await db
+      .select()
+      .from(proposalActions)
+      .where(inArray(proposalActions.proposalId, proposalIds))
+      .orderBy(proposalActions.proposalId, proposalActions.position);
+  }
+
+  // Proposals whose voting period is over but have no result yet
+  async getProposalsToFinalize(now: Date): Promise<Proposal[]> {
+    return await db
+      .select()
+      .from(proposals)
+      .where(
+        and(
+          isNull(proposals.result),
+          lte(proposals.endDate, now)
+        )
+      );
+  }
+
+  // Record the outcome once; returns undefined if the proposal was already finalized
+  async finalizeProposal(
+    id: number,
+    result: ProposalResult,
+    winningOptionId: number | null
+  ): Promise<Proposal | undefined> {
+    const [updatedProposal] = await db
+      .update(proposals)
+      .set({
+        result,
+        winningOptionId,
+        status: "completed",
+        finalizedAt: new Date()
+      })
+      .where(
+        and(
+          eq(proposals.id, id),
+          isNull(proposals.result)
+        )
+      )
+      .returning();
+    return updatedProposal;
+  }
+
+  // Vote operations
+  async getVoteById(id: number): Promise<Vote | undefined> {
+    const [vote] = await db.select().from(votes).where(eq(votes.id, id));
+    return vote;
+  }
+
+  async listVotes(filter: VoteFilter, page: PageOptions): Promise<Page<Vote>> {
+    const { seek, orderBy } = pageClauses({}, votes.id, page);
+    const rows = await db
+      .select()
+      .from(votes)
+      .where(
+        and(
+          filter.proposalId !== undefined ? eq(votes.proposalId, filter.proposalId) : undefined,
+          filter.voterAddress !== undefined
+            ? eq(votes.voterAddressLower, filter.voterAddress.toLowerCase())
+            : undefined,
+          seek
+        )
+      )
+      .orderBy(...orderBy)
+      .limit(page.limit + 1);
+    return toPage(rows, page);
+  }
+
+  // Records the vote and adds its weight to the tallies in one transaction
+  async createVote(insertVote: InsertVote): Promise<Vote> {
+    return await db.transaction(async (tx) => {
+      // Lock the proposal so concurrent votes update its tallies one after another
+      const [proposal] = await tx
+        .select()
+        .from(proposals)
+        .where(eq(proposals.id, insertVote.proposalId))
+        .for("update");
+      if (!proposal) {
+        throw new Error(`Proposal with id ${insertVote.proposalId} not found`);
+      }
+      // Checked under the lock, so a vote cannot land after the finalizer recorded the result
+      if (proposal.status !== "active" || proposal.endDate <= new Date()) {
+        throw new VotingClosedError(proposal.id);
+      }
+
+      const [vote] = await tx
+        .insert(votes)
+        .values(insertVote)
+        .onConflictDoNothing({ target: [votes.proposalId, votes.voterAddressLower] })
+        .returning();
+      if (!vote) {
+        throw new DuplicateVoteError(insertVote.proposalId, insertVote.voterAddress);
+      }
+
+      await this.adjustTallies(tx, vote, 1);
+      return vote;
+    });
+  }
+
+  async hasVoted(proposalId: number, voterAddress: string): Promise<boolean> {
+    const [vote] = await db
+      .select({ id: votes.id })
+      .from(votes)
+      .where(
+        and(
+          eq(votes.proposalId, proposalId),
+          eq(votes.voterAddressLower, voterAddress.toLowerCase())
+        )
+      )
+      .limit(1);
+    return !!vote;
+  }
+
+  // Delegation operations
+  async getCurrentDelegations(tokenAddress: string): Promise<Delegation[]> {
+    return await db
+      .selectDistinctOn([delegations.delegatorAddress])
+      .from(delegations)
+      .where(eq(delegations.tokenAddressLower, tokenAddress.toLowerCase()))
+      .orderBy(
+        delegations.delegatorAddress,
+        desc(delegations.blockNumber),
+        desc(delegations.logIndex)
+      );
+  }
+
+  async recordDelegation(insertDelegation: InsertDelegation): Promise<void> {
+    await db
+      .insert(delegations)
+      .values(insertDelegation)
+      .onConflictDoNothing();
+  }
+
+  // Transfer operations
+  // Store a Transfer event once and move the value between the two balances
+  async recordTransfer(insertTransfer: InsertTokenTransfer): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [transfer] = await tx
+        .insert(tokenTransfers)
+        .values(insertTransfer)
+        .onConflictDoNothing()
+        .returning();
+      if (!transfer) return;
+
+      const changes: Array<[string, SQL]> = [
+        [transfer.toAddress, sql`${transfer.value}`],
+        [transfer.fromAddress, sql`-${transfer.value}`],
+      ];
+      for (const [holderAddress, delta] of changes) {
+        if (holderAddress === ethers.ZeroAddress) continue;
+        await tx
+          .insert(tokenBalances)
+          .values({ tokenAddress: transfer.tokenAddress, holderAddress, balance: sql`${delta}::numeric` })
+          .onConflictDoUpdate({
+            target: [tokenBalances.tokenAddressLower, tokenBalances.holderAddress],
+            set: { balance: sql`${tokenBalances.balance} + ${delta}::numeric` },
+          });
+      }
+    });
+  }
+
+  async listTokenHolders(tokenAddress: string, page: PageOptions): Promise<Page<TokenBalance>> {
+    const { seek, orderBy } = pageClauses({ balance: tokenBalances.balance }, tokenBalances.id, page);
+    const rows = await db
+      .select()
+      .from(tokenBalances)
+      .where(
+        and(
+          eq(tokenBalances.tokenAddressLower, tokenAddress.toLowerCase()),
+          gt(tokenBalances.balance, "0"),
+          seek
+        )
+      )
+      .orderBy(...orderBy)
+      .limit(page.limit + 1);
+    return toPage(rows, page);
+  }
+
+  async getTokenHolderCount(tokenAddress: string): Promise<number> {
+    const [{ holders }] = await db
+      .select({ holders: count() })
+      .from(tokenBalances)
+      .where(
+        and(
+          eq(tokenBalances.tokenAddressLower, tokenAddress.toLowerCase()),
+          gt(tokenBalances.balance, "0")
+        )
+      );
+    return holders;
+  }
+
+  // Mints and burns, oldest first
+  async getSupplyChanges(tokenAddress: string): Promise<TokenTransfer[]> {
+    return await db
+      .select()
+      .from(tokenTransfers)
+      .where(
+        and(
+          eq(tokenTransfers.tokenAddressLower, tokenAddress.toLowerCase()),
+          or(
+            eq(tokenTransfers.fromAddress, ethers.ZeroAddress),
+            eq(tokenTransfers.toAddress, ethers.ZeroAddress)
+          )
+        )
+      )
+      .orderBy(tokenTransfers.blockNumber, tokenTransfers.logIndex);
+  }
+
+  // Statistics operations
+  async getPlatformTotals(now: Date): Promise<PlatformTotals> {
+    const [[tokenTotals], [proposalTotals], [voteTotals]] = await Promise.all([
+      db.select({ count: count() }).from(tokens),
+      db
+        .select({ count: count() })
+        .from(proposals)
+        .where(and(eq(proposals.status, "active"), gt(proposals.endDate, now))),
+      db
+        .select({ count: count(), voters: countDistinct(votes.voterAddressLower) })
+        .from(votes),
+    ]);
+    return {
+      tokenCount: tokenTotals.count,
+      activeProposalCount: proposalTotals.count,
+      totalVotes: voteTotals.count,
+      uniqueVoters: voteTotals.voters,
+    };
+  }
+
+  async getActivityCounts(from: Date, to: Date): Promise<ActivityCounts> {
+    const [[tokenCounts], [proposalCounts], [voteCounts]] = await Promise.all([
+      db
+        .select({ count: count() })
+        .from(tokens)
+        .where(and(gt(tokens.createdAt, from), lte(tokens.createdAt, to))),
+      db
+        .select({ count: count() })
+        .from(proposals)
+        .where(and(gt(proposals.createdAt, from), lte(proposals.createdAt, to))),
+      db
+        .select({ count: count(), voters: countDistinct(votes.voterAddressLower) })
+        .from(votes)
+        .where(and(gt(votes.timestamp, from), lte(votes.timestamp, to))),
+    ]);
+    return {
+      tokens: tokenCounts.count,
+      proposals: proposalCounts.count,
+      votes: voteCounts.count,
+      voters: voteCounts.voters,
+    };
+  }
+
+  async getDailyVoteCounts(from: Date): Promise<{ date: string; votes: number }[]> {
+    const day = sql<string>`to_char(date_trunc('day', ${votes.timestamp}), 'YYYY-MM-DD')`;
+    return await db
+      .select({ date: day, votes: count() })
+      .from(votes)
+      .where(gte(votes.timestamp, from))
+      .groupBy(day)
+      .orderBy(day);
+  }
+
+  // Distribution operations
+  // Store a distribution with its recipients, totalling the amounts
+  async createDistribution(senderAddress: string, distribution: RecordDistribution): Promise<Distribution> {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(distributions)
+        .values({
+          tokenAddress: distribution.tokenAddress,
+          senderAddress,
+          recipientCount: distribution.recipients.length,
+          totalAmount: sumTokenAmounts(distribution.recipients.map((recipient) => recipient.amount)),
+        })
+        .returning();
+
+      await tx
+        .insert(distributionRecipients)
+        .values(distribution.recipients.map((recipient) => ({ ...recipient, distributionId: created.id })));
+
+      return created;
+    });
+  }
+
+  // Airdrop operations
+  async createAirdrop(insertAirdrop: InsertAirdrop, allocations: InsertAirdropAllocation[]): Promise<Airdrop> {
+    return await db.transaction(async (tx) => {
+      const [airdrop] = await tx.insert(airdrops).values(insertAirdrop).returning();
+
+      // Stay well below the Postgres limit on bound parameters per statement
+      for (let i = 0; i < allocations.length; i += AIRDROP_INSERT_BATCH) {
+        await tx
+          .insert(airdropAllocations)
+          .values(
+            allocations
+              .slice(i, i + AIRDROP_INSERT_BATCH)
+              .map((allocation) => ({ ...allocation, airdropId: airdrop.id }))
+          );
+      }
+
+      return airdrop;
+    });
+  }
+
+  async getAirdropById(id: number): Promise<Airdrop | undefined> {
+    const [airdrop] = await db.select().from(airdrops).where(eq(airdrops.id, id));
+    return airdrop;
+  }
+
+  async getAirdropAllocation(airdropId: number, account: string): Promise<AirdropAllocation | undefined> {
+    const [allocation] = await db
+      .select()
+      .from(airdropAllocations)
+      .where(
+        and(
+          eq(airdropAllocations.airdropId, airdropId),
+          eq(airdropAllocations.accountLower, account.toLowerCase())
+        )
+      );
+    return allocation;
+  }
+
+  // Record the deployed distributor once; returns undefined if one was already set
+  async setAirdropDistributor(id: number, distributorAddress: string, endTime: Date): Promise<Airdrop | undefined> {
+    const [airdrop] = await db
+      .update(airdrops)
+      .set({ distributorAddress, endTime })
+      .where(and(eq(airdrops.id, id), isNull(airdrops.distributorAddress)))
+      .returning();
+    return airdrop;
+  }
+
+  // Vesting operations
+  async createVestingSchedule(insertSchedule: InsertVestingSchedule): Promise<VestingSchedule> {
+    const [schedule] = await db
+      .insert(vestingSchedules)
+      .values(insertSchedule)
+      .returning();
+    return schedule;
+  }
+
+  async getVestingScheduleByAddress(vestingAddress: string): Promise<VestingSchedule | undefined> {
+    const [schedule] = await db
+      .select()
+      .from(vestingSchedules)
+      .where(eq(vestingSchedules.vestingAddressLower, vestingAddress.toLowerCase()));
+    return schedule;
+  }
+
+  async listVestingSchedules(filter: VestingFilter, page: PageOptions): Promise<Page<VestingSchedule>> {
+    const { seek, orderBy } = pageClauses({}, vestingSchedules.id, page);
+    const rows = await db
+      .select()
+      .from(vestingSchedules)
+      .where(
+        and(
+          filter.tokenAddress !== undefined
+            ? eq(vestingSchedules.tokenAddressLower, filter.tokenAddress.toLowerCase())
+            : undefined,
+          filter.beneficiaryAddress !== undefined
+            ? eq(vestingSchedules.beneficiaryAddressLower, filter.beneficiaryAddress.toLowerCase())
+            : undefined,
+          seek
+        )
+      )
+      .orderBy(...orderBy)
+      .limit(page.limit + 1);
+    return toPage(rows, page);
+  }
+
+  // Chain sync operations
+  async getProposalByChainId(chainId: number, chainProposalId: number): Promise<Proposal | undefined> {
+    const [proposal] = await db
+      .select()
+      .from(proposals)
+      .where(and(eq(proposals.chainId, chainId), eq(proposals.chainProposalId, chainProposalId)));
+    return proposal;
+  }
+
+  async upsertChainToken(insertToken: InsertToken, blockNumber: number): Promise<Token> {
+    const [token] = await db
+      .insert(tokens)
+      .values({ ...insertToken, blockNumber })
+      .onConflictDoUpdate({
+        target: tokens.contractAddressLower,
+        set: { ...insertToken, blockNumber },
+      })
+      .returning();
+    return token;
+  }
+
+  async upsertChainProposal(
+    insertProposal: NewProposal & { chainProposalId: number },
+    blockNumber: number
+  ): Promise<Proposal> {
+    const { options, actions, ...values } = insertProposal;
+    return await db.transaction(async (tx) => {
+      const [proposal] = await tx
+        .insert(proposals)
+        .values({ ...values, blockNumber })
+        .onConflictDoUpdate({
+          target: [proposals.chainId, proposals.chainProposalId],
+          set: { ...values, blockNumber },
+        })
+        .returning();
+
+      // The contract's actions replace whatever the creator submitted
+      if (actions) {
+        await this.replaceProposalActions(tx, proposal.id, actions);
+      }
+
+      return proposal;
+    });
+  }
+
+  async upsertChainVote(insertVote: InsertVote, transactionHash: string, blockNumber: number): Promise<Vote> {
+    return await db.transaction(async (tx) => {
+      // Lock the proposal so its tallies change one vote at a time
+      await tx
+        .select({ id: proposals.id })
+        .from(proposals)
+        .where(eq(proposals.id, insertVote.proposalId))
+        .for("update");
+
+      const [previous] = await tx
+        .select()
+        .from(votes)
+        .where(
+          and(
+            eq(votes.proposalId, insertVote.proposalId),
+            eq(votes.voterAddressLower, insertVote.voterAddress.toLowerCase())
+          )
+        );
+
+      const [vote] = await tx
+        .insert(votes)
+        .values({ ...insertVote, transactionHash, blockNumber })
+        .onConflictDoUpdate({
+          target: [votes.proposalId, votes.voterAddressLower],
+          set: { ...insertVote, transactionHash, blockNumber },
+        })
+        .returning();
+
+      // A re-indexed vote replaces its earlier weight instead of adding to it
+      if (previous) {
+        await this.adjustTallies(tx, previous, -1);
+      }
+      await this.adjustTallies(tx, vote, 1);
+      return vote;
+    });
+  }
+
+  async markProposalQueued(id: number, eta: Date, blockNumber: number): Promise<Proposal> {
+    const [updatedProposal] = await db
+      .update(proposals)
+      .set({
+        eta,
+        queuedBlock: blockNumber
+      })
+      .where(eq(proposals.id, id))
+      .returning();
+
+    if (!updatedProposal) {
+      throw new Error(`Proposal with id ${id} not found`);
+    }
+
+    return updatedProposal;
+  }
+
+  async markProposalExecuted(id: number, blockNumber: number): Promise<Proposal> {
+    const [updatedProposal] = await db
+      .update(proposals)
+      .set({
+        status: "completed",
+        executedBlock: blockNumber
+      })
+      .where(eq(proposals.id, id))
+      .returning();
+
+    if (!updatedProposal) {
+      throw new Error(`Proposal with id ${id} not found`);
+    }
+
+    return updatedProposal;
+  }
+
+  // Undo everything synced from blocks after blockNumber, e.g. after a reorg
+  async rollbackChainData(blockNumber: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      const removedVotes = await tx
+        .delete(votes)
+        .where(gt(votes.blockNumber, blockNumber))
+        .returning();
+
+      const removedProposals = await tx
+        .delete(proposals)
+        .where(gt(proposals.blockNumber, blockNumber))
+        .returning({ id: proposals.id });
+      if (removedProposals.length > 0) {
+        await tx
+          .delete(proposalActions)
+          .where(inArray(proposalActions.proposalId, removedProposals.map(({ id }) => id)));
+      }
+      await tx.delete(tokens).where(gt(tokens.blockNumber, blockNumber));
+      await tx.delete(delegations).where(gt(delegations.blockNumber, blockNumber));
+
+      // Rebuild the balances of tokens that lost transfers from the transfers that remain
+      const removedTransfers = await tx
+        .delete(tokenTransfers)
+        .where(gt(tokenTransfers.blockNumber, blockNumber))
+        .returning({ tokenAddressLower: tokenTransfers.tokenAddressLower });
+      const affectedTokens = Array.from(new Set(removedTransfers.map((transfer) => transfer.tokenAddressLower)));
+      if (affectedTokens.length > 0) {
+        await tx.delete(tokenBalances).where(inArray(tokenBalances.tokenAddressLower, affectedTokens));
+        await tx.execute(sql`
+          insert into ${tokenBalances} (token_address, holder_address, balance)
+          select token_address, holder_address, sum(delta)
+          from (
+            select token_address, to_address as holder_address, value as delta
+            from ${tokenTransfers}
+            where token_address_lower in ${affectedTokens} and to_address <> ${ethers.ZeroAddress}
+            union all
+            select token_address, from_address, -value
+            from ${tokenTransfers}
+            where token_address_lower in ${affectedTokens} and from_address <> ${ethers.ZeroAddress}
+          ) as changes
+          group by token_address, holder_address
+        `);
+      }
+
+      // An undone execution takes its outcome with it, so the finalizer records the proposal again
+      await tx
+        .update(proposals)
+        .set({ status: "active", executedBlock: null, result: null, winningOptionId: null, finalizedAt: null })
+        .where(gt(proposals.executedBlock, blockNumber));
+
+      await tx
+        .update(proposals)
+        .set({ eta: null, queuedBlock: null })
+        .where(gt(proposals.queuedBlock, blockNumber));
+
+      const affectedIds = Array.from(new Set(removedVotes.map(vote => vote.proposalId)));
+      if (affectedIds.length > 0) {
+        const remaining = await tx
+          .select({ id: proposals.id })
+          .from(proposals)
+          .where(inArray(proposals.id, affectedIds));
+        for (const { id } of remaining) {
+          await this.recountProposalVotes(tx, id);
+        }
+
+        // Outcomes based on removed votes are recomputed by the finalizer
+        await tx
+          .update(proposals)
+          .set({ status: "active", result: null, winningOptionId: null, finalizedAt: null })
+          .where(inArray(proposals.id, affectedIds));
+      }
+    });
+  }
+
+  async getIndexerState(name: string): Promise<IndexerState | undefined> {
+    const [state] = await db.select().from(indexerState).where(eq(indexerState.name, name));
+    return state;
+  }
+
+  async setIndexerState(name: string, blockNumber: number, blockHash: string): Promise<IndexerState> {
+    const [state] = await db
+      .insert(indexerState)
+      .values({ name, blockNumber, blockHash })
+      .onConflictDoUpdate({
+        target: indexerState.name,
+        set: { blockNumber, blockHash, updatedAt: new Date() },
+      })
+      .returning();
+    return state;
+  }
+
+  private async replaceProposalActions(
+    tx: Transaction,
+    proposalId: number,
+    actions: InsertProposalAction[]
+  ): Promise<void> {
+    await tx.delete(proposalActions).where(eq(proposalActions.proposalId, proposalId));
+    if (actions.length === 0) return;
+    await tx.insert(proposalActions).values(
+      actions.map((action, position) => ({
+        ...action,
+        proposalId,
+        position,
+      }))
+    );
+  }
+
+  // Add a vote's weight to its option's tally or to votesFor/Against/Abstain, or take it away when
+  // sign is -1. Each tally is updated in place, so concurrent votes cannot overwrite each other
+  private async adjustTallies(tx: Transaction, vote: Vote, sign: 1 | -1): Promise<void> {
+    const amount = sign < 0 ? `-${vote.voteAmount}` : vote.voteAmount;
+    // Tallies are integer strings that can exceed 2^53, so the sum is done in numeric
+    const plus = (column: PgColumn) => sql<string>`(${column}::numeric + ${amount}::numeric)::text`;
+
+    if (vote.voteDirection === "option") {
+      if (vote.optionId != null) {
+        await tx
+          .update(proposalOptions)
+          .set({ votes: plus(proposalOptions.votes) })
+          .where(and(eq(proposalOptions.id, vote.optionId), eq(proposalOptions.proposalId, vote.proposalId)));
+      }
+      return;
+    }
+
+    const tallies: Record<string, Partial<Record<keyof Proposal, SQL>>> = {
+      for: { votesFor: plus(proposals.votesFor) },
+      against: { votesAgainst: plus(proposals.votesAgainst) },
+      abstain: { votesAbstain: plus(proposals.votesAbstain) },
+    };
+    const changes = tallies[vote.voteDirection];
+    if (changes) {
+      await tx.update(proposals).set(changes).where(eq(proposals.id, vote.proposalId));
+    }
+  }
+
+  // Recompute a proposal's tallies from its recorded votes
+  private async recountProposalVotes(tx: Transaction, proposalId: number): Promise<void> {
+    const proposalVotes = await tx.select().from(votes).where(eq(votes.proposalId, proposalId));
+
+    const tally = (matches: (vote: Vote) => boolean) =>
+      sumTokenAmounts(proposalVotes.filter(matches).map((vote) => vote.voteAmount));
+
+    await tx
+      .update(proposals)
+      .set({
+        votesFor: tally((vote) => vote.voteDirection === "for"),
+        votesAgainst: tally((vote) => vote.voteDirection === "against"),
+        votesAbstain: tally((vote) => vote.voteDirection === "abstain")
+      })
+      .where(eq(proposals.id, proposalId));
+
+    const options = await tx
+      .select()
+      .from(proposalOptions)
+      .where(eq(proposalOptions.proposalId, proposalId));
+    for (const option of options) {
+      await tx
+        .update(proposalOptions)
+        .set({ votes: tally((vote) => vote.voteDirection === "option" && vote.optionId === option.id) })
+        .where(eq(proposalOptions.id, option.id));
+    }
+  }
+}
@@ -0,0 +1,99 @@
+import { type Proposal, type ProposalOption, type ProposalResult } from "@shared/schema";
+import { getTotalSupply } from "./chain";
+import { computeQuorumThreshold, getTotalVotes } from "./quorum";
+import { getIndexedTime } from "./indexer";
+import { broadcastProposal } from "./realtime";
+import { storage } from "./storage";
+import { log } from "./vite";
+
+const POLL_INTERVAL_MS = Number(process.env.FINALIZER_POLL_INTERVAL_MS || 60000);
+
+interface Outcome {
+  result: ProposalResult;
+  winningOptionId: number | null;
+}
+
+// Final outcome from the tallies; abstentions count toward quorum but never decide it
+export const computeOutcome = (
+  proposal: Proposal,
+  options: ProposalOption[],
+  quorumThreshold: bigint
+): Outcome => {
+  const totalVotes = getTotalVotes(proposal, options);
+  if (totalVotes === BigInt(0) || totalVotes < quorumThreshold) {
+    return { result: "no_quorum", winningOptionId: null };
+  }
+
+  if (proposal.proposalType !== "multiple_choice") {
+    const passed = BigInt(proposal.votesFor) > BigInt(proposal.votesAgainst);
+    return { result: passed ? "passed" : "failed", winningOptionId: null };
+  }
+
+  // A multiple-choice proposal passes when a single option leads
+  const choices = options.map((option) => ({ optionId: option.id, votes: BigInt(option.votes) }));
+  const maxVotes = choices.reduce((max, choice) => choice.votes > max ? choice.votes : max, BigInt(0));
+  const leaders = choices.filter((choice) => choice.votes === maxVotes);
+  if (maxVotes === BigInt(0) || leaders.length !== 1) {
+    return { result: "failed", winningOptionId: null };
+  }
+  return { result: "passed", winningOptionId: leaders[0].optionId };
+};
+
+// Record outcomes for every expired proposal without one; safe to rerun at any time
+export async function finalizeExpiredProposals(): Promise<void> {
+  const now = new Date();
+  const expired = await storage.getProposalsToFinalize(now);
+  if (expired.length === 0) return;
+
+  // On-chain tallies are final only once the indexer has passed the end of voting
+  const indexedTime = expired.some((proposal) => proposal.chainProposalId != null)
+    ? await getIndexedTime()
+    : null;
+
+  const options = await storage.getProposalOptions(expired.map((proposal) => proposal.id));
+
+  for (const proposal of expired) {
+    if (proposal.chainProposalId != null && (!indexedTime || indexedTime < proposal.endDate)) {
+      continue;
+    }
+
+    try {
+      // Older proposals have no stored threshold, so derive it from the snapshot supply
+      const quorumThreshold = proposal.quorumThreshold != null
+        ? BigInt(proposal.quorumThreshold)
+        : computeQuorumThreshold(
+            await getTotalSupply(proposal.tokenAddress, proposal.snapshotBlock),
+            proposal.quorum
+          );
+      const { result, winningOptionId } = computeOutcome(
+        proposal,
+        options.filter((option) => option.proposalId === proposal.id),
+        quorumThreshold
+      );
+
+      const finalized = await storage.finalizeProposal(proposal.id, result, winningOptionId);
+      if (finalized) {
+        log(`proposal ${proposal.id} finalized as ${result}`, "finalizer");
+        broadcastProposal("proposal_closed", finalized);
+      }
+    } catch (err) {
+      // Leave the proposal for the next round, e.g. when the RPC is unavailable
+      console.error(`Failed to finalize proposal ${proposal.id}:`, err);
+    }
+  }
+}
+
+// Check for expired proposals forever; each round starts after the previous one finishes
+export function startFinalizer() {
+  const tick = async () => {
+    try {
+      await finalizeExpiredProposals();
+    } catch (err) {
+      console.error("Proposal finalizer error:", err);
+    } finally {
+      setTimeout(tick, POLL_INTERVAL_MS);
+    }
+  };
+
+  tick();
+}
@@ -1,6 +1,8 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { startIndexer } from "./indexer";
+import { startFinalizer } from "./finalizer";
 
 const app = express();
 app.use(express.json());
@@ -66,5 +68,15 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+
+    // Keep the database in sync with the TokenFactory and Governance contracts
+    if (process.env.INDEXER_ENABLED !== "false") {
+      startIndexer();
+    }
+
+    // Record the outcome of proposals once their voting period ends
+    if (process.env.FINALIZER_ENABLED !== "false") {
+      startFinalizer();
+    }
   });
 })();
@@ -0,0 +1,311 @@
+import { ethers } from "ethers";
+import {
+  CUSTOM_TOKEN_ABI,
+  TOKEN_FACTORY_ABI,
+  GOVERNANCE_ABI,
+  VOTE_SUPPORT,
+} from "@shared/contracts";
+import { getActiveNetwork, getProvider } from "./chain";
+import { storage } from "./storage";
+import { broadcastProposal, broadcastVote } from "./realtime";
+import { log } from "./vite";
+
+const INDEXER_NAME = "contracts";
+
+// Blocks behind the head we wait for before indexing
+const CONFIRMATIONS = Number(process.env.INDEXER_CONFIRMATIONS || 3);
+// How far back we rewind when the cursor block is no longer canonical
+const REORG_DEPTH = 64;
+// Upper bound for a single eth_getLogs request
+const MAX_BLOCK_RANGE = 2000;
+const POLL_INTERVAL_MS = Number(process.env.INDEXER_POLL_INTERVAL_MS || 15000);
+
+const factoryInterface = new ethers.Interface(TOKEN_FACTORY_ABI);
+const governanceInterface = new ethers.Interface(GOVERNANCE_ABI);
+const tokenInterface = new ethers.Interface(CUSTOM_TOKEN_ABI);
+
+// Smallest whole percentage matching Governance.createProposal's floored quorum value
+const quorumPercent = (quorumValue: bigint, totalSupply: bigint) => {
+  if (totalSupply === BigInt(0)) return 0;
+  return Number((quorumValue * BigInt(100) + totalSupply - BigInt(1)) / totalSupply);
+};
+
+// Map Governance.castVote support values to vote directions
+const voteDirectionFor = (support: number) => {
+  switch (support) {
+    case VOTE_SUPPORT.for:
+      return "for";
+    case VOTE_SUPPORT.abstain:
+      return "abstain";
+    default:
+      return "against";
+  }
+};
+
+const handleFactoryLog = async (entry: ethers.Log) => {
+  const event = factoryInterface.parseLog({ topics: [...entry.topics], data: entry.data });
+  if (!event || event.name !== "TokenCreated") return;
+
+  await storage.upsertChainToken(
+    {
+      name: event.args.name,
+      symbol: event.args.symbol,
+      totalSupply: event.args.initialSupply.toString(),
+      decimals: Number(event.args.decimals),
+      contractAddress: event.args.tokenAddress,
+      creatorAddress: event.args.creator,
+      isTransferable: event.args.transferable,
+      chainId: getActiveNetwork().chainId,
+    },
+    entry.blockNumber
+  );
+};
+
+// Governance events that carry a proposalId; anything else, such as TimelockDelayChanged from
+// deployments that still had setTimelockDelay, has no proposal to update and is skipped
+const PROPOSAL_EVENTS = new Set(["ProposalCreated", "VoteCast", "ProposalQueued", "ProposalExecuted"]);
+
+const handleGovernanceLog = async (entry: ethers.Log) => {
+  const event = governanceInterface.parseLog({ topics: [...entry.topics], data: entry.data });
+  if (!event || !PROPOSAL_EVENTS.has(event.name)) return;
+
+  const chainProposalId = Number(event.args.proposalId);
+
+  if (event.name === "ProposalCreated") {
+    const provider = getProvider();
+    const governance = new ethers.Contract(getActiveNetwork().contracts.governance, GOVERNANCE_ABI, provider);
+    const token = new ethers.Contract(event.args.tokenAddress, CUSTOM_TOKEN_ABI, provider);
+
+    // The event omits the description and actions, so read them from the contract
+    const snapshotBlock = Number(event.args.snapshotBlock);
+    const [onChain, onChainActions, totalSupply] = await Promise.all([
+      governance.getProposal(chainProposalId),
+      governance.getActions(chainProposalId),
+      token.getPastTotalSupply(snapshotBlock),
+    ]);
+    const knownToken = await storage.getTokenByAddress(event.args.tokenAddress);
+    const tokenSymbol = knownToken ? knownToken.symbol : await token.symbol();
+    const tokenDecimals = knownToken ? knownToken.decimals : Number(await token.decimals());
+
+    const created = await storage.upsertChainProposal(
+      {
+        chainProposalId,
+        chainId: getActiveNetwork().chainId,
+        title: event.args.title,
+        description: onChain.description,
+        creatorAddress: event.args.creator,
+        tokenAddress: event.args.tokenAddress,
+        tokenSymbol,
+        tokenDecimals,
+        startDate: new Date(Number(event.args.startTime) * 1000),
+        endDate: new Date(Number(event.args.endTime) * 1000),
+        snapshotBlock,
+        proposalType: "binary",
+        quorum: quorumPercent(event.args.quorum, totalSupply),
+        snapshotTotalSupply: totalSupply.toString(),
+        quorumThreshold: event.args.quorum.toString(),
+        actions: onChainActions.targets.map((target: string, i: number) => ({
+          target,
+          value: onChainActions.values[i].toString(),
+          calldata: onChainActions.calldatas[i],
+        })),
+      },
+      entry.blockNumber
+    );
+    broadcastProposal("proposal_created", created);
+    return;
+  }
+
+  const proposal = await storage.getProposalByChainId(getActiveNetwork().chainId, chainProposalId);
+  if (!proposal) {
+    log(`skipping ${event.name} for unknown proposal ${chainProposalId}`, "indexer");
+    return;
+  }
+
+  if (event.name === "VoteCast") {
+    const vote = await storage.upsertChainVote(
+      {
+        proposalId: proposal.id,
+        voterAddress: event.args.voter,
+        voteAmount: event.args.weight.toString(),
+        voteDirection: voteDirectionFor(Number(event.args.support)),
+      },
+      entry.transactionHash,
+      entry.blockNumber
+    );
+    broadcastVote(vote);
+  } else if (event.name === "ProposalQueued") {
+    await storage.markProposalQueued(
+      proposal.id,
+      new Date(Number(event.args.eta) * 1000),
+      entry.blockNumber
+    );
+  } else if (event.name === "ProposalExecuted") {
+    const executed = await storage.markProposalExecuted(proposal.id, entry.blockNumber);
+    broadcastProposal("proposal_closed", executed);
+  }
+};
+
+// Block timestamps, fetched once per block during a sync round
+const getBlockTime = async (blockNumber: number, cache: Map<number, Date>): Promise<Date> => {
+  const cached = cache.get(blockNumber);
+  if (cached) return cached;
+
+  const block = await getProvider().getBlock(blockNumber);
+  if (!block) {
+    throw new Error(`Block ${blockNumber} not found`);
+  }
+  const time = new Date(block.timestamp * 1000);
+  cache.set(blockNumber, time);
+  return time;
+};
+
+const handleTokenLog = async (entry: ethers.Log, blockTimes: Map<number, Date>) => {
+  const event = tokenInterface.parseLog({ topics: [...entry.topics], data: entry.data });
+  if (!event) return;
+
+  if (event.name === "Transfer") {
+    await storage.recordTransfer({
+      tokenAddress: entry.address,
+      fromAddress: event.args.from,
+      toAddress: event.args.to,
+      value: event.args.value.toString(),
+      blockNumber: entry.blockNumber,
+      blockTimestamp: await getBlockTime(entry.blockNumber, blockTimes),
+      transactionHash: entry.transactionHash,
+      logIndex: entry.index,
+    });
+    return;
+  }
+
+  if (event.name !== "DelegateChanged") return;
+
+  await storage.recordDelegation({
+    tokenAddress: entry.address,
+    delegatorAddress: event.args.delegator,
+    delegateAddress: event.args.toDelegate,
+    blockNumber: entry.blockNumber,
+    transactionHash: entry.transactionHash,
+    logIndex: entry.index,
+  });
+};
+
+// Index confirmed logs since the stored cursor, rewinding first if the cursor was reorged out
+export async function syncChain(): Promise<void> {
+  const provider = getProvider();
+  const { chainId, name, contracts, deploymentBlock } = getActiveNetwork();
+  const contractAddresses = [contracts.tokenFactory, contracts.governance].filter(Boolean);
+  const head = await provider.getBlockNumber();
+  const target = head - CONFIRMATIONS;
+
+  let fromBlock: number;
+  const state = await storage.getIndexerState(INDEXER_NAME);
+  if (!state) {
+    // Starting anywhere later would silently miss every earlier token, proposal and vote
+    const startBlock = process.env.INDEXER_START_BLOCK
+      ? Number(process.env.INDEXER_START_BLOCK)
+      : deploymentBlock;
+    if (startBlock == null || !Number.isInteger(startBlock) || startBlock < 0) {
+      throw new Error(
+        `No block to start indexing ${name} from: set INDEXER_START_BLOCK or the network's deploymentBlock in shared/networks.ts`
+      );
+    }
+    fromBlock = startBlock;
+  } else {
+    const cursorBlock = await provider.getBlock(state.blockNumber);
+    if (!cursorBlock || cursorBlock.hash !== state.blockHash) {
+      const safeBlockNumber = Math.max(0, state.blockNumber - REORG_DEPTH);
+      log(`reorg detected at block ${state.blockNumber}, rewinding to ${safeBlockNumber}`, "indexer");
+
+      await storage.rollbackChainData(safeBlockNumber);
+      const safeBlock = await provider.getBlock(safeBlockNumber);
+      if (!safeBlock?.hash) {
+        throw new Error(`Block ${safeBlockNumber} not found`);
+      }
+      await storage.setIndexerState(INDEXER_NAME, safeBlockNumber, safeBlock.hash);
+      fromBlock = safeBlockNumber + 1;
+    } else {
+      fromBlock = state.blockNumber + 1;
+    }
+  }
+
+  while (fromBlock <= target) {
+    const toBlock = Math.min(fromBlock + MAX_BLOCK_RANGE - 1, target);
+
+    const logs = await provider.getLogs({
+      address: contractAddresses,
+      fromBlock,
+      toBlock,
+    });
+
+    for (const entry of logs) {
+      if (entry.address.toLowerCase() === contracts.tokenFactory.toLowerCase()) {
+        await handleFactoryLog(entry);
+      } else {
+        await handleGovernanceLog(entry);
+      }
+    }
+
+    // Token events, read after TokenCreated so tokens from this range are included
+    const tokenAddresses = (await storage.getAllTokens())
+      .filter(token => token.chainId === chainId)
+      .map(token => token.contractAddress);
+    const tokenLogs = tokenAddresses.length === 0 ? [] : await provider.getLogs({
+      address: tokenAddresses,
+      topics: [[
+        tokenInterface.getEvent("DelegateChanged")!.topicHash,
+        tokenInterface.getEvent("Transfer")!.topicHash,
+      ]],
+      fromBlock,
+      toBlock,
+    });
+
+    const blockTimes = new Map<number, Date>();
+    for (const entry of tokenLogs) {
+      await handleTokenLog(entry, blockTimes);
+    }
+
+    const block = await provider.getBlock(toBlock);
+    if (!block?.hash) {
+      throw new Error(`Block ${toBlock} not found`);
+    }
+    await storage.setIndexerState(INDEXER_NAME, toBlock, block.hash);
+
+    const eventCount = logs.length + tokenLogs.length;
+    if (eventCount > 0) {
+      log(`indexed ${eventCount} events up to block ${toBlock}`, "indexer");
+    }
+    fromBlock = toBlock + 1;
+  }
+}
+
+// Timestamp of the last indexed block, or null before the first sync
+export async function getIndexedTime(): Promise<Date | null> {
+  const state = await storage.getIndexerState(INDEXER_NAME);
+  if (!state) return null;
+
+  const block = await getProvider().getBlock(state.blockNumber);
+  return block ? new Date(block.timestamp * 1000) : null;
+}
+
+// Poll the chain forever; each round starts after the previous one finishes
+export function startIndexer() {
+  const tick = async () => {
+    try {
+      await syncChain();
+    } catch (err) {
+      console.error("Chain indexer error:", err);
+    } finally {
+      setTimeout(tick, POLL_INTERVAL_MS);
+    }
+  };
+
+  const { name, contracts } = getActiveNetwork();
+  if (!contracts.tokenFactory && !contracts.governance) {
+    log(`no contracts are deployed on ${name}, indexer not started`, "indexer");
+    return;
+  }
+
+  log(`following contracts on ${name} at ${contracts.tokenFactory} and ${contracts.governance}`, "indexer");
+  tick();
+}
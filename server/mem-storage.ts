@@ -0,0 +1,831 @@
+import {
+  type User, type InsertUser,
+  type Token, type InsertToken,
+  type Proposal, type NewProposal,
+  type ProposalOption,
+  type ProposalAction, type InsertProposalAction,
+  type Vote, type InsertVote,
+  type Delegation, type InsertDelegation,
+  type TokenTransfer, type InsertTokenTransfer,
+  type TokenBalance,
+  type Distribution, type DistributionRecipient, type RecordDistribution,
+  type Airdrop, type InsertAirdrop, type AirdropAllocation, type InsertAirdropAllocation,
+  type VestingSchedule, type InsertVestingSchedule,
+  type IndexerState,
+  type ProposalResult, type ActivityCounts
+} from "@shared/schema";
+import { ethers } from "ethers";
+import { sumTokenAmounts } from "@shared/token-amount";
+import { DEFAULT_CHAIN_ID } from "@shared/networks";
+import { paginateRows, type Page, type PageOptions } from "./pagination";
+import { DuplicateVoteError, VotingClosedError } from "./storage-errors";
+import type {
+  IStorage,
+  TokenFilter,
+  ProposalFilter,
+  VoteFilter,
+  VestingFilter,
+  PlatformTotals,
+} from "./storage";
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+// Mirrors the unique constraints of the Postgres schema
+class UniqueViolationError extends Error {
+  constructor(constraint: string) {
+    super(`duplicate key value violates unique constraint "${constraint}"`);
+    this.name = "UniqueViolationError";
+  }
+}
+
+// IStorage kept in process memory, for local development and demos without Postgres.
+// Rows are copied in and out so callers cannot mutate stored state.
+export class MemStorage implements IStorage {
+  private users = new Map<number, User>();
+  private tokens = new Map<number, Token>();
+  private proposals = new Map<number, Proposal>();
+  private proposalOptions = new Map<number, ProposalOption>();
+  private proposalActions = new Map<number, ProposalAction>();
+  private votes = new Map<number, Vote>();
+  private delegations = new Map<number, Delegation>();
+  private tokenTransfers = new Map<number, TokenTransfer>();
+  private tokenBalances = new Map<number, TokenBalance>();
+  private distributions = new Map<number, Distribution>();
+  private distributionRecipients = new Map<number, DistributionRecipient>();
+  private airdrops = new Map<number, Airdrop>();
+  private airdropAllocations = new Map<number, AirdropAllocation>();
+  private vestingSchedules = new Map<number, VestingSchedule>();
+  private indexerStates = new Map<string, IndexerState>();
+  private nextIds = {
+    users: 1,
+    tokens: 1,
+    proposals: 1,
+    proposalOptions: 1,
+    proposalActions: 1,
+    votes: 1,
+    delegations: 1,
+    tokenTransfers: 1,
+    tokenBalances: 1,
+    distributions: 1,
+    distributionRecipients: 1,
+    airdrops: 1,
+    airdropAllocations: 1,
+    vestingSchedules: 1,
+  };
+
+  // User operations
+  async getUser(id: number): Promise<User | undefined> {
+    const user = this.users.get(id);
+    return user && { ...user };
+  }
+
+  async getUserByWalletAddress(walletAddress: string): Promise<User | undefined> {
+    const user = Array.from(this.users.values()).find(user => sameAddress(user.walletAddress, walletAddress));
+    return user && { ...user };
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    if (Array.from(this.users.values()).some(user => user.walletAddress === insertUser.walletAddress)) {
+      throw new UniqueViolationError("users_wallet_address_unique");
+    }
+    const user: User = {
+      id: this.nextIds.users++,
+      walletAddress: insertUser.walletAddress,
+      walletAddressLower: insertUser.walletAddress.toLowerCase(),
+      createdAt: new Date(),
+    };
+    this.users.set(user.id, user);
+    return { ...user };
+  }
+
+  // Token operations
+  async getTokenById(id: number): Promise<Token | undefined> {
+    const token = this.tokens.get(id);
+    return token && { ...token };
+  }
+
+  async getTokenByAddress(contractAddress: string): Promise<Token | undefined> {
+    const token = Array.from(this.tokens.values()).find(token => sameAddress(token.contractAddress, contractAddress));
+    return token && { ...token };
+  }
+
+  async getAllTokens(): Promise<Token[]> {
+    return Array.from(this.tokens.values()).map(token => ({ ...token }));
+  }
+
+  async listTokens(filter: TokenFilter, page: PageOptions): Promise<Page<Token>> {
+    const matching = Array.from(this.tokens.values()).filter(token =>
+      filter.creatorAddress === undefined || sameAddress(token.creatorAddress, filter.creatorAddress)
+    );
+    const result = paginateRows(matching, page);
+    return { ...result, items: result.items.map(token => ({ ...token })) };
+  }
+
+  async createToken(insertToken: InsertToken): Promise<Token> {
+    return this.insertToken(insertToken, null);
+  }
+
+  // Proposal operations
+  async getProposalById(id: number): Promise<Proposal | undefined> {
+    const proposal = this.proposals.get(id);
+    return proposal && { ...proposal };
+  }
+
+  async listProposals(filter: ProposalFilter, page: PageOptions): Promise<Page<Proposal>> {
+    const now = new Date();
+    const matching = this.findProposals(proposal =>
+      (filter.tokenAddress === undefined || sameAddress(proposal.tokenAddress, filter.tokenAddress)) &&
+      (filter.creatorAddress === undefined || sameAddress(proposal.creatorAddress, filter.creatorAddress)) &&
+      (!filter.active || (proposal.status === "active" && proposal.endDate > now))
+    );
+    return paginateRows(matching, page);
+  }
+
+  async createProposal(insertProposal: NewProposal): Promise<Proposal> {
+    const { options, actions, ...values } = insertProposal;
+    const proposal = this.insertProposal(values, null);
+
+    options?.forEach((label, position) => {
+      const option: ProposalOption = {
+        id: this.nextIds.proposalOptions++,
+        proposalId: proposal.id,
+        label,
+        position,
+        votes: "0",
+      };
+      this.proposalOptions.set(option.id, option);
+    });
+
+    if (actions?.length) {
+      this.replaceProposalActions(proposal.id, actions);
+    }
+
+    return { ...proposal };
+  }
+
+  async updateProposalVotes(id: number, votesFor: string, votesAgainst: string, votesAbstain: string): Promise<Proposal> {
+    return this.updateProposal(id, { votesFor, votesAgainst, votesAbstain });
+  }
+
+  async closeProposal(id: number): Promise<Proposal> {
+    return this.updateProposal(id, { status: "completed" });
+  }
+
+  async getProposalOptions(proposalIds: number[]): Promise<ProposalOption[]> {
+    return Array.from(this.proposalOptions.values())
+      .filter(option => proposalIds.includes(option.proposalId))
+      .sort((a, b) => a.proposalId - b.proposalId || a.position - b.position)
+      .map(option => ({ ...option }));
+  }
+
+  async getProposalActions(proposalIds: number[]): Promise<ProposalAction[]> {
+    return Array.from(this.proposalActions.values())
+      .filter(action => proposalIds.includes(action.proposalId))
+      .sort((a, b) => a.proposalId - b.proposalId || a.position - b.position)
+      .map(action => ({ ...action }));
+  }
+
+  async getProposalsToFinalize(now: Date): Promise<Proposal[]> {
+    return this.findProposals(proposal => proposal.result == null && proposal.endDate <= now);
+  }
+
+  async finalizeProposal(
+    id: number,
+    result: ProposalResult,
+    winningOptionId: number | null
+  ): Promise<Proposal | undefined> {
+    const proposal = this.proposals.get(id);
+    if (!proposal || proposal.result != null) return undefined;
+    return this.updateProposal(id, {
+      result,
+      winningOptionId,
+      status: "completed",
+      finalizedAt: new Date(),
+    });
+  }
+
+  // Vote operations
+  async getVoteById(id: number): Promise<Vote | undefined> {
+    const vote = this.votes.get(id);
+    return vote && { ...vote };
+  }
+
+  async listVotes(filter: VoteFilter, page: PageOptions): Promise<Page<Vote>> {
+    const matching = Array.from(this.votes.values()).filter(vote =>
+      (filter.proposalId === undefined || vote.proposalId === filter.proposalId) &&
+      (filter.voterAddress === undefined || sameAddress(vote.voterAddress, filter.voterAddress))
+    );
+    const result = paginateRows(matching, page);
+    return { ...result, items: result.items.map(vote => ({ ...vote })) };
+  }
+
+  async createVote(insertVote: InsertVote): Promise<Vote> {
+    const proposal = this.proposals.get(insertVote.proposalId);
+    if (!proposal) {
+      throw new Error(`Proposal with id ${insertVote.proposalId} not found`);
+    }
+    if (proposal.status !== "active" || proposal.endDate <= new Date()) {
+      throw new VotingClosedError(proposal.id);
+    }
+    // Checked without awaiting, so concurrent calls cannot both pass
+    const duplicate = Array.from(this.votes.values()).some(vote =>
+      vote.proposalId === insertVote.proposalId && sameAddress(vote.voterAddress, insertVote.voterAddress)
+    );
+    if (duplicate) {
+      throw new DuplicateVoteError(insertVote.proposalId, insertVote.voterAddress);
+    }
+    const vote = this.insertVote(insertVote, null, null);
+    this.adjustTallies(vote, 1);
+    return { ...vote };
+  }
+
+  async hasVoted(proposalId: number, voterAddress: string): Promise<boolean> {
+    return Array.from(this.votes.values()).some(vote =>
+      vote.proposalId === proposalId && sameAddress(vote.voterAddress, voterAddress)
+    );
+  }
+
+  // Delegation operations
+  async getCurrentDelegations(tokenAddress: string): Promise<Delegation[]> {
+    const latest = new Map<string, Delegation>();
+    for (const delegation of Array.from(this.delegations.values())) {
+      if (!sameAddress(delegation.tokenAddress, tokenAddress)) continue;
+      const current = latest.get(delegation.delegatorAddress);
+      if (
+        !current ||
+        delegation.blockNumber > current.blockNumber ||
+        (delegation.blockNumber === current.blockNumber && delegation.logIndex > current.logIndex)
+      ) {
+        latest.set(delegation.delegatorAddress, delegation);
+      }
+    }
+    return Array.from(latest.values())
+      .sort((a, b) => a.delegatorAddress.localeCompare(b.delegatorAddress))
+      .map(delegation => ({ ...delegation }));
+  }
+
+  async recordDelegation(insertDelegation: InsertDelegation): Promise<void> {
+    const duplicate = Array.from(this.delegations.values()).some(delegation =>
+      delegation.transactionHash === insertDelegation.transactionHash &&
+      delegation.logIndex === insertDelegation.logIndex
+    );
+    if (duplicate) return;
+
+    const delegation: Delegation = {
+      ...insertDelegation,
+      id: this.nextIds.delegations++,
+      tokenAddressLower: insertDelegation.tokenAddress.toLowerCase(),
+      createdAt: new Date(),
+    };
+    this.delegations.set(delegation.id, delegation);
+  }
+
+  // Transfer operations
+  async recordTransfer(insertTransfer: InsertTokenTransfer): Promise<void> {
+    const duplicate = Array.from(this.tokenTransfers.values()).some(transfer =>
+      transfer.transactionHash === insertTransfer.transactionHash &&
+      transfer.logIndex === insertTransfer.logIndex
+    );
+    if (duplicate) return;
+
+    const transfer: TokenTransfer = {
+      ...insertTransfer,
+      id: this.nextIds.tokenTransfers++,
+      tokenAddressLower: insertTransfer.tokenAddress.toLowerCase(),
+    };
+    this.tokenTransfers.set(transfer.id, transfer);
+    this.applyTransfer(transfer);
+  }
+
+  async listTokenHolders(tokenAddress: string, page: PageOptions): Promise<Page<TokenBalance>> {
+    const result = paginateRows(this.findHolders(tokenAddress), page);
+    return { ...result, items: result.items.map(balance => ({ ...balance })) };
+  }
+
+  async getTokenHolderCount(tokenAddress: string): Promise<number> {
+    return this.findHolders(tokenAddress).length;
+  }
+
+  async getSupplyChanges(tokenAddress: string): Promise<TokenTransfer[]> {
+    return Array.from(this.tokenTransfers.values())
+      .filter(transfer =>
+        sameAddress(transfer.tokenAddress, tokenAddress) &&
+        (transfer.fromAddress === ethers.ZeroAddress || transfer.toAddress === ethers.ZeroAddress)
+      )
+      .sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex)
+      .map(transfer => ({ ...transfer }));
+  }
+
+  // Statistics operations
+  async getPlatformTotals(now: Date): Promise<PlatformTotals> {
+    const allVotes = Array.from(this.votes.values());
+    return {
+      tokenCount: this.tokens.size,
+      activeProposalCount: Array.from(this.proposals.values())
+        .filter(proposal => proposal.status === "active" && proposal.endDate > now).length,
+      totalVotes: allVotes.length,
+      uniqueVoters: new Set(allVotes.map(vote => vote.voterAddressLower)).size,
+    };
+  }
+
+  async getActivityCounts(from: Date, to: Date): Promise<ActivityCounts> {
+    const within = (date: Date) => date > from && date <= to;
+    const windowVotes = Array.from(this.votes.values()).filter(vote => within(vote.timestamp));
+    return {
+      tokens: Array.from(this.tokens.values()).filter(token => within(token.createdAt)).length,
+      proposals: Array.from(this.proposals.values()).filter(proposal => within(proposal.createdAt)).length,
+      votes: windowVotes.length,
+      voters: new Set(windowVotes.map(vote => vote.voterAddressLower)).size,
+    };
+  }
+
+  async getDailyVoteCounts(from: Date): Promise<{ date: string; votes: number }[]> {
+    const counts = new Map<string, number>();
+    for (const vote of Array.from(this.votes.values())) {
+      if (vote.timestamp < from) continue;
+      const date = vote.timestamp.toISOString().slice(0, 10);
+      counts.set(date, (counts.get(date) ?? 0) + 1);
+    }
+    return Array.from(counts.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([date, votes]) => ({ date, votes }));
+  }
+
+  // Distribution operations
+  async createDistribution(senderAddress: string, insertDistribution: RecordDistribution): Promise<Distribution> {
+    const distribution: Distribution = {
+      id: this.nextIds.distributions++,
+      tokenAddress: insertDistribution.tokenAddress,
+      tokenAddressLower: insertDistribution.tokenAddress.toLowerCase(),
+      senderAddress,
+      senderAddressLower: senderAddress.toLowerCase(),
+      recipientCount: insertDistribution.recipients.length,
+      totalAmount: sumTokenAmounts(insertDistribution.recipients.map(recipient => recipient.amount)),
+      createdAt: new Date(),
+    };
+    this.distributions.set(distribution.id, distribution);
+
+    for (const recipient of insertDistribution.recipients) {
+      const id = this.nextIds.distributionRecipients++;
+      this.distributionRecipients.set(id, { ...recipient, id, distributionId: distribution.id });
+    }
+    return { ...distribution };
+  }
+
+  // Airdrop operations
+  async createAirdrop(insertAirdrop: InsertAirdrop, allocations: InsertAirdropAllocation[]): Promise<Airdrop> {
+    const airdrop: Airdrop = {
+      ...insertAirdrop,
+      id: this.nextIds.airdrops++,
+      tokenAddressLower: insertAirdrop.tokenAddress.toLowerCase(),
+      distributorAddress: null,
+      createdAt: new Date(),
+    };
+    this.airdrops.set(airdrop.id, airdrop);
+
+    for (const allocation of allocations) {
+      const id = this.nextIds.airdropAllocations++;
+      this.airdropAllocations.set(id, {
+        ...allocation,
+        id,
+        airdropId: airdrop.id,
+        accountLower: allocation.account.toLowerCase(),
+        proof: [...allocation.proof],
+      });
+    }
+    return { ...airdrop };
+  }
+
+  async getAirdropById(id: number): Promise<Airdrop | undefined> {
+    const airdrop = this.airdrops.get(id);
+    return airdrop ? { ...airdrop } : undefined;
+  }
+
+  async getAirdropAllocation(airdropId: number, account: string): Promise<AirdropAllocation | undefined> {
+    const allocation = Array.from(this.airdropAllocations.values()).find(allocation =>
+      allocation.airdropId === airdropId && sameAddress(allocation.account, account)
+    );
+    return allocation ? { ...allocation, proof: [...allocation.proof] } : undefined;
+  }
+
+  async setAirdropDistributor(id: number, distributorAddress: string, endTime: Date): Promise<Airdrop | undefined> {
+    const airdrop = this.airdrops.get(id);
+    if (!airdrop || airdrop.distributorAddress !== null) return undefined;
+
+    const updated = { ...airdrop, distributorAddress, endTime };
+    this.airdrops.set(id, updated);
+    return { ...updated };
+  }
+
+  // Vesting operations
+  async createVestingSchedule(insertSchedule: InsertVestingSchedule): Promise<VestingSchedule> {
+    if (await this.getVestingScheduleByAddress(insertSchedule.vestingAddress)) {
+      throw new UniqueViolationError("vesting_schedules_vesting_address_unique");
+    }
+
+    const schedule: VestingSchedule = {
+      ...insertSchedule,
+      id: this.nextIds.vestingSchedules++,
+      vestingAddressLower: insertSchedule.vestingAddress.toLowerCase(),
+      tokenAddressLower: insertSchedule.tokenAddress.toLowerCase(),
+      beneficiaryAddressLower: insertSchedule.beneficiaryAddress.toLowerCase(),
+      createdAt: new Date(),
+    };
+    this.vestingSchedules.set(schedule.id, schedule);
+    return { ...schedule };
+  }
+
+  async getVestingScheduleByAddress(vestingAddress: string): Promise<VestingSchedule | undefined> {
+    const schedule = Array.from(this.vestingSchedules.values()).find(schedule =>
+      sameAddress(schedule.vestingAddress, vestingAddress)
+    );
+    return schedule ? { ...schedule } : undefined;
+  }
+
+  async listVestingSchedules(filter: VestingFilter, page: PageOptions): Promise<Page<VestingSchedule>> {
+    const matching = Array.from(this.vestingSchedules.values()).filter(schedule =>
+      (filter.tokenAddress === undefined || sameAddress(schedule.tokenAddress, filter.tokenAddress)) &&
+      (filter.beneficiaryAddress === undefined || sameAddress(schedule.beneficiaryAddress, filter.beneficiaryAddress))
+    );
+    const result = paginateRows(matching, page);
+    return { ...result, items: result.items.map(schedule => ({ ...schedule })) };
+  }
+
+  // Chain sync operations
+  async getProposalByChainId(chainId: number, chainProposalId: number): Promise<Proposal | undefined> {
+    const [proposal] = await this.findProposals(proposal =>
+      proposal.chainId === chainId && proposal.chainProposalId === chainProposalId
+    );
+    return proposal;
+  }
+
+  async upsertChainToken(insertToken: InsertToken, blockNumber: number): Promise<Token> {
+    const existing = Array.from(this.tokens.values())
+      .find(token => sameAddress(token.contractAddress, insertToken.contractAddress));
+    if (!existing) {
+      return this.insertToken(insertToken, blockNumber);
+    }
+
+    const token: Token = {
+      ...existing,
+      ...insertToken,
+      creatorAddressLower: insertToken.creatorAddress.toLowerCase(),
+      decimals: insertToken.decimals ?? existing.decimals,
+      isTransferable: insertToken.isTransferable ?? existing.isTransferable,
+      chainId: insertToken.chainId ?? existing.chainId,
+      blockNumber,
+    };
+    this.tokens.set(token.id, token);
+    return { ...token };
+  }
+
+  async upsertChainProposal(
+    insertProposal: NewProposal & { chainProposalId: number },
+    blockNumber: number
+  ): Promise<Proposal> {
+    const { options, actions, ...values } = insertProposal;
+    const chainId = values.chainId ?? DEFAULT_CHAIN_ID;
+    const existing = Array.from(this.proposals.values())
+      .find(proposal => proposal.chainId === chainId && proposal.chainProposalId === values.chainProposalId);
+
+    let proposal: Proposal;
+    if (existing) {
+      proposal = { ...existing };
+      for (const [key, value] of Object.entries(values)) {
+        if (value !== undefined) {
+          (proposal as Record<string, unknown>)[key] = value;
+        }
+      }
+      proposal.creatorAddressLower = proposal.creatorAddress.toLowerCase();
+      proposal.tokenAddressLower = proposal.tokenAddress.toLowerCase();
+      proposal.blockNumber = blockNumber;
+      this.proposals.set(proposal.id, proposal);
+    } else {
+      proposal = this.insertProposal(values, blockNumber);
+    }
+
+    // The contract's actions replace whatever the creator submitted
+    if (actions) {
+      this.replaceProposalActions(proposal.id, actions);
+    }
+
+    return { ...proposal };
+  }
+
+  async upsertChainVote(insertVote: InsertVote, transactionHash: string, blockNumber: number): Promise<Vote> {
+    const existing = Array.from(this.votes.values()).find(vote =>
+      vote.proposalId === insertVote.proposalId && sameAddress(vote.voterAddress, insertVote.voterAddress)
+    );
+
+    let vote: Vote;
+    if (existing) {
+      // A re-indexed vote replaces its earlier weight instead of adding to it
+      this.adjustTallies(existing, -1);
+      vote = {
+        ...existing,
+        ...insertVote,
+        voterAddressLower: insertVote.voterAddress.toLowerCase(),
+        optionId: insertVote.optionId ?? existing.optionId,
+        transactionHash,
+        blockNumber,
+      };
+      this.votes.set(vote.id, vote);
+    } else {
+      vote = this.insertVote(insertVote, transactionHash, blockNumber);
+    }
+
+    this.adjustTallies(vote, 1);
+    return { ...vote };
+  }
+
+  async markProposalQueued(id: number, eta: Date, blockNumber: number): Promise<Proposal> {
+    return this.updateProposal(id, { eta, queuedBlock: blockNumber });
+  }
+
+  async markProposalExecuted(id: number, blockNumber: number): Promise<Proposal> {
+    return this.updateProposal(id, { status: "completed", executedBlock: blockNumber });
+  }
+
+  // Undo everything synced from blocks after blockNumber, e.g. after a reorg
+  async rollbackChainData(blockNumber: number): Promise<void> {
+    const isAfter = (value: number | null) => value != null && value > blockNumber;
+
+    const affectedIds = new Set<number>();
+    for (const vote of Array.from(this.votes.values())) {
+      if (isAfter(vote.blockNumber)) {
+        this.votes.delete(vote.id);
+        affectedIds.add(vote.proposalId);
+      }
+    }
+
+    for (const proposal of Array.from(this.proposals.values())) {
+      if (isAfter(proposal.blockNumber)) {
+        this.proposals.delete(proposal.id);
+        for (const action of Array.from(this.proposalActions.values())) {
+          if (action.proposalId === proposal.id) {
+            this.proposalActions.delete(action.id);
+          }
+        }
+      }
+    }
+    for (const token of Array.from(this.tokens.values())) {
+      if (isAfter(token.blockNumber)) {
+        this.tokens.delete(token.id);
+      }
+    }
+    for (const delegation of Array.from(this.delegations.values())) {
+      if (isAfter(delegation.blockNumber)) {
+        this.delegations.delete(delegation.id);
+      }
+    }
+
+    // Rebuild the balances of tokens that lost transfers from the transfers that remain
+    const affectedTokens = new Set<string>();
+    for (const transfer of Array.from(this.tokenTransfers.values())) {
+      if (isAfter(transfer.blockNumber)) {
+        this.tokenTransfers.delete(transfer.id);
+        affectedTokens.add(transfer.tokenAddressLower);
+      }
+    }
+    if (affectedTokens.size > 0) {
+      for (const balance of Array.from(this.tokenBalances.values())) {
+        if (affectedTokens.has(balance.tokenAddressLower)) {
+          this.tokenBalances.delete(balance.id);
+        }
+      }
+      for (const transfer of Array.from(this.tokenTransfers.values())) {
+        if (affectedTokens.has(transfer.tokenAddressLower)) {
+          this.applyTransfer(transfer);
+        }
+      }
+    }
+
+    for (const proposal of Array.from(this.proposals.values())) {
+      // An undone execution takes its outcome with it, so the finalizer records the proposal again
+      if (isAfter(proposal.executedBlock)) {
+        this.updateProposal(proposal.id, {
+          status: "active",
+          executedBlock: null,
+          result: null,
+          winningOptionId: null,
+          finalizedAt: null,
+        });
+      }
+      if (isAfter(proposal.queuedBlock)) {
+        this.updateProposal(proposal.id, { eta: null, queuedBlock: null });
+      }
+    }
+
+    for (const id of Array.from(affectedIds)) {
+      if (!this.proposals.has(id)) continue;
+      this.recountProposalVotes(id);
+      // Outcomes based on removed votes are recomputed by the finalizer
+      this.updateProposal(id, { status: "active", result: null, winningOptionId: null, finalizedAt: null });
+    }
+  }
+
+  async getIndexerState(name: string): Promise<IndexerState | undefined> {
+    const state = this.indexerStates.get(name);
+    return state && { ...state };
+  }
+
+  async setIndexerState(name: string, blockNumber: number, blockHash: string): Promise<IndexerState> {
+    const state: IndexerState = { name, blockNumber, blockHash, updatedAt: new Date() };
+    this.indexerStates.set(name, state);
+    return { ...state };
+  }
+
+  private findHolders(tokenAddress: string): TokenBalance[] {
+    return Array.from(this.tokenBalances.values())
+      .filter(balance => sameAddress(balance.tokenAddress, tokenAddress) && BigInt(balance.balance) > BigInt(0));
+  }
+
+  // Move a transfer's value between the sender's and recipient's balances
+  private applyTransfer(transfer: TokenTransfer) {
+    const changes: Array<[string, bigint]> = [
+      [transfer.toAddress, BigInt(transfer.value)],
+      [transfer.fromAddress, -BigInt(transfer.value)],
+    ];
+    for (const [holderAddress, delta] of changes) {
+      if (holderAddress === ethers.ZeroAddress) continue;
+      const existing = Array.from(this.tokenBalances.values()).find(balance =>
+        balance.tokenAddressLower === transfer.tokenAddressLower && balance.holderAddress === holderAddress
+      );
+      const balance: TokenBalance = existing
+        ? { ...existing, balance: sumTokenAmounts([existing.balance, delta]) }
+        : {
+            id: this.nextIds.tokenBalances++,
+            tokenAddress: transfer.tokenAddress,
+            tokenAddressLower: transfer.tokenAddressLower,
+            holderAddress,
+            balance: delta.toString(),
+          };
+      this.tokenBalances.set(balance.id, balance);
+    }
+  }
+
+  private findProposals(matches: (proposal: Proposal) => boolean): Proposal[] {
+    return Array.from(this.proposals.values())
+      .filter(matches)
+      .map(proposal => ({ ...proposal }));
+  }
+
+  private insertToken(insertToken: InsertToken, blockNumber: number | null): Token {
+    if (Array.from(this.tokens.values()).some(token => sameAddress(token.contractAddress, insertToken.contractAddress))) {
+      throw new UniqueViolationError("tokens_contract_address_unique");
+    }
+    const token: Token = {
+      ...insertToken,
+      id: this.nextIds.tokens++,
+      contractAddressLower: insertToken.contractAddress.toLowerCase(),
+      creatorAddressLower: insertToken.creatorAddress.toLowerCase(),
+      decimals: insertToken.decimals ?? 18,
+      isTransferable: insertToken.isTransferable ?? true,
+      chainId: insertToken.chainId ?? DEFAULT_CHAIN_ID,
+      blockNumber,
+      createdAt: new Date(),
+    };
+    this.tokens.set(token.id, token);
+    return { ...token };
+  }
+
+  private insertProposal(
+    values: Omit<NewProposal, "options" | "actions">,
+    blockNumber: number | null
+  ): Proposal {
+    const chainId = values.chainId ?? DEFAULT_CHAIN_ID;
+    if (
+      values.chainProposalId != null &&
+      Array.from(this.proposals.values()).some(proposal =>
+        proposal.chainId === chainId && proposal.chainProposalId === values.chainProposalId
+      )
+    ) {
+      throw new UniqueViolationError("proposals_chain_proposal_unique");
+    }
+    const proposal: Proposal = {
+      id: this.nextIds.proposals++,
+      title: values.title,
+      description: values.description,
+      creatorAddress: values.creatorAddress,
+      creatorAddressLower: values.creatorAddress.toLowerCase(),
+      tokenAddress: values.tokenAddress,
+      tokenAddressLower: values.tokenAddress.toLowerCase(),
+      tokenSymbol: values.tokenSymbol,
+      tokenDecimals: values.tokenDecimals ?? 18,
+      startDate: values.startDate,
+      endDate: values.endDate,
+      snapshotBlock: values.snapshotBlock ?? null,
+      quorum: values.quorum ?? 25,
+      snapshotTotalSupply: values.snapshotTotalSupply ?? null,
+      quorumThreshold: values.quorumThreshold ?? null,
+      proposalType: values.proposalType,
+      votesFor: "0",
+      votesAgainst: "0",
+      votesAbstain: "0",
+      status: "active",
+      result: null,
+      winningOptionId: null,
+      finalizedAt: null,
+      chainId,
+      chainProposalId: values.chainProposalId ?? null,
+      blockNumber,
+      eta: null,
+      queuedBlock: null,
+      executedBlock: null,
+      createdAt: new Date(),
+    };
+    this.proposals.set(proposal.id, proposal);
+    return proposal;
+  }
+
+  private updateProposal(id: number, changes: Partial<Proposal>): Proposal {
+    const existing = this.proposals.get(id);
+    if (!existing) {
+      throw new Error(`Proposal with id ${id} not found`);
+    }
+    const proposal = { ...existing, ...changes };
+    this.proposals.set(id, proposal);
+    return { ...proposal };
+  }
+
+  private insertVote(insertVote: InsertVote, transactionHash: string | null, blockNumber: number | null): Vote {
+    const vote: Vote = {
+      ...insertVote,
+      id: this.nextIds.votes++,
+      voterAddressLower: insertVote.voterAddress.toLowerCase(),
+      optionId: insertVote.optionId ?? null,
+      transactionHash,
+      blockNumber,
+      timestamp: new Date(),
+    };
+    this.votes.set(vote.id, vote);
+    return vote;
+  }
+
+  private replaceProposalActions(proposalId: number, actions: InsertProposalAction[]) {
+    for (const action of Array.from(this.proposalActions.values())) {
+      if (action.proposalId === proposalId) {
+        this.proposalActions.delete(action.id);
+      }
+    }
+    actions.forEach((action, position) => {
+      const row: ProposalAction = {
+        id: this.nextIds.proposalActions++,
+        proposalId,
+        position,
+        target: action.target,
+        value: action.value,
+        calldata: action.calldata,
+      };
+      this.proposalActions.set(row.id, row);
+    });
+  }
+
+  // Add a vote's weight to its option's tally or to votesFor/Against/Abstain, or take it away when
+  // sign is -1
+  private adjustTallies(vote: Vote, sign: 1 | -1) {
+    const amount = BigInt(vote.voteAmount) * BigInt(sign);
+
+    if (vote.voteDirection === "option") {
+      const option = vote.optionId != null ? this.proposalOptions.get(vote.optionId) : undefined;
+      if (option && option.proposalId === vote.proposalId) {
+        this.proposalOptions.set(option.id, { ...option, votes: sumTokenAmounts([option.votes, amount]) });
+      }
+      return;
+    }
+
+    const proposal = this.proposals.get(vote.proposalId);
+    if (!proposal) return;
+    if (vote.voteDirection === "for") {
+      this.updateProposal(proposal.id, { votesFor: sumTokenAmounts([proposal.votesFor, amount]) });
+    } else if (vote.voteDirection === "against") {
+      this.updateProposal(proposal.id, { votesAgainst: sumTokenAmounts([proposal.votesAgainst, amount]) });
+    } else if (vote.voteDirection === "abstain") {
+      this.updateProposal(proposal.id, { votesAbstain: sumTokenAmounts([proposal.votesAbstain, amount]) });
+    }
+  }
+
+  // Recompute a proposal's tallies from its recorded votes
+  private recountProposalVotes(proposalId: number) {
+    const proposalVotes = Array.from(this.votes.values()).filter(vote => vote.proposalId === proposalId);
+    const tally = (matches: (vote: Vote) => boolean) =>
+      sumTokenAmounts(proposalVotes.filter(matches).map((vote) => vote.voteAmount));
+
+    if (this.proposals.has(proposalId)) {
+      this.updateProposal(proposalId, {
+        votesFor: tally((vote) => vote.voteDirection === "for"),
+        votesAgainst: tally((vote) => vote.voteDirection === "against"),
+        votesAbstain: tally((vote) => vote.voteDirection === "abstain"),
+      });
+    }
+
+    for (const option of Array.from(this.proposalOptions.values())) {
+      if (option.proposalId === proposalId) {
+        this.proposalOptions.set(option.id, {
+          ...option,
+          votes: tally((vote) => vote.voteDirection === "option" && vote.optionId === option.id),
+        });
+      }
+    }
+  }
+}
@@ -0,0 +1,60 @@
+import { ethers } from "ethers";
+
+export interface MerkleAllocation {
+  account: string;
+  amount: string; // base units
+}
+
+export interface MerkleLeaf extends MerkleAllocation {
+  leafIndex: number;
+  proof: string[];
+}
+
+export interface MerkleTree {
+  root: string;
+  leaves: MerkleLeaf[];
+}
+
+// Leaf hash checked by MerkleDistributor.claim: keccak256(abi.encodePacked(index, account, amount))
+export function hashLeaf(leafIndex: number, account: string, amount: string): string {
+  return ethers.solidityPackedKeccak256(["uint256", "address", "uint256"], [leafIndex, account, amount]);
+}
+
+// Pairs are hashed in sorted order, as OpenZeppelin's MerkleProof expects
+const hashPair = (a: string, b: string) =>
+  ethers.keccak256(ethers.concat(a < b ? [a, b] : [b, a]));
+
+// Build the tree for allocations in the given order, with a proof for every leaf.
+// An odd node at the end of a level moves up unchanged.
+export function buildMerkleTree(allocations: MerkleAllocation[]): MerkleTree {
+  if (allocations.length === 0) {
+    throw new Error("A Merkle tree needs at least one allocation");
+  }
+
+  const layers: string[][] = [
+    allocations.map((allocation, index) => hashLeaf(index, allocation.account, allocation.amount)),
+  ];
+  while (layers[layers.length - 1].length > 1) {
+    const layer = layers[layers.length - 1];
+    const next: string[] = [];
+    for (let i = 0; i < layer.length; i += 2) {
+      next.push(i + 1 < layer.length ? hashPair(layer[i], layer[i + 1]) : layer[i]);
+    }
+    layers.push(next);
+  }
+
+  const leaves = allocations.map((allocation, leafIndex) => {
+    const proof: string[] = [];
+    let position = leafIndex;
+    for (const layer of layers.slice(0, -1)) {
+      const sibling = position ^ 1;
+      if (sibling < layer.length) {
+        proof.push(layer[sibling]);
+      }
+      position >>= 1;
+    }
+    return { ...allocation, leafIndex, proof };
+  });
+
+  return { root: layers[layers.length - 1][0], leaves };
+}
@@ -0,0 +1,74 @@
+import type { Request } from "express";
+import { type Proposal } from "@shared/schema";
+import { storage } from "./storage";
+
+const SITE_NAME = "TokenVote";
+const MAX_DESCRIPTION_LENGTH = 200;
+
+interface PageMeta {
+  title: string;
+  description: string;
+  url: string;
+}
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const truncate = (value: string, length: number) =>
+  value.length > length ? `${value.slice(0, length - 1).trimEnd()}…` : value;
+
+const describeProposal = (proposal: Proposal) => {
+  const endDate = proposal.endDate.toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+  const status = proposal.status === "active" && proposal.endDate > new Date()
+    ? `Voting open until ${endDate}`
+    : `Voting ended ${endDate}`;
+  return truncate(`${status} · ${proposal.tokenSymbol} proposal. ${proposal.description.replace(/\s+/g, " ")}`, MAX_DESCRIPTION_LENGTH);
+};
+
+// Link preview details for shareable pages; other pages keep the static head
+const getPageMeta = async (pathname: string, origin: string): Promise<PageMeta | undefined> => {
+  const match = /^\/proposals\/(\d+)\/?$/.exec(pathname);
+  if (!match) return undefined;
+
+  const proposal = await storage.getProposalById(Number(match[1]));
+  if (!proposal) return undefined;
+
+  return {
+    title: `${proposal.title} · ${SITE_NAME}`,
+    description: describeProposal(proposal),
+    url: `${origin}${pathname}`,
+  };
+};
+
+// Add Open Graph and Twitter card tags to index.html so pasted links get a preview
+export async function withPageMeta(req: Request, html: string): Promise<string> {
+  try {
+    const { pathname } = new URL(req.originalUrl, "http://localhost");
+    const meta = await getPageMeta(pathname, `${req.protocol}://${req.get("host")}`);
+    if (!meta) return html;
+
+    const title = escapeHtml(meta.title);
+    const description = escapeHtml(meta.description);
+    const tags = [
+      `<meta name="description" content="${description}" />`,
+      `<meta property="og:type" content="website" />`,
+      `<meta property="og:site_name" content="${SITE_NAME}" />`,
+      `<meta property="og:title" content="${title}" />`,
+      `<meta property="og:description" content="${description}" />`,
+      `<meta property="og:url" content="${escapeHtml(meta.url)}" />`,
+      `<meta name="twitter:card" content="summary" />`,
+      `<meta name="twitter:title" content="${title}" />`,
+      `<meta name="twitter:description" content="${description}" />`,
+    ].join("\n    ");
+
+    return html.replace(/<title>[\s\S]*?<\/title>/, () => `<title>${title}</title>\n    ${tags}`);
+  } catch (err) {
+    // A preview is optional; serve the page without one
+    console.error("Failed to build page meta tags:", err);
+    return html;
+  }
+}
@@ -0,0 +1,164 @@
+import { z } from "zod";
+
+export const DEFAULT_PAGE_SIZE = 100;
+export const MAX_PAGE_SIZE = 500;
+
+export interface SortOrder {
+  // Column compared before the id tie-breaker; null orders by id alone
+  field: string | null;
+  direction: "asc" | "desc";
+  // Set when field is a timestamp, so cursor values are turned back into dates
+  date?: boolean;
+  // Set when field holds integer strings, e.g. token balances, so they compare as numbers
+  numeric?: boolean;
+}
+
+// Ids are assigned in insertion order, so newest/oldest can page on the primary key
+export const TOKEN_SORTS = {
+  newest: { field: null, direction: "desc" },
+  oldest: { field: null, direction: "asc" },
+  name: { field: "name", direction: "asc" },
+} satisfies Record<string, SortOrder>;
+
+export const PROPOSAL_SORTS = {
+  newest: { field: null, direction: "desc" },
+  oldest: { field: null, direction: "asc" },
+  ending_soon: { field: "endDate", direction: "asc", date: true },
+} satisfies Record<string, SortOrder>;
+
+export const VOTE_SORTS = {
+  newest: { field: null, direction: "desc" },
+  oldest: { field: null, direction: "asc" },
+} satisfies Record<string, SortOrder>;
+
+export const VESTING_SORTS = {
+  newest: { field: null, direction: "desc" },
+  oldest: { field: null, direction: "asc" },
+} satisfies Record<string, SortOrder>;
+
+export const HOLDER_SORTS = {
+  largest: { field: "balance", direction: "desc", numeric: true },
+} satisfies Record<string, SortOrder>;
+
+// Position of the last row of a page; the next page starts strictly after it
+export interface Cursor {
+  value: string | Date | null;
+  id: number;
+}
+
+export interface PageOptions {
+  // Name of the sort order, recorded in cursors so they are not reused across orders
+  sort: string;
+  order: SortOrder;
+  limit: number;
+  after?: Cursor;
+}
+
+export interface Page<T> {
+  items: T[];
+  nextCursor: string | null;
+}
+
+type Row = { id: number } & Record<string, unknown>;
+
+const encodeCursor = (sort: string, order: SortOrder, row: Row): string => {
+  const value = order.field ? row[order.field] : null;
+  const payload = [sort, value instanceof Date ? value.toISOString() : value, row.id];
+  return Buffer.from(JSON.stringify(payload)).toString("base64url");
+};
+
+const decodeCursor = (cursor: string): [string, string | null, number] | undefined => {
+  try {
+    const payload = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (
+      Array.isArray(payload) &&
+      payload.length === 3 &&
+      typeof payload[0] === "string" &&
+      (typeof payload[1] === "string" || payload[1] === null) &&
+      Number.isInteger(payload[2])
+    ) {
+      return payload as [string, string | null, number];
+    }
+  } catch (err) {
+    // Fall through to the validation error
+  }
+  return undefined;
+};
+
+// Parse ?limit=&cursor=&sort= for a list route; invalid values throw a ZodError
+export function parsePageQuery(
+  query: Record<string, unknown>,
+  sorts: Record<string, SortOrder>,
+  defaultSort: string
+): PageOptions {
+  const { limit, sort, cursor } = z
+    .object({
+      limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE),
+      sort: z
+        .string()
+        .refine((value) => value in sorts, {
+          message: `Sort must be one of: ${Object.keys(sorts).join(", ")}`,
+        })
+        .default(defaultSort),
+      cursor: z.string().optional(),
+    })
+    .parse(query);
+
+  const order = sorts[sort];
+  if (cursor === undefined) {
+    return { sort, order, limit };
+  }
+
+  const decoded = decodeCursor(cursor);
+  const valid = decoded &&
+    decoded[0] === sort &&
+    (order.field !== null) === (decoded[1] !== null) &&
+    !(order.date && isNaN(Date.parse(decoded[1]!))) &&
+    !(order.numeric && !/^\d+$/.test(decoded[1]!));
+  if (!valid) {
+    throw new z.ZodError([
+      { code: z.ZodIssueCode.custom, path: ["cursor"], message: "Invalid cursor for this sort" },
+    ]);
+  }
+
+  const [, value, id] = decoded!;
+  return {
+    sort,
+    order,
+    limit,
+    after: { value: value !== null && order.date ? new Date(value) : value, id },
+  };
+}
+
+// Build a page from up to limit + 1 rows fetched in order
+export function toPage<T extends { id: number }>(rows: T[], { sort, order, limit }: PageOptions): Page<T> {
+  const items = rows.slice(0, limit);
+  const last = items[items.length - 1];
+  return {
+    items,
+    nextCursor: rows.length > limit && last ? encodeCursor(sort, order, last as unknown as Row) : null,
+  };
+}
+
+// Sort, seek and slice rows held in memory the same way the SQL keyset queries do
+export function paginateRows<T extends { id: number }>(rows: T[], options: PageOptions): Page<T> {
+  const { order, after } = options;
+  const sign = order.direction === "asc" ? 1 : -1;
+  const valueOf = (row: T) => (order.field ? (row as unknown as Row)[order.field] : null);
+  const compare = (value: unknown, id: number, other: unknown, otherId: number) => {
+    if (order.field) {
+      const key = (v: unknown) =>
+        v instanceof Date ? v.getTime() : order.numeric ? BigInt(v as string) : (v as string);
+      const a = key(value);
+      const b = key(other);
+      if (a < b) return -sign;
+      if (a > b) return sign;
+    }
+    return (id - otherId) * sign;
+  };
+
+  const sorted = rows
+    .filter((row) => !after || compare(valueOf(row), row.id, after.value, after.id) > 0)
+    .sort((a, b) => compare(valueOf(a), a.id, valueOf(b), b.id));
+  return toPage(sorted.slice(0, options.limit + 1), options);
+}
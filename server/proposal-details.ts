@@ -0,0 +1,21 @@
+import { type Proposal, type ProposalWithDetails } from "@shared/schema";
+import { getQuorumStatus } from "./quorum";
+import { storage } from "./storage";
+
+// Attach the choices of multiple-choice proposals and the actions of executable ones to API responses
+export async function withDetails(proposals: Proposal[]): Promise<ProposalWithDetails[]> {
+  const ids = proposals.map((proposal) => proposal.id);
+  const [options, actions] = await Promise.all([
+    storage.getProposalOptions(ids),
+    storage.getProposalActions(ids),
+  ]);
+  return proposals.map((proposal) => {
+    const proposalOptions = options.filter((option) => option.proposalId === proposal.id);
+    return {
+      ...proposal,
+      options: proposalOptions,
+      actions: actions.filter((action) => action.proposalId === proposal.id),
+      ...getQuorumStatus(proposal, proposalOptions),
+    };
+  });
+}
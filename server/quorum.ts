@@ -0,0 +1,35 @@
+import { type Proposal, type ProposalOption } from "@shared/schema";
+import { sumTokenAmounts } from "@shared/token-amount";
+
+// Absolute quorum in base units, floored like Governance.createProposal's quorumValue
+export const computeQuorumThreshold = (totalSupply: bigint, quorumPercent: number): bigint =>
+  (totalSupply * BigInt(quorumPercent)) / BigInt(100);
+
+// All votes cast on a proposal, abstentions included
+export const getTotalVotes = (proposal: Proposal, options: ProposalOption[]): bigint => {
+  const choiceVotes = proposal.proposalType === "multiple_choice"
+    ? options.map((option) => option.votes)
+    : [proposal.votesFor, proposal.votesAgainst];
+  return BigInt(sumTokenAmounts([...choiceVotes, proposal.votesAbstain]));
+};
+
+export interface QuorumStatus {
+  quorumReached: boolean;
+  // Share of the snapshot total supply that voted, in percent with two decimals
+  participation: number | null;
+}
+
+// Quorum progress of a proposal; proposals created before thresholds were stored report null participation
+export const getQuorumStatus = (proposal: Proposal, options: ProposalOption[]): QuorumStatus => {
+  const totalVotes = getTotalVotes(proposal, options);
+
+  const participation = proposal.snapshotTotalSupply != null && BigInt(proposal.snapshotTotalSupply) > BigInt(0)
+    ? Number((totalVotes * BigInt(10000)) / BigInt(proposal.snapshotTotalSupply)) / 100
+    : null;
+
+  const quorumReached = proposal.quorumThreshold != null
+    && totalVotes > BigInt(0)
+    && totalVotes >= BigInt(proposal.quorumThreshold);
+
+  return { quorumReached, participation };
+};
@@ -0,0 +1,75 @@
+import type { Server } from "http";
+import { WebSocketServer, WebSocket } from "ws";
+import { REALTIME_PATH, type RealtimeEvent } from "@shared/realtime";
+import { type Proposal, type Vote } from "@shared/schema";
+import { withDetails } from "./proposal-details";
+import { storage } from "./storage";
+
+// Connections that miss a ping for this long are dropped
+const HEARTBEAT_INTERVAL_MS = 30000;
+
+const wss = new WebSocketServer({ noServer: true });
+const alive = new WeakSet<WebSocket>();
+
+// Serve the live channel on the API's HTTP server, leaving other upgrades such as Vite's HMR socket alone
+export function setupRealtime(server: Server) {
+  server.on("upgrade", (req, socket, head) => {
+    const { pathname } = new URL(req.url ?? "/", "http://localhost");
+    if (pathname !== REALTIME_PATH) return;
+    wss.handleUpgrade(req, socket, head, (ws) => wss.emit("connection", ws, req));
+  });
+
+  wss.on("connection", (ws) => {
+    alive.add(ws);
+    ws.on("pong", () => alive.add(ws));
+  });
+
+  const heartbeat = setInterval(() => {
+    wss.clients.forEach((ws) => {
+      if (!alive.has(ws)) {
+        ws.terminate();
+        return;
+      }
+      alive.delete(ws);
+      ws.ping();
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+  server.on("close", () => clearInterval(heartbeat));
+}
+
+const send = (event: RealtimeEvent) => {
+  const message = JSON.stringify(event);
+  wss.clients.forEach((ws) => {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(message);
+    }
+  });
+};
+
+// Broadcasts are best effort: errors are logged and never fail the write that caused them
+
+export async function broadcastProposal(
+  type: "proposal_created" | "proposal_closed",
+  proposal: Proposal
+): Promise<void> {
+  if (wss.clients.size === 0) return;
+  try {
+    const [details] = await withDetails([proposal]);
+    send({ type, proposal: details });
+  } catch (err) {
+    console.error(`Failed to broadcast ${type} for proposal ${proposal.id}:`, err);
+  }
+}
+
+export async function broadcastVote(vote: Vote): Promise<void> {
+  if (wss.clients.size === 0) return;
+  try {
+    // Send the proposal as it is after the vote, so clients can replace their copy
+    const proposal = await storage.getProposalById(vote.proposalId);
+    if (!proposal) return;
+    const [details] = await withDetails([proposal]);
+    send({ type: "vote_cast", proposal: details, vote });
+  } catch (err) {
+    console.error(`Failed to broadcast vote ${vote.id}:`, err);
+  }
+}
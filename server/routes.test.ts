@@ -0,0 +1,93 @@
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import express, { type NextFunction, type Request, type Response } from "express";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { registerRoutes } from "./routes";
+import { storage } from "./storage";
+import { getVotingPower } from "./chain";
+
+// Hoisted above the imports: storage picks its backend when it is first imported, and the auth
+// mock signs every request in as VOTER
+const { VOTER } = vi.hoisted(() => {
+  process.env.STORAGE_BACKEND = "memory";
+  return { VOTER: "0x4B20993Bc481177ec7E8f571ceCaE8A9e22C02db" };
+});
+
+vi.mock("./auth", () => ({
+  setupAuth: () => {},
+  requireAuth: (req: Request, _res: Response, next: NextFunction) => {
+    req.walletAddress = VOTER;
+    next();
+  },
+}));
+
+vi.mock("./chain", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./chain")>()),
+  getVotingPower: vi.fn(),
+}));
+
+const CREATOR = "0xAb5801a7D398351b8bE11C439e05C5B3259aeC9B";
+const TOKEN_ADDRESS = "0x5B38Da6a701c568545dCfcB03FcB875f56beddC4";
+const HOUR = 60 * 60 * 1000;
+
+describe("POST /api/votes", () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json());
+    server = await registerRoutes(app);
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    vi.mocked(getVotingPower).mockReset().mockResolvedValue(BigInt(7));
+  });
+
+  const createProposal = () =>
+    storage.createProposal({
+      title: "Fund the grants program",
+      description: "Move 10% of the treasury into the grants program",
+      creatorAddress: CREATOR,
+      tokenAddress: TOKEN_ADDRESS,
+      tokenSymbol: "TST",
+      startDate: new Date(Date.now() - HOUR),
+      endDate: new Date(Date.now() + HOUR),
+      proposalType: "binary",
+      snapshotBlock: 900,
+    });
+
+  const castVote = (body: unknown) =>
+    fetch(`${baseUrl}/api/votes`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+
+  it("weighs the vote by the voter's voting power at the snapshot", async () => {
+    const proposal = await createProposal();
+
+    const res = await castVote({ proposalId: proposal.id, voteDirection: "for" });
+
+    expect(res.status).toBe(201);
+    expect(await res.json()).toMatchObject({ voterAddress: VOTER, voteAmount: "7" });
+    expect(getVotingPower).toHaveBeenCalledWith(TOKEN_ADDRESS, VOTER, 900);
+    expect((await storage.getProposalById(proposal.id))?.votesFor).toBe("7");
+  });
+
+  it("rejects a vote that names its own amount", async () => {
+    const proposal = await createProposal();
+
+    const res = await castVote({ proposalId: proposal.id, voteDirection: "for", voteAmount: "1000000" });
+
+    expect(res.status).toBe(400);
+    expect(await storage.hasVoted(proposal.id, VOTER)).toBe(false);
+    expect((await storage.getProposalById(proposal.id))?.votesFor).toBe("0");
+  });
+});
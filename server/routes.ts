@@ -1,10 +1,55 @@
-import type { Express } from "express";
+import type { Express, Response } from "express";
 import { createServer, type Server } from "http";
+import { ethers } from "ethers";
+import { sumTokenAmounts } from "@shared/token-amount";
 import { storage } from "./storage";
-import { insertTokenSchema, insertProposalSchema, insertVoteSchema } from "@shared/schema";
+import { DuplicateVoteError, VotingClosedError } from "./storage-errors";
+import { setupAuth, requireAuth } from "./auth";
+import {
+  getVotingPower,
+  getSnapshotBlock,
+  getCurrentVotes,
+  getTotalSupply,
+  getTransferable,
+  getTransactionTransfers,
+  getCreatedToken,
+  getCreatedProposal,
+  getCreatedDistributor,
+  getDistributorConfig,
+  getTokenBalance,
+  getVestingConfig,
+  getActiveNetwork,
+} from "./chain";
+import { buildMerkleTree } from "./merkle";
+import { computeQuorumThreshold } from "./quorum";
+import { withDetails } from "./proposal-details";
+import { getPlatformStats } from "./stats";
+import { setupRealtime, broadcastProposal, broadcastVote } from "./realtime";
+import {
+  parsePageQuery,
+  TOKEN_SORTS,
+  PROPOSAL_SORTS,
+  VOTE_SORTS,
+  HOLDER_SORTS,
+  VESTING_SORTS,
+  type Page,
+} from "./pagination";
+import {
+  createTokenSchema,
+  createProposalSchema,
+  castVoteSchema,
+  recordDistributionSchema,
+  createAirdropSchema,
+  deployAirdropSchema,
+  registerVestingSchema,
+  type TokenWithDetails,
+} from "@shared/schema";
 import { ZodError } from "zod";
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Session and Sign-In With Ethereum routes
+  setupAuth(app);
+
   // Error handling middleware
   const handleError = (err: any, res: any) => {
     console.error(err);
@@ -17,11 +62,37 @@ export async function registerRoutes(app: Express): Promise<Server> {
     return res.status(500).json({ message: err.message || "Internal server error" });
   };
 
+  // Lists return one page as an array; the cursor for the next page is sent in X-Next-Cursor
+  const sendPage = <T>(res: Response, page: Page<unknown>, items: T[]) => {
+    if (page.nextCursor) {
+      res.set("X-Next-Cursor", page.nextCursor);
+    }
+    res.json(items);
+  };
+
+  // Network this deployment runs on; wallets on any other chain are asked to switch
+  app.get("/api/network", (_req, res) => {
+    try {
+      res.json(getActiveNetwork());
+    } catch (err) {
+      handleError(err, res);
+    }
+  });
+
+  // Platform statistics for the home page
+  app.get("/api/stats", async (_req, res) => {
+    try {
+      res.json(await getPlatformStats());
+    } catch (err) {
+      handleError(err, res);
+    }
+  });
+
   // Token routes
   app.get("/api/tokens", async (req, res) => {
     try {
-      const tokens = await storage.getAllTokens();
-      res.json(tokens);
+      const page = await storage.listTokens({}, parsePageQuery(req.query, TOKEN_SORTS, "newest"));
+      sendPage(res, page, page.items);
     } catch (err) {
       handleError(err, res);
     }
@@ -35,9 +106,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!address || typeof address !== 'string') {
         return res.status(400).json({ message: "Address is required as a string parameter" });
       }
-      console.log("Fetching tokens for creator:", address);
-      const tokens = await storage.getTokensByCreator(address);
-      res.json(tokens);
+      const page = await storage.listTokens(
+        { creatorAddress: address },
+        parsePageQuery(req.query, TOKEN_SORTS, "newest")
+      );
+      sendPage(res, page, page.items);
     } catch (err) {
       handleError(err, res);
     }
@@ -46,16 +119,71 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/tokens/creator/:address", async (req, res) => {
     try {
       const { address } = req.params;
-      const tokens = await storage.getTokensByCreator(address);
-      res.json(tokens);
+      const page = await storage.listTokens(
+        { creatorAddress: address },
+        parsePageQuery(req.query, TOKEN_SORTS, "newest")
+      );
+      sendPage(res, page, page.items);
+    } catch (err) {
+      handleError(err, res);
+    }
+  });
+
+  app.get("/api/tokens/:address", async (req, res) => {
+    try {
+      const token = await storage.getTokenByAddress(req.params.address);
+      if (!token) {
+        return res.status(404).json({ message: "Token not found" });
+      }
+
+      const [transferable, holderCount, supplyChanges] = await Promise.all([
+        // Fall back to the value recorded at creation when the RPC is unavailable
+        getTransferable(token.contractAddress).catch((err) => {
+          console.error(err);
+          return token.isTransferable;
+        }),
+        storage.getTokenHolderCount(token.contractAddress),
+        storage.getSupplyChanges(token.contractAddress),
+      ]);
+
+      const details: TokenWithDetails = { ...token, transferable, holderCount, supplyChanges };
+      res.json(details);
     } catch (err) {
       handleError(err, res);
     }
   });
 
-  app.post("/api/tokens", async (req, res) => {
+  // Balances built from indexed Transfer events, largest first
+  app.get("/api/tokens/:address/holders", async (req, res) => {
     try {
-      const tokenData = insertTokenSchema.parse(req.body);
+      const page = await storage.listTokenHolders(
+        req.params.address,
+        parsePageQuery(req.query, HOLDER_SORTS, "largest")
+      );
+      sendPage(res, page, page.items);
+    } catch (err) {
+      handleError(err, res);
+    }
+  });
+
+  app.post("/api/tokens", requireAuth, async (req, res) => {
+    try {
+      const { transactionHash } = createTokenSchema.parse(req.body);
+
+      // Name, supply and address come from the factory's TokenCreated event, not the request
+      const tokenData = await getCreatedToken(transactionHash);
+      if (!tokenData || tokenData.creatorAddress.toLowerCase() !== req.walletAddress!.toLowerCase()) {
+        return res.status(400).json({
+          message: "The transaction must be confirmed and create a token from your wallet",
+        });
+      }
+      
+      // The indexer may already have picked up the TokenCreated event
+      const existing = await storage.getTokenByAddress(tokenData.contractAddress);
+      if (existing) {
+        return res.json(existing);
+      }
+      
       const token = await storage.createToken(tokenData);
       res.status(201).json(token);
     } catch (err) {
@@ -66,8 +194,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Proposal routes
   app.get("/api/proposals", async (req, res) => {
     try {
-      const proposals = await storage.getAllProposals();
-      res.json(proposals);
+      const page = await storage.listProposals({}, parsePageQuery(req.query, PROPOSAL_SORTS, "newest"));
+      sendPage(res, page, await withDetails(page.items));
     } catch (err) {
       handleError(err, res);
     }
@@ -75,8 +203,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/proposals/active", async (req, res) => {
     try {
-      const proposals = await storage.getActiveProposals();
-      res.json(proposals);
+      const page = await storage.listProposals(
+        { active: true },
+        parsePageQuery(req.query, PROPOSAL_SORTS, "ending_soon")
+      );
+      sendPage(res, page, await withDetails(page.items));
     } catch (err) {
       handleError(err, res);
     }
@@ -85,8 +216,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/proposals/token/:address", async (req, res) => {
     try {
       const { address } = req.params;
-      const proposals = await storage.getProposalsByToken(address);
-      res.json(proposals);
+      const page = await storage.listProposals(
+        { tokenAddress: address },
+        parsePageQuery(req.query, PROPOSAL_SORTS, "newest")
+      );
+      sendPage(res, page, await withDetails(page.items));
     } catch (err) {
       handleError(err, res);
     }
@@ -95,28 +229,110 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/proposals/creator/:address", async (req, res) => {
     try {
       const { address } = req.params;
-      const proposals = await storage.getProposalsByCreator(address);
-      res.json(proposals);
+      const page = await storage.listProposals(
+        { creatorAddress: address },
+        parsePageQuery(req.query, PROPOSAL_SORTS, "newest")
+      );
+      sendPage(res, page, await withDetails(page.items));
+    } catch (err) {
+      handleError(err, res);
+    }
+  });
+
+  app.get("/api/proposals/:id", async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      if (!Number.isInteger(id)) {
+        return res.status(400).json({ message: "Proposal id must be an integer" });
+      }
+      const proposal = await storage.getProposalById(id);
+      if (!proposal) {
+        return res.status(404).json({ message: "Proposal not found" });
+      }
+      res.json((await withDetails([proposal]))[0]);
     } catch (err) {
       handleError(err, res);
     }
   });
 
-  app.post("/api/proposals", async (req, res) => {
+  app.post("/api/proposals", requireAuth, async (req, res) => {
     try {
-      const proposalData = insertProposalSchema.parse(req.body);
-      const proposal = await storage.createProposal(proposalData);
-      res.status(201).json(proposal);
+      const network = getActiveNetwork();
+      const snapshotBlock = await getSnapshotBlock();
+      const { transactionHash, ...proposalData } = createProposalSchema.parse({
+        chainId: network.chainId,
+        ...req.body,
+        creatorAddress: req.walletAddress,
+      });
+      
+      // Snapshots and voting power are read from the server's network
+      if (proposalData.chainId !== network.chainId) {
+        return res.status(400).json({ message: `This server only tracks proposals on ${network.name}` });
+      }
+      
+      // Governance only models for/against/abstain, so multiple-choice proposals stay off-chain
+      if (transactionHash && proposalData.proposalType !== "binary") {
+        return res.status(400).json({ message: "On-chain proposals must be binary" });
+      }
+      
+      // The Governance id comes from the creating transaction's ProposalCreated event
+      let chainProposalId: number | null = null;
+      if (transactionHash) {
+        const created = await getCreatedProposal(transactionHash);
+        if (!created || created.creator.toLowerCase() !== req.walletAddress!.toLowerCase()) {
+          return res.status(400).json({
+            message: "The transaction must be confirmed and create a proposal from your wallet",
+          });
+        }
+        chainProposalId = created.proposalId;
+
+        // The indexer may already have picked up the ProposalCreated event
+        const existing = await storage.getProposalByChainId(network.chainId, chainProposalId);
+        if (existing) {
+          return res.json((await withDetails([existing]))[0]);
+        }
+      }
+      
+      // Fix the quorum at creation, the same way Governance.createProposal does
+      let totalSupply: bigint;
+      try {
+        totalSupply = await getTotalSupply(proposalData.tokenAddress, snapshotBlock);
+      } catch (err) {
+        const token = await storage.getTokenByAddress(proposalData.tokenAddress);
+        if (!token) {
+          return res.status(502).json({ message: "Failed to read token supply" });
+        }
+        totalSupply = BigInt(token.totalSupply);
+      }
+      
+      const proposal = await storage.createProposal({
+        ...proposalData,
+        chainProposalId,
+        // On-chain proposals get the contract's snapshot from the indexer
+        snapshotBlock,
+        snapshotTotalSupply: totalSupply.toString(),
+        quorumThreshold: computeQuorumThreshold(totalSupply, proposalData.quorum ?? 25).toString(),
+      });
+      res.status(201).json((await withDetails([proposal]))[0]);
+      broadcastProposal("proposal_created", proposal);
     } catch (err) {
       handleError(err, res);
     }
   });
 
-  app.post("/api/proposals/:id/close", async (req, res) => {
+  app.post("/api/proposals/:id/close", requireAuth, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
+      const existing = await storage.getProposalById(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Proposal not found" });
+      }
+      if (existing.creatorAddress.toLowerCase() !== req.walletAddress!.toLowerCase()) {
+        return res.status(403).json({ message: "Only the proposal creator can close it" });
+      }
       const proposal = await storage.closeProposal(id);
-      res.json(proposal);
+      res.json((await withDetails([proposal]))[0]);
+      broadcastProposal("proposal_closed", proposal);
     } catch (err) {
       handleError(err, res);
     }
@@ -126,8 +342,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/votes/proposal/:id", async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const votes = await storage.getVotesByProposal(id);
-      res.json(votes);
+      const page = await storage.listVotes(
+        { proposalId: id },
+        parsePageQuery(req.query, VOTE_SORTS, "newest")
+      );
+      sendPage(res, page, page.items);
     } catch (err) {
       handleError(err, res);
     }
@@ -136,8 +355,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/votes/voter/:address", async (req, res) => {
     try {
       const { address } = req.params;
-      const votes = await storage.getVotesByVoter(address);
-      res.json(votes);
+      const page = await storage.listVotes(
+        { voterAddress: address },
+        parsePageQuery(req.query, VOTE_SORTS, "newest")
+      );
+      sendPage(res, page, page.items);
     } catch (err) {
       handleError(err, res);
     }
@@ -154,45 +376,365 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/votes", async (req, res) => {
+  app.post("/api/votes", requireAuth, async (req, res) => {
     try {
-      const voteData = insertVoteSchema.parse(req.body);
+      const { proposalId, voteDirection, optionId } = castVoteSchema.parse(req.body);
+      const voterAddress = req.walletAddress!;
       
-      // Check if user has already voted
-      const hasVoted = await storage.hasVoted(voteData.proposalId, voteData.voterAddress);
+      // Cheap early exit; the unique constraint still rejects concurrent duplicates below
+      const hasVoted = await storage.hasVoted(proposalId, voterAddress);
       if (hasVoted) {
-        return res.status(400).json({ message: "User has already voted on this proposal" });
+        return res.status(409).json({ message: "You have already voted on this proposal" });
       }
       
       // Get the proposal to check the token address
-      const proposal = await storage.getProposalById(voteData.proposalId);
+      const proposal = await storage.getProposalById(proposalId);
       if (!proposal) {
         return res.status(404).json({ message: "Proposal not found" });
       }
       
-      // In a real implementation, we would verify the token balance on-chain
-      // For this demo, we'll just create the vote without verification
-      // as the frontend already does the token balance check
+      // On-chain proposals are voted through the Governance contract and synced by the indexer
+      if (proposal.chainProposalId != null) {
+        return res.status(409).json({ message: "Votes on this proposal must be cast on-chain" });
+      }
+      
+      // Checked again by createVote while it holds the proposal lock
+      if (proposal.status !== "active" || proposal.endDate <= new Date()) {
+        return res.status(409).json({ message: "Voting on this proposal has ended" });
+      }
+      
+      // Binary proposals take for/against/abstain, multiple-choice ones an option or abstain
+      if (proposal.proposalType === "multiple_choice") {
+        if (voteDirection === "for" || voteDirection === "against") {
+          return res.status(400).json({ message: "Choose one of the proposal's options or abstain" });
+        }
+        if (optionId !== undefined) {
+          const [option] = (await storage.getProposalOptions([proposal.id]))
+            .filter((option) => option.id === optionId);
+          if (!option) {
+            return res.status(400).json({ message: "Option does not belong to this proposal" });
+          }
+        }
+      } else if (voteDirection === "option") {
+        return res.status(400).json({ message: "This proposal has no options; vote for, against or abstain" });
+      }
       
+      // Vote weight is the voter's on-chain voting power at the proposal snapshot
+      let weight: bigint;
+      try {
+        weight = await getVotingPower(proposal.tokenAddress, voterAddress, proposal.snapshotBlock);
+      } catch (chainErr) {
+        console.error(chainErr);
+        return res.status(502).json({ message: "Unable to verify voting power on-chain" });
+      }
+      if (weight === BigInt(0)) {
+        return res.status(403).json({ message: `No ${proposal.tokenSymbol} balance to vote with` });
+      }
+      
+      const voteData = {
+        proposalId,
+        voterAddress,
+        voteAmount: weight.toString(),
+        voteDirection,
+        optionId: optionId ?? null,
+      };
+      
+      // Records the vote and updates the proposal's tallies atomically
       const vote = await storage.createVote(voteData);
       
-      // Update the proposal's vote counts
-      const votesFor = voteData.voteDirection === "for"
-        ? (BigInt(proposal.votesFor) + BigInt(voteData.voteAmount)).toString()
-        : proposal.votesFor;
+      res.status(201).json(vote);
+      broadcastVote(vote);
+    } catch (err) {
+      if (err instanceof DuplicateVoteError) {
+        return res.status(409).json({ message: "You have already voted on this proposal" });
+      }
+      if (err instanceof VotingClosedError) {
+        return res.status(409).json({ message: "Voting on this proposal has ended" });
+      }
+      handleError(err, res);
+    }
+  });
+
+  // Delegation routes
+  app.get("/api/delegates/:token", async (req, res) => {
+    try {
+      const { token } = req.params;
+      const current = await storage.getCurrentDelegations(token);
+      
+      // Group delegators under their delegate, ignoring holders who vote for themselves
+      const delegators = new Map<string, { delegateAddress: string; delegators: string[] }>();
+      for (const delegation of current) {
+        const delegateKey = delegation.delegateAddress.toLowerCase();
+        if (delegateKey === delegation.delegatorAddress.toLowerCase()) continue;
+        if (delegateKey === ethers.ZeroAddress) continue;
         
-      const votesAgainst = voteData.voteDirection === "against"
-        ? (BigInt(proposal.votesAgainst) + BigInt(voteData.voteAmount)).toString()
-        : proposal.votesAgainst;
+        const entry = delegators.get(delegateKey) ?? {
+          delegateAddress: delegation.delegateAddress,
+          delegators: [],
+        };
+        entry.delegators.push(delegation.delegatorAddress);
+        delegators.set(delegateKey, entry);
+      }
       
-      await storage.updateProposalVotes(proposal.id, votesFor, votesAgainst);
+      const delegates = await Promise.all(
+        Array.from(delegators.values()).map(async (entry) => {
+          const votingPower = await getCurrentVotes(token, entry.delegateAddress);
+          return {
+            delegateAddress: entry.delegateAddress,
+            delegatorCount: entry.delegators.length,
+            delegators: entry.delegators,
+            votingPower: votingPower.toString(),
+          };
+        })
+      );
       
-      res.status(201).json(vote);
+      delegates.sort((a, b) => {
+        const diff = BigInt(b.votingPower) - BigInt(a.votingPower);
+        return diff > BigInt(0) ? 1 : diff < BigInt(0) ? -1 : 0;
+      });
+      
+      res.json(delegates);
+    } catch (err) {
+      handleError(err, res);
+    }
+  });
+
+  // Distribution routes
+  app.post("/api/distributions", requireAuth, async (req, res) => {
+    try {
+      const distribution = recordDistributionSchema.parse(req.body);
+
+      // Every batch must be a mined transaction sent by the signed-in wallet
+      const hashes = Array.from(new Set(distribution.recipients.map((recipient) => recipient.transactionHash)));
+      const receipts = await Promise.all(
+        hashes.map((hash) => getTransactionTransfers(hash, distribution.tokenAddress))
+      );
+      const walletAddress = req.walletAddress!.toLowerCase();
+      if (receipts.some((receipt) => receipt?.sender.toLowerCase() !== walletAddress)) {
+        return res.status(400).json({
+          message: "Distribution transactions must be confirmed and sent from your wallet",
+        });
+      }
+
+      // ...and each recorded recipient must match a transfer of the token from the wallet in its batch
+      const unmatched = new Map(hashes.map((hash, index) => [
+        hash,
+        receipts[index]!.transfers.filter((transfer) => transfer.from.toLowerCase() === walletAddress),
+      ]));
+      for (const recipient of distribution.recipients) {
+        const transfers = unmatched.get(recipient.transactionHash)!;
+        const index = transfers.findIndex((transfer) =>
+          transfer.to.toLowerCase() === recipient.recipientAddress.toLowerCase() &&
+          transfer.value === BigInt(recipient.amount)
+        );
+        if (index === -1) {
+          return res.status(400).json({
+            message: `Transaction ${recipient.transactionHash} does not transfer ${recipient.amount} of this token to ${recipient.recipientAddress}`,
+          });
+        }
+        transfers.splice(index, 1);
+      }
+
+      const created = await storage.createDistribution(req.walletAddress!, distribution);
+      res.status(201).json(created);
+    } catch (err) {
+      handleError(err, res);
+    }
+  });
+
+  // Airdrop routes
+  app.post("/api/airdrops", requireAuth, async (req, res) => {
+    try {
+      const { tokenAddress, durationDays, allocations } = createAirdropSchema.parse(req.body);
+
+      const token = await storage.getTokenByAddress(tokenAddress);
+      if (!token) {
+        return res.status(404).json({ message: "Token not found" });
+      }
+
+      // Leaves commit to checksummed addresses, which also rejects mistyped mixed-case ones
+      const accounts: string[] = [];
+      for (const allocation of allocations) {
+        try {
+          accounts.push(ethers.getAddress(allocation.account));
+        } catch (err) {
+          return res.status(400).json({ message: `Invalid address checksum: ${allocation.account}` });
+        }
+      }
+
+      const tree = buildMerkleTree(
+        allocations.map((allocation, index) => ({ account: accounts[index], amount: allocation.amount }))
+      );
+      const airdrop = await storage.createAirdrop(
+        {
+          tokenAddress: token.contractAddress,
+          creatorAddress: req.walletAddress!,
+          merkleRoot: tree.root,
+          totalAmount: sumTokenAmounts(allocations.map((allocation) => allocation.amount)),
+          recipientCount: allocations.length,
+          endTime: new Date(Date.now() + durationDays * 24 * 60 * 60 * 1000),
+        },
+        tree.leaves
+      );
+      res.status(201).json(airdrop);
+    } catch (err) {
+      handleError(err, res);
+    }
+  });
+
+  app.get("/api/airdrops/:id", async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      if (!Number.isInteger(id)) {
+        return res.status(400).json({ message: "Airdrop id must be an integer" });
+      }
+      const airdrop = await storage.getAirdropById(id);
+      if (!airdrop) {
+        return res.status(404).json({ message: "Airdrop not found" });
+      }
+      res.json(airdrop);
+    } catch (err) {
+      handleError(err, res);
+    }
+  });
+
+  app.get("/api/airdrops/:id/proof/:address", async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      if (!Number.isInteger(id)) {
+        return res.status(400).json({ message: "Airdrop id must be an integer" });
+      }
+      const allocation = await storage.getAirdropAllocation(id, req.params.address);
+      if (!allocation) {
+        return res.status(404).json({ message: "No allocation for this address" });
+      }
+      res.json({
+        leafIndex: allocation.leafIndex,
+        account: allocation.account,
+        amount: allocation.amount,
+        proof: allocation.proof,
+      });
+    } catch (err) {
+      handleError(err, res);
+    }
+  });
+
+  // Link the MerkleDistributor the creator deployed, after checking it matches the airdrop
+  app.post("/api/airdrops/:id/deploy", requireAuth, async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      if (!Number.isInteger(id)) {
+        return res.status(400).json({ message: "Airdrop id must be an integer" });
+      }
+      const { transactionHash } = deployAirdropSchema.parse(req.body);
+
+      const airdrop = await storage.getAirdropById(id);
+      if (!airdrop) {
+        return res.status(404).json({ message: "Airdrop not found" });
+      }
+      if (airdrop.creatorAddress.toLowerCase() !== req.walletAddress!.toLowerCase()) {
+        return res.status(403).json({ message: "Only the airdrop creator can deploy it" });
+      }
+      if (airdrop.distributorAddress) {
+        return res.status(409).json({ message: "Airdrop is already deployed" });
+      }
+
+      // Any contract can report a matching configuration, so only distributors from the factory count
+      const distributorAddress = await getCreatedDistributor(transactionHash);
+      if (!distributorAddress) {
+        return res.status(400).json({
+          message: "The transaction must be confirmed and deploy a distributor through the airdrop factory",
+        });
+      }
+
+      const config = await getDistributorConfig(distributorAddress);
+      if (
+        config.token.toLowerCase() !== airdrop.tokenAddressLower ||
+        config.merkleRoot !== airdrop.merkleRoot ||
+        config.owner.toLowerCase() !== airdrop.creatorAddress.toLowerCase()
+      ) {
+        return res.status(400).json({ message: "Distributor does not match this airdrop" });
+      }
+
+      // Claims are paid from the distributor's balance, so it must cover every allocation
+      const balance = await getTokenBalance(airdrop.tokenAddress, distributorAddress);
+      if (balance < BigInt(airdrop.totalAmount)) {
+        return res.status(400).json({ message: "Distributor holds less than the airdrop's total amount" });
+      }
+
+      const updated = await storage.setAirdropDistributor(id, distributorAddress, config.endTime);
+      if (!updated) {
+        return res.status(409).json({ message: "Airdrop is already deployed" });
+      }
+      res.json(updated);
+    } catch (err) {
+      handleError(err, res);
+    }
+  });
+
+  // Vesting routes
+  // Register a TokenVesting contract deployed by the signed-in wallet
+  app.post("/api/vesting", requireAuth, async (req, res) => {
+    try {
+      const { vestingAddress } = registerVestingSchema.parse(req.body);
+
+      if (await storage.getVestingScheduleByAddress(vestingAddress)) {
+        return res.status(409).json({ message: "Vesting schedule is already registered" });
+      }
+
+      let config: Awaited<ReturnType<typeof getVestingConfig>>;
+      try {
+        config = await getVestingConfig(vestingAddress);
+      } catch (err) {
+        return res.status(400).json({ message: "Address is not a TokenVesting contract" });
+      }
+      if (config.owner.toLowerCase() !== req.walletAddress!.toLowerCase()) {
+        return res.status(403).json({ message: "Only the vesting contract's owner can register it" });
+      }
+
+      const schedule = await storage.createVestingSchedule({
+        vestingAddress: ethers.getAddress(vestingAddress),
+        tokenAddress: config.token,
+        creatorAddress: config.owner,
+        beneficiaryAddress: config.beneficiary,
+        totalAmount: config.totalAmount.toString(),
+        startTime: config.startTime,
+        cliffTime: config.cliffTime,
+        endTime: config.endTime,
+        revocable: config.revocable,
+      });
+      res.status(201).json(schedule);
+    } catch (err) {
+      handleError(err, res);
+    }
+  });
+
+  app.get("/api/vesting/token/:address", async (req, res) => {
+    try {
+      const page = await storage.listVestingSchedules(
+        { tokenAddress: req.params.address },
+        parsePageQuery(req.query, VESTING_SORTS, "newest")
+      );
+      sendPage(res, page, page.items);
+    } catch (err) {
+      handleError(err, res);
+    }
+  });
+
+  app.get("/api/vesting/beneficiary/:address", async (req, res) => {
+    try {
+      const page = await storage.listVestingSchedules(
+        { beneficiaryAddress: req.params.address },
+        parsePageQuery(req.query, VESTING_SORTS, "newest")
+      );
+      sendPage(res, page, page.items);
     } catch (err) {
       handleError(err, res);
     }
   });
 
   const httpServer = createServer(app);
+  // Live proposal and vote events for connected clients
+  setupRealtime(httpServer);
   return httpServer;
 }
@@ -0,0 +1,42 @@
+import { type PlatformStats } from "@shared/schema";
+import { storage } from "./storage";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Trend windows in days; each is compared with the window of the same length before it
+const TREND_DAYS = [7, 30];
+
+// Days of vote activity shown in the home page sparkline
+const DAILY_VOTE_DAYS = 30;
+
+const startOfUtcDay = (date: Date) =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+// Totals, trends and daily vote counts for the home page
+export async function getPlatformStats(now: Date = new Date()): Promise<PlatformStats> {
+  const firstDay = new Date(startOfUtcDay(now).getTime() - (DAILY_VOTE_DAYS - 1) * DAY_MS);
+
+  const [totals, trends, dailyCounts] = await Promise.all([
+    storage.getPlatformTotals(now),
+    Promise.all(
+      TREND_DAYS.map(async (days) => {
+        const start = new Date(now.getTime() - days * DAY_MS);
+        const [current, previous] = await Promise.all([
+          storage.getActivityCounts(start, now),
+          storage.getActivityCounts(new Date(start.getTime() - days * DAY_MS), start),
+        ]);
+        return { days, current, previous };
+      })
+    ),
+    storage.getDailyVoteCounts(firstDay),
+  ]);
+
+  // Days without votes are missing from the counts, so fill them with zeros
+  const votesByDate = new Map(dailyCounts.map((day) => [day.date, day.votes]));
+  const dailyVotes = Array.from({ length: DAILY_VOTE_DAYS }, (_, index) => {
+    const date = new Date(firstDay.getTime() + index * DAY_MS).toISOString().slice(0, 10);
+    return { date, votes: votesByDate.get(date) ?? 0 };
+  });
+
+  return { ...totals, trends, dailyVotes };
+}
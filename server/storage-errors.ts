@@ -0,0 +1,15 @@
+// Thrown by createVote when the address has already voted on the proposal
+export class DuplicateVoteError extends Error {
+  constructor(proposalId: number, voterAddress: string) {
+    super(`${voterAddress} has already voted on proposal ${proposalId}`);
+    this.name = "DuplicateVoteError";
+  }
+}
+
+// Thrown by createVote when the proposal's voting period is over or it has been finalized
+export class VotingClosedError extends Error {
+  constructor(proposalId: number) {
+    super(`Voting on proposal ${proposalId} is closed`);
+    this.name = "VotingClosedError";
+  }
+}
@@ -0,0 +1,364 @@
+import { afterAll, beforeEach, describe, expect, it } from "vitest";
+import { getTableName, sql } from "drizzle-orm";
+import * as schema from "@shared/schema";
+import type { InsertProposal, InsertToken } from "@shared/schema";
+import { MemStorage } from "./mem-storage";
+import { DuplicateVoteError, VotingClosedError } from "./storage-errors";
+import { HOLDER_SORTS, TOKEN_SORTS, VOTE_SORTS, type PageOptions } from "./pagination";
+import type { IStorage } from "./storage";
+
+// Every backend must behave the same, so each case below runs against all of them. The Postgres
+// backend runs when TEST_DATABASE_URL points at a database migrated with `npm run db:push`; its
+// tables are emptied before every case.
+interface Backend {
+  name: string;
+  create: () => Promise<IStorage>;
+  close?: () => Promise<void>;
+}
+
+const TEST_DATABASE_URL = process.env.TEST_DATABASE_URL;
+
+const backends: Backend[] = [
+  { name: "MemStorage", create: async () => new MemStorage() },
+];
+
+if (TEST_DATABASE_URL) {
+  // server/db connects on import, so the URL is set before the first dynamic import
+  process.env.DATABASE_URL = TEST_DATABASE_URL;
+  const tableNames = [
+    schema.users,
+    schema.tokens,
+    schema.proposals,
+    schema.proposalOptions,
+    schema.proposalActions,
+    schema.votes,
+    schema.delegations,
+    schema.tokenTransfers,
+    schema.tokenBalances,
+    schema.distributions,
+    schema.distributionRecipients,
+    schema.airdrops,
+    schema.airdropAllocations,
+    schema.vestingSchedules,
+    schema.indexerState,
+  ].map((table) => `"${getTableName(table)}"`);
+
+  backends.push({
+    name: "DatabaseStorage",
+    create: async () => {
+      const { db } = await import("./db");
+      const { DatabaseStorage } = await import("./db-storage");
+      await db.execute(sql.raw(`TRUNCATE ${tableNames.join(", ")} RESTART IDENTITY`));
+      return new DatabaseStorage();
+    },
+    close: async () => {
+      const { db } = await import("./db");
+      await db.$client.end();
+    },
+  });
+}
+
+const CREATOR = "0xAb5801a7D398351b8bE11C439e05C5B3259aeC9B";
+const VOTER = "0x4B20993Bc481177ec7E8f571ceCaE8A9e22C02db";
+const TOKEN_ADDRESS = "0x5B38Da6a701c568545dCfcB03FcB875f56beddC4";
+const HOUR = 60 * 60 * 1000;
+
+const page = (order: PageOptions["order"], sort: string, limit = 100): PageOptions => ({ sort, order, limit });
+
+const tokenFixture = (overrides: Partial<InsertToken> = {}): InsertToken => ({
+  name: "Test Token",
+  symbol: "TST",
+  totalSupply: "1000000000000000000000000",
+  contractAddress: TOKEN_ADDRESS,
+  creatorAddress: CREATOR,
+  ...overrides,
+});
+
+const proposalFixture = (overrides: Partial<InsertProposal> = {}): InsertProposal => ({
+  title: "Fund the grants program",
+  description: "Move 10% of the treasury into the grants program",
+  creatorAddress: CREATOR,
+  tokenAddress: TOKEN_ADDRESS,
+  tokenSymbol: "TST",
+  startDate: new Date(Date.now() - HOUR),
+  endDate: new Date(Date.now() + HOUR),
+  proposalType: "binary",
+  ...overrides,
+});
+
+const chainProposalFixture = (chainProposalId: number, overrides: Partial<InsertProposal> = {}) => ({
+  ...proposalFixture(overrides),
+  chainProposalId,
+});
+
+// 2^64 + 1 is not exactly representable as a double, so tallies must be summed as integers
+const LARGE_AMOUNT = "18446744073709551617";
+
+describe.each(backends)("$name", ({ create, close }) => {
+  let storage: IStorage;
+
+  beforeEach(async () => {
+    storage = await create();
+  });
+
+  afterAll(async () => {
+    await close?.();
+  });
+
+  describe("tokens", () => {
+    it("finds tokens by address regardless of casing", async () => {
+      const token = await storage.createToken(tokenFixture());
+
+      expect((await storage.getTokenByAddress(TOKEN_ADDRESS.toLowerCase()))?.id).toBe(token.id);
+      expect((await storage.getTokenByAddress(TOKEN_ADDRESS.toUpperCase().replace("0X", "0x")))?.id).toBe(token.id);
+    });
+
+    it("treats an address in another casing as the same token", async () => {
+      const token = await storage.createToken(tokenFixture());
+
+      await expect(storage.createToken(tokenFixture({ contractAddress: TOKEN_ADDRESS.toLowerCase() }))).rejects.toThrow();
+
+      const synced = await storage.upsertChainToken(
+        tokenFixture({ contractAddress: TOKEN_ADDRESS.toLowerCase(), name: "Renamed" }),
+        100
+      );
+      expect(synced.id).toBe(token.id);
+      expect(synced.name).toBe("Renamed");
+      expect(await storage.getAllTokens()).toHaveLength(1);
+    });
+
+    it("filters tokens by creator regardless of casing", async () => {
+      await storage.createToken(tokenFixture());
+      await storage.createToken(tokenFixture({
+        contractAddress: "0x7EF2e0048f5bAeDe046f6BF797943daF4ED8CB47",
+        creatorAddress: VOTER,
+      }));
+
+      const { items } = await storage.listTokens(
+        { creatorAddress: CREATOR.toLowerCase() },
+        page(TOKEN_SORTS.newest, "newest")
+      );
+      expect(items.map((token) => token.creatorAddress)).toEqual([CREATOR]);
+    });
+
+    it("pages through tokens without gaps or repeats", async () => {
+      for (let i = 0; i < 5; i++) {
+        await storage.createToken(tokenFixture({
+          name: `Token ${i}`,
+          contractAddress: `0x${String(i + 1).padStart(40, "0")}`,
+        }));
+      }
+
+      const names: string[] = [];
+      let options = page(TOKEN_SORTS.name, "name", 2);
+      for (;;) {
+        const result = await storage.listTokens({}, options);
+        names.push(...result.items.map((token) => token.name));
+        const last = result.items[result.items.length - 1];
+        if (!result.nextCursor) break;
+        options = { ...options, after: { value: last.name, id: last.id } };
+      }
+
+      expect(names).toEqual(["Token 0", "Token 1", "Token 2", "Token 3", "Token 4"]);
+    });
+  });
+
+  describe("votes", () => {
+    it("sums vote amounts exactly", async () => {
+      const proposal = await storage.createProposal(proposalFixture());
+
+      await storage.createVote({ proposalId: proposal.id, voterAddress: VOTER, voteAmount: LARGE_AMOUNT, voteDirection: "for" });
+      await storage.createVote({ proposalId: proposal.id, voterAddress: CREATOR, voteAmount: LARGE_AMOUNT, voteDirection: "for" });
+
+      const updated = await storage.getProposalById(proposal.id);
+      expect(updated?.votesFor).toBe("36893488147419103234");
+      expect(updated?.votesAgainst).toBe("0");
+    });
+
+    it("tallies multiple-choice votes per option", async () => {
+      const proposal = await storage.createProposal(proposalFixture({
+        proposalType: "multiple_choice",
+        options: ["Red", "Green", "Blue"],
+      }));
+      const [red, green] = await storage.getProposalOptions([proposal.id]);
+
+      await storage.createVote({ proposalId: proposal.id, voterAddress: VOTER, voteAmount: "5", voteDirection: "option", optionId: green.id });
+      await storage.createVote({ proposalId: proposal.id, voterAddress: CREATOR, voteAmount: "7", voteDirection: "option", optionId: green.id });
+
+      const options = await storage.getProposalOptions([proposal.id]);
+      expect(options.map((option) => [option.label, option.votes])).toEqual([["Red", "0"], ["Green", "12"], ["Blue", "0"]]);
+      expect(options[0].id).toBe(red.id);
+    });
+
+    it("rejects a second vote from the same address in another casing", async () => {
+      const proposal = await storage.createProposal(proposalFixture());
+      await storage.createVote({ proposalId: proposal.id, voterAddress: VOTER, voteAmount: "10", voteDirection: "for" });
+
+      await expect(storage.createVote({
+        proposalId: proposal.id,
+        voterAddress: VOTER.toLowerCase(),
+        voteAmount: "10",
+        voteDirection: "against",
+      })).rejects.toBeInstanceOf(DuplicateVoteError);
+
+      expect(await storage.hasVoted(proposal.id, VOTER.toLowerCase())).toBe(true);
+      expect((await storage.getProposalById(proposal.id))?.votesAgainst).toBe("0");
+    });
+
+    it("records exactly one of several votes sent at once from the same wallet", async () => {
+      const proposal = await storage.createProposal(proposalFixture());
+      const directions = ["for", "against", "abstain", "for", "against"];
+
+      const results = await Promise.allSettled(directions.map((voteDirection, i) => storage.createVote({
+        proposalId: proposal.id,
+        // Alternate casings, as different clients may send them
+        voterAddress: i % 2 ? VOTER.toLowerCase() : VOTER,
+        voteAmount: "10",
+        voteDirection,
+      })));
+
+      expect(results.filter((result) => result.status === "fulfilled")).toHaveLength(1);
+      for (const result of results) {
+        if (result.status === "rejected") {
+          expect(result.reason).toBeInstanceOf(DuplicateVoteError);
+        }
+      }
+
+      const { items } = await storage.listVotes({ proposalId: proposal.id }, page(VOTE_SORTS.newest, "newest"));
+      expect(items).toHaveLength(1);
+      const updated = await storage.getProposalById(proposal.id);
+      const total = [updated!.votesFor, updated!.votesAgainst, updated!.votesAbstain].reduce((sum, value) => sum + BigInt(value), BigInt(0));
+      expect(total.toString()).toBe("10");
+    });
+
+    it("rejects votes once voting has ended", async () => {
+      const ended = await storage.createProposal(proposalFixture({
+        startDate: new Date(Date.now() - 2 * HOUR),
+        endDate: new Date(Date.now() - HOUR),
+      }));
+      await expect(storage.createVote({ proposalId: ended.id, voterAddress: VOTER, voteAmount: "10", voteDirection: "for" }))
+        .rejects.toBeInstanceOf(VotingClosedError);
+
+      const closed = await storage.createProposal(proposalFixture());
+      await storage.closeProposal(closed.id);
+      await expect(storage.createVote({ proposalId: closed.id, voterAddress: VOTER, voteAmount: "10", voteDirection: "for" }))
+        .rejects.toBeInstanceOf(VotingClosedError);
+    });
+
+    it("filters votes by voter regardless of casing, newest first", async () => {
+      const first = await storage.createProposal(proposalFixture());
+      const second = await storage.createProposal(proposalFixture());
+      await storage.createVote({ proposalId: first.id, voterAddress: VOTER, voteAmount: "1", voteDirection: "for" });
+      await storage.createVote({ proposalId: second.id, voterAddress: VOTER, voteAmount: "1", voteDirection: "against" });
+      await storage.createVote({ proposalId: second.id, voterAddress: CREATOR, voteAmount: "1", voteDirection: "for" });
+
+      const { items } = await storage.listVotes(
+        { voterAddress: VOTER.toLowerCase() },
+        page(VOTE_SORTS.newest, "newest")
+      );
+      expect(items.map((vote) => vote.proposalId)).toEqual([second.id, first.id]);
+    });
+  });
+
+  describe("chain sync", () => {
+    it("updates a synced proposal in place when it is seen again", async () => {
+      const created = await storage.upsertChainProposal(chainProposalFixture(3), 100);
+      const resynced = await storage.upsertChainProposal(chainProposalFixture(3, { title: "Renamed" }), 101);
+
+      expect(resynced.id).toBe(created.id);
+      expect(resynced.blockNumber).toBe(101);
+      expect((await storage.getProposalByChainId(created.chainId, 3))?.title).toBe("Renamed");
+    });
+
+    it("replaces a re-indexed vote instead of counting it twice", async () => {
+      const proposal = await storage.upsertChainProposal(chainProposalFixture(1), 100);
+      const vote = { proposalId: proposal.id, voterAddress: VOTER, voteAmount: "40", voteDirection: "for" };
+
+      await storage.upsertChainVote(vote, "0xaa", 101);
+      await storage.upsertChainVote(vote, "0xaa", 101);
+
+      expect((await storage.getProposalById(proposal.id))?.votesFor).toBe("40");
+    });
+
+    it("moves a re-indexed vote's weight when its direction changes", async () => {
+      const proposal = await storage.upsertChainProposal(chainProposalFixture(1), 100);
+      await storage.upsertChainVote({ proposalId: proposal.id, voterAddress: CREATOR, voteAmount: "5", voteDirection: "for" }, "0xaa", 101);
+      await storage.upsertChainVote({ proposalId: proposal.id, voterAddress: VOTER, voteAmount: "40", voteDirection: "for" }, "0xbb", 101);
+      await storage.upsertChainVote({ proposalId: proposal.id, voterAddress: VOTER, voteAmount: "40", voteDirection: "against" }, "0xcc", 102);
+
+      const updated = await storage.getProposalById(proposal.id);
+      expect([updated?.votesFor, updated?.votesAgainst, updated?.votesAbstain]).toEqual(["5", "40", "0"]);
+    });
+
+    it("rolls back votes and transfers from blocks after a reorg", async () => {
+      const proposal = await storage.upsertChainProposal(chainProposalFixture(1), 100);
+      await storage.upsertChainVote({ proposalId: proposal.id, voterAddress: VOTER, voteAmount: "40", voteDirection: "for" }, "0xaa", 101);
+      await storage.upsertChainVote({ proposalId: proposal.id, voterAddress: CREATOR, voteAmount: "2", voteDirection: "for" }, "0xbb", 105);
+
+      const transfer = {
+        tokenAddress: TOKEN_ADDRESS,
+        fromAddress: "0x0000000000000000000000000000000000000000",
+        toAddress: VOTER,
+        blockTimestamp: new Date(),
+        logIndex: 0,
+      };
+      await storage.recordTransfer({ ...transfer, value: "100", blockNumber: 101, transactionHash: "0xcc" });
+      await storage.recordTransfer({ ...transfer, value: "50", blockNumber: 105, transactionHash: "0xdd" });
+
+      await storage.rollbackChainData(102);
+
+      expect((await storage.getProposalById(proposal.id))?.votesFor).toBe("40");
+      expect(await storage.hasVoted(proposal.id, CREATOR)).toBe(false);
+      const { items } = await storage.listTokenHolders(TOKEN_ADDRESS, page(HOLDER_SORTS.largest, "largest"));
+      expect(items.map((holder) => [holder.holderAddress, holder.balance])).toEqual([[VOTER, "100"]]);
+    });
+
+    it("returns proposals whose execution was rolled back to the finalizer", async () => {
+      const proposal = await storage.upsertChainProposal(chainProposalFixture(1, {
+        startDate: new Date(Date.now() - 2 * HOUR),
+        endDate: new Date(Date.now() - HOUR),
+      }), 100);
+      await storage.finalizeProposal(proposal.id, "passed", null);
+      await storage.markProposalExecuted(proposal.id, 105);
+
+      await storage.rollbackChainData(102);
+
+      expect(await storage.getProposalById(proposal.id)).toMatchObject({
+        status: "active",
+        result: null,
+        winningOptionId: null,
+        finalizedAt: null,
+        executedBlock: null,
+      });
+      const pending = await storage.getProposalsToFinalize(new Date());
+      expect(pending.map((pendingProposal) => pendingProposal.id)).toEqual([proposal.id]);
+    });
+
+    it("ignores a transfer that was already recorded", async () => {
+      const transfer = {
+        tokenAddress: TOKEN_ADDRESS,
+        fromAddress: "0x0000000000000000000000000000000000000000",
+        toAddress: VOTER,
+        value: "100",
+        blockNumber: 101,
+        blockTimestamp: new Date(),
+        transactionHash: "0xcc",
+        logIndex: 0,
+      };
+      await storage.recordTransfer(transfer);
+      await storage.recordTransfer(transfer);
+
+      expect(await storage.getTokenHolderCount(TOKEN_ADDRESS.toLowerCase())).toBe(1);
+      const { items } = await storage.listTokenHolders(TOKEN_ADDRESS, page(HOLDER_SORTS.largest, "largest"));
+      expect(items[0].balance).toBe("100");
+    });
+
+    it("remembers the indexer's position", async () => {
+      expect(await storage.getIndexerState("governance")).toBeUndefined();
+      await storage.setIndexerState("governance", 100, "0x01");
+      await storage.setIndexerState("governance", 120, "0x02");
+
+      expect(await storage.getIndexerState("governance")).toMatchObject({ blockNumber: 120, blockHash: "0x02" });
+    });
+  });
+});
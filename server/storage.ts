@@ -1,11 +1,51 @@
-import { 
-  users, type User, type InsertUser,
-  tokens, type Token, type InsertToken,
-  proposals, type Proposal, type InsertProposal,
-  votes, type Vote, type InsertVote
+import type {
+  User, InsertUser,
+  Token, InsertToken,
+  Proposal, NewProposal,
+  ProposalOption,
+  ProposalAction,
+  Vote, InsertVote,
+  Delegation, InsertDelegation,
+  TokenTransfer, InsertTokenTransfer,
+  TokenBalance,
+  Distribution, RecordDistribution,
+  Airdrop, InsertAirdrop,
+  AirdropAllocation, InsertAirdropAllocation,
+  VestingSchedule, InsertVestingSchedule,
+  IndexerState,
+  ProposalResult, ActivityCounts
 } from "@shared/schema";
-import { db } from "./db";
-import { eq, and, lt, gt } from "drizzle-orm";
+import type { Page, PageOptions } from "./pagination";
+import { DatabaseStorage } from "./db-storage";
+import { MemStorage } from "./mem-storage";
+
+export interface TokenFilter {
+  creatorAddress?: string;
+}
+
+export interface ProposalFilter {
+  tokenAddress?: string;
+  creatorAddress?: string;
+  // Open for voting: status active and end date in the future
+  active?: boolean;
+}
+
+export interface VoteFilter {
+  proposalId?: number;
+  voterAddress?: string;
+}
+
+export interface VestingFilter {
+  tokenAddress?: string;
+  beneficiaryAddress?: string;
+}
+
+export interface PlatformTotals {
+  tokenCount: number;
+  activeProposalCount: number;
+  totalVotes: number;
+  uniqueVoters: number;
+}
 
 export interface IStorage {
   // User operations
@@ -16,209 +56,70 @@ export interface IStorage {
   // Token operations
   getTokenById(id: number): Promise<Token | undefined>;
   getTokenByAddress(contractAddress: string): Promise<Token | undefined>;
-  getTokensByCreator(creatorAddress: string): Promise<Token[]>;
   getAllTokens(): Promise<Token[]>;
+  listTokens(filter: TokenFilter, page: PageOptions): Promise<Page<Token>>;
   createToken(token: InsertToken): Promise<Token>;
   
   // Proposal operations
   getProposalById(id: number): Promise<Proposal | undefined>;
-  getProposalsByToken(tokenAddress: string): Promise<Proposal[]>;
-  getProposalsByCreator(creatorAddress: string): Promise<Proposal[]>;
-  getAllProposals(): Promise<Proposal[]>;
-  getActiveProposals(): Promise<Proposal[]>;
-  createProposal(proposal: InsertProposal): Promise<Proposal>;
-  updateProposalVotes(id: number, votesFor: string, votesAgainst: string): Promise<Proposal>;
+  listProposals(filter: ProposalFilter, page: PageOptions): Promise<Page<Proposal>>;
+  createProposal(proposal: NewProposal): Promise<Proposal>;
+  updateProposalVotes(id: number, votesFor: string, votesAgainst: string, votesAbstain: string): Promise<Proposal>;
   closeProposal(id: number): Promise<Proposal>;
+  getProposalOptions(proposalIds: number[]): Promise<ProposalOption[]>;
+  getProposalActions(proposalIds: number[]): Promise<ProposalAction[]>;
+  getProposalsToFinalize(now: Date): Promise<Proposal[]>;
+  finalizeProposal(id: number, result: ProposalResult, winningOptionId: number | null): Promise<Proposal | undefined>;
   
   // Vote operations
   getVoteById(id: number): Promise<Vote | undefined>;
-  getVotesByProposal(proposalId: number): Promise<Vote[]>;
-  getVotesByVoter(voterAddress: string): Promise<Vote[]>;
+  listVotes(filter: VoteFilter, page: PageOptions): Promise<Page<Vote>>;
   createVote(vote: InsertVote): Promise<Vote>;
   hasVoted(proposalId: number, voterAddress: string): Promise<boolean>;
+  
+  // Delegation operations
+  getCurrentDelegations(tokenAddress: string): Promise<Delegation[]>;
+  recordDelegation(delegation: InsertDelegation): Promise<void>;
+
+  // Transfer operations
+  recordTransfer(transfer: InsertTokenTransfer): Promise<void>;
+  listTokenHolders(tokenAddress: string, page: PageOptions): Promise<Page<TokenBalance>>;
+  getTokenHolderCount(tokenAddress: string): Promise<number>;
+  getSupplyChanges(tokenAddress: string): Promise<TokenTransfer[]>;
+
+  // Statistics operations
+  getPlatformTotals(now: Date): Promise<PlatformTotals>;
+  // Rows created after from, up to and including to
+  getActivityCounts(from: Date, to: Date): Promise<ActivityCounts>;
+  getDailyVoteCounts(from: Date): Promise<{ date: string; votes: number }[]>;
+
+  // Distribution operations
+  createDistribution(senderAddress: string, distribution: RecordDistribution): Promise<Distribution>;
+
+  // Airdrop operations
+  createAirdrop(airdrop: InsertAirdrop, allocations: InsertAirdropAllocation[]): Promise<Airdrop>;
+  getAirdropById(id: number): Promise<Airdrop | undefined>;
+  getAirdropAllocation(airdropId: number, account: string): Promise<AirdropAllocation | undefined>;
+  setAirdropDistributor(id: number, distributorAddress: string, endTime: Date): Promise<Airdrop | undefined>;
+
+  // Vesting operations
+  createVestingSchedule(schedule: InsertVestingSchedule): Promise<VestingSchedule>;
+  getVestingScheduleByAddress(vestingAddress: string): Promise<VestingSchedule | undefined>;
+  listVestingSchedules(filter: VestingFilter, page: PageOptions): Promise<Page<VestingSchedule>>;
+  
+  // Chain sync operations
+  getProposalByChainId(chainId: number, chainProposalId: number): Promise<Proposal | undefined>;
+  upsertChainToken(token: InsertToken, blockNumber: number): Promise<Token>;
+  upsertChainProposal(proposal: NewProposal & { chainProposalId: number }, blockNumber: number): Promise<Proposal>;
+  upsertChainVote(vote: InsertVote, transactionHash: string, blockNumber: number): Promise<Vote>;
+  markProposalQueued(id: number, eta: Date, blockNumber: number): Promise<Proposal>;
+  markProposalExecuted(id: number, blockNumber: number): Promise<Proposal>;
+  rollbackChainData(blockNumber: number): Promise<void>;
+  getIndexerState(name: string): Promise<IndexerState | undefined>;
+  setIndexerState(name: string, blockNumber: number, blockHash: string): Promise<IndexerState>;
 }
 
-export class DatabaseStorage implements IStorage {
-  // User operations
-  async getUser(id: number): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.id, id));
-    return user;
-  }
-
-  async getUserByWalletAddress(walletAddress: string): Promise<User | undefined> {
-    // This is a simplification - in a production environment, we would need to handle case insensitivity more robustly
-    const allUsers = await db.select().from(users);
-    const user = allUsers.find(user => user.walletAddress.toLowerCase() === walletAddress.toLowerCase());
-    return user;
-  }
-
-  async createUser(insertUser: InsertUser): Promise<User> {
-    const [user] = await db
-      .insert(users)
-      .values(insertUser)
-      .returning();
-    return user;
-  }
-
-  // Token operations
-  async getTokenById(id: number): Promise<Token | undefined> {
-    const [token] = await db.select().from(tokens).where(eq(tokens.id, id));
-    return token;
-  }
-
-  async getTokenByAddress(contractAddress: string): Promise<Token | undefined> {
-    const allTokens = await db.select().from(tokens);
-    const token = allTokens.find(token => token.contractAddress.toLowerCase() === contractAddress.toLowerCase());
-    return token;
-  }
-
-  async getTokensByCreator(creatorAddress: string): Promise<Token[]> {
-    const allTokens = await db.select().from(tokens);
-    return allTokens.filter(token => token.creatorAddress.toLowerCase() === creatorAddress.toLowerCase());
-  }
-
-  async getAllTokens(): Promise<Token[]> {
-    return await db.select().from(tokens);
-  }
-
-  async createToken(insertToken: InsertToken): Promise<Token> {
-    const [token] = await db
-      .insert(tokens)
-      .values(insertToken)
-      .returning();
-    return token;
-  }
-
-  // Proposal operations
-  async getProposalById(id: number): Promise<Proposal | undefined> {
-    const [proposal] = await db.select().from(proposals).where(eq(proposals.id, id));
-    return proposal;
-  }
-
-  async getProposalsByToken(tokenAddress: string): Promise<Proposal[]> {
-    const allProposals = await db.select().from(proposals);
-    return allProposals.filter(proposal => proposal.tokenAddress.toLowerCase() === tokenAddress.toLowerCase());
-  }
-
-  async getProposalsByCreator(creatorAddress: string): Promise<Proposal[]> {
-    const allProposals = await db.select().from(proposals);
-    return allProposals.filter(proposal => proposal.creatorAddress.toLowerCase() === creatorAddress.toLowerCase());
-  }
-
-  async getAllProposals(): Promise<Proposal[]> {
-    return await db.select().from(proposals);
-  }
-
-  async getActiveProposals(): Promise<Proposal[]> {
-    const now = new Date();
-    return await db
-      .select()
-      .from(proposals)
-      .where(
-        and(
-          eq(proposals.status, "active"),
-          gt(proposals.endDate, now)
-        )
-      );
-  }
-
-  async createProposal(insertProposal: InsertProposal): Promise<Proposal> {
-    const [proposal] = await db
-      .insert(proposals)
-      .values({
-        ...insertProposal,
-        votesFor: "0",
-        votesAgainst: "0",
-        status: "active"
-      })
-      .returning();
-    return proposal;
-  }
-
-  async updateProposalVotes(id: number, votesFor: string, votesAgainst: string): Promise<Proposal> {
-    const [updatedProposal] = await db
-      .update(proposals)
-      .set({
-        votesFor,
-        votesAgainst
-      })
-      .where(eq(proposals.id, id))
-      .returning();
-
-    if (!updatedProposal) {
-      throw new Error(`Proposal with id ${id} not found`);
-    }
-
-    return updatedProposal;
-  }
-
-  async closeProposal(id: number): Promise<Proposal> {
-    const [updatedProposal] = await db
-      .update(proposals)
-      .set({
-        status: "completed"
-      })
-      .where(eq(proposals.id, id))
-      .returning();
-
-    if (!updatedProposal) {
-      throw new Error(`Proposal with id ${id} not found`);
-    }
-
-    return updatedProposal;
-  }
-
-  // Vote operations
-  async getVoteById(id: number): Promise<Vote | undefined> {
-    const [vote] = await db.select().from(votes).where(eq(votes.id, id));
-    return vote;
-  }
-
-  async getVotesByProposal(proposalId: number): Promise<Vote[]> {
-    return await db
-      .select()
-      .from(votes)
-      .where(eq(votes.proposalId, proposalId));
-  }
-
-  async getVotesByVoter(voterAddress: string): Promise<Vote[]> {
-    const allVotes = await db.select().from(votes);
-    return allVotes.filter(vote => vote.voterAddress.toLowerCase() === voterAddress.toLowerCase());
-  }
-
-  async createVote(insertVote: InsertVote): Promise<Vote> {
-    const [vote] = await db
-      .insert(votes)
-      .values(insertVote)
-      .returning();
-
-    // Update proposal votes
-    const proposal = await this.getProposalById(insertVote.proposalId);
-    if (proposal) {
-      const voteAmount = insertVote.voteAmount;
-      let votesFor = proposal.votesFor;
-      let votesAgainst = proposal.votesAgainst;
-      
-      if (insertVote.voteDirection === "for") {
-        votesFor = (BigInt(votesFor) + BigInt(voteAmount)).toString();
-      } else {
-        votesAgainst = (BigInt(votesAgainst) + BigInt(voteAmount)).toString();
-      }
-      
-      await this.updateProposalVotes(proposal.id, votesFor, votesAgainst);
-    }
-    
-    return vote;
-  }
-
-  async hasVoted(proposalId: number, voterAddress: string): Promise<boolean> {
-    const allVotes = await db.select().from(votes);
-    const vote = allVotes.find(vote => 
-      vote.proposalId === proposalId && 
-      vote.voterAddress.toLowerCase() === voterAddress.toLowerCase()
-    );
-    return !!vote;
-  }
-}
-
-export const storage = new DatabaseStorage();
+// STORAGE_BACKEND=memory runs the API without Postgres, e.g. for local demos
+export const storage: IStorage = process.env.STORAGE_BACKEND === "memory"
+  ? new MemStorage()
+  : new DatabaseStorage();
@@ -5,6 +5,7 @@ import { createServer as createViteServer, createLogger } from "vite";
 import { type Server } from "http";
 import viteConfig from "../vite.config";
 import { nanoid } from "nanoid";
+import { withPageMeta } from "./page-meta";
 
 const viteLogger = createLogger();
 
@@ -58,7 +59,7 @@ export async function setupVite(app: Express, server: Server) {
         `src="/src/main.tsx"`,
         `src="/src/main.tsx?v=${nanoid()}"`,
       );
-      const page = await vite.transformIndexHtml(url, template);
+      const page = await withPageMeta(req, await vite.transformIndexHtml(url, template));
       res.status(200).set({ "Content-Type": "text/html" }).end(page);
     } catch (e) {
       vite.ssrFixStacktrace(e as Error);
@@ -78,8 +79,10 @@ export function serveStatic(app: Express) {
 
   app.use(express.static(distPath));
 
-  // fall through to index.html if the file doesn't exist
-  app.use("*", (_req, res) => {
-    res.sendFile(path.resolve(distPath, "index.html"));
+  // fall through to index.html if the file doesn't exist, with link preview tags for shareable pages
+  const indexHtml = fs.readFileSync(path.resolve(distPath, "index.html"), "utf-8");
+  app.use("*", async (req, res) => {
+    const page = await withPageMeta(req, indexHtml);
+    res.status(200).set({ "Content-Type": "text/html" }).end(page);
   });
 }
@@ -0,0 +1,173 @@
+// Contract ABIs shared by the client and the server; deployment addresses are in networks.ts
+
+// CustomToken ABI
+export const CUSTOM_TOKEN_ABI = [
+  // Read functions
+  "function name() view returns (string)",
+  "function symbol() view returns (string)",
+  "function decimals() view returns (uint8)",
+  "function totalSupply() view returns (uint256)",
+  "function balanceOf(address account) view returns (uint256)",
+  "function allowance(address owner, address spender) view returns (uint256)",
+  "function transferable() view returns (bool)",
+  "function owner() view returns (address)",
+  "function getVotes(address account) view returns (uint256)",
+  "function getPastVotes(address account, uint256 timepoint) view returns (uint256)",
+  "function getPastTotalSupply(uint256 timepoint) view returns (uint256)",
+  "function delegates(address account) view returns (address)",
+  "function nonces(address owner) view returns (uint256)",
+  
+  // Write functions
+  "function transfer(address to, uint256 amount) returns (bool)",
+  "function approve(address spender, uint256 amount) returns (bool)",
+  "function transferFrom(address from, address to, uint256 amount) returns (bool)",
+  "function mint(address to, uint256 amount)",
+  "function setTransferable(bool _transferable)",
+  "function transferOwnership(address newOwner)",
+  "function delegate(address delegatee)",
+  "function delegateBySig(address delegatee, uint256 nonce, uint256 expiry, uint8 v, bytes32 r, bytes32 s)",
+  
+  // Events
+  "event Transfer(address indexed from, address indexed to, uint256 value)",
+  "event Approval(address indexed owner, address indexed spender, uint256 value)",
+  "event DelegateChanged(address indexed delegator, address indexed fromDelegate, address indexed toDelegate)",
+  "event DelegateVotesChanged(address indexed delegate, uint256 previousVotes, uint256 newVotes)"
+];
+
+// Token Factory ABI
+export const TOKEN_FACTORY_ABI = [
+  // Read functions
+  "function tokens(uint256 index) view returns (address)",
+  "function creatorTokens(address creator, uint256 index) view returns (address)",
+  "function getTokenCount() view returns (uint256)",
+  "function getTokensByCreator(address creator) view returns (address[])",
+  "function getCreatorTokenCount(address creator) view returns (uint256)",
+  
+  // Write functions
+  "function createToken(string name, string symbol, uint256 initialSupply, uint8 decimals, bool transferable) returns (address)",
+  
+  // Events
+  "event TokenCreated(address indexed tokenAddress, string name, string symbol, uint256 initialSupply, uint8 decimals, bool transferable, address indexed creator)"
+];
+
+// Governance ABI
+export const GOVERNANCE_ABI = [
+  // Read functions
+  "function proposalCount() view returns (uint256)",
+  "function getProposal(uint256 proposalId) view returns (tuple(uint256 id, string title, string description, address tokenAddress, address creator, uint256 startTime, uint256 endTime, uint256 snapshotBlock, uint256 quorum, uint256 votesFor, uint256 votesAgainst, uint256 votesAbstain, uint256 eta, bool executed))",
+  "function getActions(uint256 proposalId) view returns (address[] targets, uint256[] values, bytes[] calldatas)",
+  "function hasVoted(uint256 proposalId, address voter) view returns (bool)",
+  "function VOTE_AGAINST() view returns (uint8)",
+  "function VOTE_FOR() view returns (uint8)",
+  "function VOTE_ABSTAIN() view returns (uint8)",
+  "function MAX_TIMELOCK_DELAY() view returns (uint256)",
+  "function MAX_ACTIONS() view returns (uint256)",
+  "function timelockDelay() view returns (uint256)",
+  "function getVote(uint256 proposalId, address voter) view returns (bool voted, uint8 support, uint256 weight)",
+  
+  // Write functions
+  "function createProposal(string title, string description, address tokenAddress, uint256 duration, uint256 quorumPercent, address[] targets, uint256[] values, bytes[] calldatas) returns (uint256)",
+  "function castVote(uint256 proposalId, uint8 support)",
+  "function queueProposal(uint256 proposalId) returns (uint256)",
+  "function executeProposal(uint256 proposalId)",
+  
+  // Events
+  "event ProposalCreated(uint256 indexed proposalId, string title, address indexed tokenAddress, address indexed creator, uint256 startTime, uint256 endTime, uint256 snapshotBlock, uint256 quorum)",
+  "event VoteCast(uint256 indexed proposalId, address indexed voter, uint8 support, uint256 weight)",
+  "event ProposalQueued(uint256 indexed proposalId, uint256 eta)",
+  "event ProposalExecuted(uint256 indexed proposalId, bool passed)"
+];
+
+// Batch Distributor ABI
+export const BATCH_DISTRIBUTOR_ABI = [
+  // Write functions
+  "function distribute(address token, address[] recipients, uint256[] amounts)",
+
+  // Events
+  "event Distributed(address indexed token, address indexed sender, uint256 recipientCount, uint256 totalAmount)"
+];
+
+// Merkle Distributor ABI
+export const MERKLE_DISTRIBUTOR_ABI = [
+  // Read functions
+  "function token() view returns (address)",
+  "function merkleRoot() view returns (bytes32)",
+  "function endTime() view returns (uint256)",
+  "function owner() view returns (address)",
+  "function isClaimed(uint256 index) view returns (bool)",
+
+  // Write functions
+  "function claim(uint256 index, address account, uint256 amount, bytes32[] merkleProof)",
+  "function withdraw()",
+
+  // Events
+  "event Claimed(uint256 index, address indexed account, uint256 amount)",
+  "event Withdrawn(address indexed to, uint256 amount)"
+];
+
+// Merkle Distributor Factory ABI
+export const MERKLE_DISTRIBUTOR_FACTORY_ABI = [
+  // Write functions
+  "function createDistributor(address token, bytes32 merkleRoot, uint256 totalAmount, uint256 endTime) returns (address)",
+
+  // Events
+  "event DistributorCreated(address indexed distributor, address indexed token, address indexed creator, bytes32 merkleRoot, uint256 totalAmount, uint256 endTime)"
+];
+
+// Token Vesting ABI
+export const TOKEN_VESTING_ABI = [
+  // Read functions
+  "function token() view returns (address)",
+  "function beneficiary() view returns (address)",
+  "function owner() view returns (address)",
+  "function start() view returns (uint64)",
+  "function cliffDuration() view returns (uint64)",
+  "function duration() view returns (uint64)",
+  "function revocable() view returns (bool)",
+  "function revoked() view returns (bool)",
+  "function released() view returns (uint256)",
+  "function releasable() view returns (uint256)",
+  "function vestedAmount(uint64 timestamp) view returns (uint256)",
+
+  // Write functions
+  "function release()",
+  "function revoke()",
+
+  // Events
+  "event Released(address indexed beneficiary, uint256 amount)",
+  "event Revoked(uint256 refund)"
+];
+
+// Token Vesting Factory ABI
+export const TOKEN_VESTING_FACTORY_ABI = [
+  // Write functions
+  "function createVesting(address token, address beneficiary, uint256 amount, uint64 start, uint64 cliffDuration, uint64 duration, bool revocable) returns (address)",
+
+  // Events
+  "event VestingCreated(address indexed vesting, address indexed token, address indexed beneficiary, address creator, uint256 amount)"
+];
+
+// Custom errors the contracts revert with, all from their OpenZeppelin base contracts
+export const CONTRACT_ERRORS_ABI = [
+  "error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)",
+  "error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)",
+  "error ERC20InvalidSender(address sender)",
+  "error ERC20InvalidReceiver(address receiver)",
+  "error ERC20InvalidApprover(address approver)",
+  "error ERC20InvalidSpender(address spender)",
+  "error ERC2612ExpiredSignature(uint256 deadline)",
+  "error ERC2612InvalidSigner(address signer, address owner)",
+  "error VotesExpiredSignature(uint256 expiry)",
+  "error ERC20ExceededSafeSupply(uint256 increasedSupply, uint256 cap)",
+  "error InvalidAccountNonce(address account, uint256 currentNonce)",
+  "error OwnableUnauthorizedAccount(address account)",
+  "error OwnableInvalidOwner(address owner)",
+  "error SafeERC20FailedOperation(address token)"
+];
+
+// Governance.castVote support values
+export const VOTE_SUPPORT = {
+  against: 0,
+  for: 1,
+  abstain: 2,
+} as const;
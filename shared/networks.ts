@@ -0,0 +1,111 @@
+// Chains the platform can run on, with their RPC, explorer and deployed contract addresses
+
+export interface NativeCurrency {
+  name: string;
+  symbol: string;
+  decimals: number;
+}
+
+// Addresses of the platform contracts on a chain; empty until that contract is deployed there
+export interface NetworkContracts {
+  tokenFactory: string;
+  governance: string;
+  // Without it bulk distributions send one transfer per recipient
+  batchDistributor: string;
+  merkleDistributorFactory: string;
+  tokenVestingFactory: string;
+}
+
+export interface Network {
+  chainId: number;
+  name: string;
+  rpcUrl: string;
+  // Empty for chains without a block explorer, e.g. a local devnet
+  explorerUrl: string;
+  nativeCurrency: NativeCurrency;
+  testnet: boolean;
+  contracts: NetworkContracts;
+  // Block the first platform contract was deployed at, where the indexer starts; null until recorded
+  deploymentBlock: number | null;
+}
+
+const NOT_DEPLOYED: NetworkContracts = {
+  tokenFactory: "",
+  governance: "",
+  batchDistributor: "",
+  merkleDistributorFactory: "",
+  tokenVestingFactory: "",
+};
+
+const CELO: NativeCurrency = { name: "Celo", symbol: "CELO", decimals: 18 };
+
+export const CELO_MAINNET: Network = {
+  chainId: 42220,
+  name: "Celo",
+  rpcUrl: "https://forno.celo.org",
+  explorerUrl: "https://celoscan.io",
+  nativeCurrency: CELO,
+  testnet: false,
+  contracts: NOT_DEPLOYED,
+  deploymentBlock: null,
+};
+
+// Contracts from contracts/README.md have to be redeployed here: the earlier deployments predate
+// ERC20Votes tokens and the current Governance ABI, so the client reports them as not deployed
+export const CELO_ALFAJORES: Network = {
+  chainId: 44787,
+  name: "Celo Alfajores",
+  rpcUrl: "https://alfajores-forno.celo-testnet.org",
+  explorerUrl: "https://alfajores.celoscan.io",
+  nativeCurrency: CELO,
+  testnet: true,
+  contracts: NOT_DEPLOYED,
+  deploymentBlock: null,
+};
+
+export const CELO_SEPOLIA: Network = {
+  chainId: 11142220,
+  name: "Celo Sepolia",
+  rpcUrl: "https://forno.celo-sepolia.celo-testnet.org",
+  explorerUrl: "https://celo-sepolia.blockscout.com",
+  nativeCurrency: CELO,
+  testnet: true,
+  contracts: NOT_DEPLOYED,
+  deploymentBlock: null,
+};
+
+// Hardhat or Anvil node; fill in the addresses printed by your local deployment
+export const LOCAL_DEVNET: Network = {
+  chainId: 31337,
+  name: "Local Devnet",
+  rpcUrl: "http://127.0.0.1:8545",
+  explorerUrl: "",
+  nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+  testnet: true,
+  contracts: NOT_DEPLOYED,
+  // A fresh node is indexed from genesis
+  deploymentBlock: 0,
+};
+
+export const NETWORKS: Network[] = [CELO_MAINNET, CELO_ALFAJORES, CELO_SEPOLIA, LOCAL_DEVNET];
+
+// Network used when none is configured or no wallet is connected
+export const DEFAULT_CHAIN_ID = CELO_ALFAJORES.chainId;
+
+export function getNetwork(chainId: number | null | undefined): Network | undefined {
+  return NETWORKS.find((network) => network.chainId === chainId);
+}
+
+export function isSupportedChainId(chainId: number): boolean {
+  return getNetwork(chainId) !== undefined;
+}
+
+// Explorer page for an address, transaction or token; undefined when the chain has no explorer
+export function getExplorerUrl(
+  chainId: number | null | undefined,
+  kind: "address" | "tx" | "token",
+  value: string
+): string | undefined {
+  const network = getNetwork(chainId) ?? getNetwork(DEFAULT_CHAIN_ID)!;
+  return network.explorerUrl ? `${network.explorerUrl}/${kind}/${value}` : undefined;
+}
@@ -0,0 +1,9 @@
+import type { ProposalWithDetails, Vote } from "./schema";
+
+// WebSocket endpoint on the API server that pushes proposal and vote changes
+export const REALTIME_PATH = "/api/live";
+
+export type RealtimeEvent =
+  | { type: "proposal_created"; proposal: ProposalWithDetails }
+  | { type: "vote_cast"; proposal: ProposalWithDetails; vote: Vote }
+  | { type: "proposal_closed"; proposal: ProposalWithDetails };
@@ -1,13 +1,21 @@
-import { pgTable, text, serial, integer, boolean, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, numeric, unique, index } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { DEFAULT_CHAIN_ID, isSupportedChainId } from "./networks";
+
+// Lower-cased copy of an address column, maintained by Postgres so lookups can use an index
+const lowerAddress = (column: string) =>
+  text(`${column}_lower`).notNull().generatedAlwaysAs(sql.raw(`lower(${column})`));
 
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
-  username: text("username").notNull().unique(),
-  password: text("password").notNull(),
   walletAddress: text("wallet_address").notNull().unique(),
-});
+  walletAddressLower: lowerAddress("wallet_address"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("users_wallet_address_lower_idx").on(table.walletAddressLower),
+]);
 
 export const tokens = pgTable("tokens", {
   id: serial("id").primaryKey(),
@@ -16,57 +24,283 @@ export const tokens = pgTable("tokens", {
   totalSupply: text("total_supply").notNull(),
   decimals: integer("decimals").notNull().default(18),
   contractAddress: text("contract_address").notNull(),
+  contractAddressLower: lowerAddress("contract_address"),
   creatorAddress: text("creator_address").notNull(),
+  creatorAddressLower: lowerAddress("creator_address"),
   isTransferable: boolean("is_transferable").notNull().default(true),
+  chainId: integer("chain_id").notNull().default(DEFAULT_CHAIN_ID), // network in shared/networks.ts
+  blockNumber: integer("block_number"), // set when synced from chain
   createdAt: timestamp("created_at").notNull().defaultNow(),
-});
+}, (table) => [
+  // Checksummed and lower-case spellings of an address are the same token
+  unique("tokens_contract_address_unique").on(table.contractAddressLower),
+  index("tokens_creator_address_lower_idx").on(table.creatorAddressLower, table.createdAt),
+  index("tokens_created_at_idx").on(table.createdAt),
+]);
 
 export const proposals = pgTable("proposals", {
   id: serial("id").primaryKey(),
   title: text("title").notNull(),
   description: text("description").notNull(),
   creatorAddress: text("creator_address").notNull(),
+  creatorAddressLower: lowerAddress("creator_address"),
   tokenAddress: text("token_address").notNull(),
+  tokenAddressLower: lowerAddress("token_address"),
   tokenSymbol: text("token_symbol").notNull(),
+  tokenDecimals: integer("token_decimals").notNull().default(18),
   startDate: timestamp("start_date").notNull(),
   endDate: timestamp("end_date").notNull(),
+  snapshotBlock: integer("snapshot_block"), // block at which voting power is measured
   quorum: integer("quorum").notNull().default(25), // as percentage
+  snapshotTotalSupply: text("snapshot_total_supply"), // token supply at snapshotBlock, in base units
+  quorumThreshold: text("quorum_threshold"), // votes needed for quorum, in base units
+  proposalType: text("proposal_type").notNull().default("binary"), // binary, multiple_choice
   votesFor: text("votes_for").notNull().default("0"),
   votesAgainst: text("votes_against").notNull().default("0"),
+  votesAbstain: text("votes_abstain").notNull().default("0"),
   status: text("status").notNull().default("active"), // active, completed
+  result: text("result"), // passed, failed, no_quorum; set once voting has ended
+  winningOptionId: integer("winning_option_id"), // multiple-choice proposals that passed
+  finalizedAt: timestamp("finalized_at"),
+  chainId: integer("chain_id").notNull().default(DEFAULT_CHAIN_ID), // network in shared/networks.ts
+  chainProposalId: integer("chain_proposal_id"), // id in the Governance contract on chainId
+  blockNumber: integer("block_number"), // set when synced from chain
+  eta: timestamp("eta"), // earliest execution time once queued in the timelock
+  queuedBlock: integer("queued_block"),
+  executedBlock: integer("executed_block"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
-});
+}, (table) => [
+  unique("proposals_chain_proposal_unique").on(table.chainId, table.chainProposalId),
+  index("proposals_token_address_lower_idx").on(table.tokenAddressLower, table.createdAt),
+  index("proposals_creator_address_lower_idx").on(table.creatorAddressLower, table.createdAt),
+  index("proposals_status_end_date_idx").on(table.status, table.endDate),
+  index("proposals_created_at_idx").on(table.createdAt),
+]);
+
+// Choices of a multiple-choice proposal, with their running tallies
+export const proposalOptions = pgTable("proposal_options", {
+  id: serial("id").primaryKey(),
+  proposalId: integer("proposal_id").notNull(),
+  label: text("label").notNull(),
+  position: integer("position").notNull(),
+  votes: text("votes").notNull().default("0"),
+}, (table) => [
+  index("proposal_options_proposal_idx").on(table.proposalId),
+]);
+
+// Calls the Governance contract makes when a passed proposal is executed
+export const proposalActions = pgTable("proposal_actions", {
+  id: serial("id").primaryKey(),
+  proposalId: integer("proposal_id").notNull(),
+  position: integer("position").notNull(),
+  target: text("target").notNull(),
+  value: text("value").notNull().default("0"), // native token sent with the call, in wei
+  calldata: text("calldata").notNull(),
+}, (table) => [
+  index("proposal_actions_proposal_idx").on(table.proposalId),
+]);
 
 export const votes = pgTable("votes", {
   id: serial("id").primaryKey(),
   proposalId: integer("proposal_id").notNull(),
   voterAddress: text("voter_address").notNull(),
+  voterAddressLower: lowerAddress("voter_address"),
   voteAmount: text("vote_amount").notNull(),
-  voteDirection: text("vote_direction").notNull(), // for, against
+  voteDirection: text("vote_direction").notNull(), // for, against, abstain, option
+  optionId: integer("option_id"), // set when voteDirection is "option"
+  transactionHash: text("transaction_hash"),
+  blockNumber: integer("block_number"), // set when synced from chain
   timestamp: timestamp("timestamp").notNull().defaultNow(),
+}, (table) => [
+  // One vote per address and proposal, regardless of address casing
+  unique("votes_proposal_voter_unique").on(table.proposalId, table.voterAddressLower),
+  index("votes_voter_timestamp_idx").on(table.voterAddressLower, table.timestamp),
+  index("votes_timestamp_idx").on(table.timestamp),
+]);
+
+// DelegateChanged history per token; the latest row per delegator is the current delegate
+export const delegations = pgTable("delegations", {
+  id: serial("id").primaryKey(),
+  tokenAddress: text("token_address").notNull(),
+  tokenAddressLower: lowerAddress("token_address"),
+  delegatorAddress: text("delegator_address").notNull(),
+  delegateAddress: text("delegate_address").notNull(),
+  blockNumber: integer("block_number").notNull(),
+  transactionHash: text("transaction_hash").notNull(),
+  logIndex: integer("log_index").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  unique("delegations_event_unique").on(table.transactionHash, table.logIndex),
+  index("delegations_token_delegator_idx").on(table.tokenAddressLower, table.delegatorAddress),
+]);
+
+// Transfer events of indexed tokens; mints come from and burns go to the zero address
+export const tokenTransfers = pgTable("token_transfers", {
+  id: serial("id").primaryKey(),
+  tokenAddress: text("token_address").notNull(),
+  tokenAddressLower: lowerAddress("token_address"),
+  fromAddress: text("from_address").notNull(),
+  toAddress: text("to_address").notNull(),
+  value: numeric("value", { precision: 78, scale: 0 }).notNull(), // base units
+  blockNumber: integer("block_number").notNull(),
+  blockTimestamp: timestamp("block_timestamp").notNull(),
+  transactionHash: text("transaction_hash").notNull(),
+  logIndex: integer("log_index").notNull(),
+}, (table) => [
+  unique("token_transfers_event_unique").on(table.transactionHash, table.logIndex),
+  index("token_transfers_token_block_idx").on(table.tokenAddressLower, table.blockNumber),
+]);
+
+// Current balance of every address that has held a token, kept in step with token_transfers
+export const tokenBalances = pgTable("token_balances", {
+  id: serial("id").primaryKey(),
+  tokenAddress: text("token_address").notNull(),
+  tokenAddressLower: lowerAddress("token_address"),
+  holderAddress: text("holder_address").notNull(),
+  balance: numeric("balance", { precision: 78, scale: 0 }).notNull().default("0"), // base units
+}, (table) => [
+  unique("token_balances_token_holder_unique").on(table.tokenAddressLower, table.holderAddress),
+  index("token_balances_token_balance_idx").on(table.tokenAddressLower, table.balance, table.id),
+]);
+
+// Bulk token distributions sent from the app, recorded once every batch has been mined
+export const distributions = pgTable("distributions", {
+  id: serial("id").primaryKey(),
+  tokenAddress: text("token_address").notNull(),
+  tokenAddressLower: lowerAddress("token_address"),
+  senderAddress: text("sender_address").notNull(),
+  senderAddressLower: lowerAddress("sender_address"),
+  recipientCount: integer("recipient_count").notNull(),
+  totalAmount: text("total_amount").notNull(), // base units
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("distributions_token_address_lower_idx").on(table.tokenAddressLower),
+  index("distributions_sender_address_lower_idx").on(table.senderAddressLower, table.createdAt),
+]);
+
+// Recipients of a distribution and the transaction that paid each of them
+export const distributionRecipients = pgTable("distribution_recipients", {
+  id: serial("id").primaryKey(),
+  distributionId: integer("distribution_id").notNull(),
+  recipientAddress: text("recipient_address").notNull(),
+  amount: text("amount").notNull(), // base units
+  transactionHash: text("transaction_hash").notNull(),
+}, (table) => [
+  index("distribution_recipients_distribution_idx").on(table.distributionId),
+]);
+
+// Merkle airdrops; recipients claim from a MerkleDistributor once the creator has deployed and funded it
+export const airdrops = pgTable("airdrops", {
+  id: serial("id").primaryKey(),
+  tokenAddress: text("token_address").notNull(),
+  tokenAddressLower: lowerAddress("token_address"),
+  creatorAddress: text("creator_address").notNull(),
+  merkleRoot: text("merkle_root").notNull(),
+  totalAmount: text("total_amount").notNull(), // base units
+  recipientCount: integer("recipient_count").notNull(),
+  endTime: timestamp("end_time").notNull(), // claims close and the creator can withdraw the rest
+  distributorAddress: text("distributor_address"), // set once the MerkleDistributor is deployed
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("airdrops_token_address_lower_idx").on(table.tokenAddressLower),
+]);
+
+// Leaves of an airdrop's Merkle tree, each stored with its proof
+export const airdropAllocations = pgTable("airdrop_allocations", {
+  id: serial("id").primaryKey(),
+  airdropId: integer("airdrop_id").notNull(),
+  leafIndex: integer("leaf_index").notNull(),
+  account: text("account").notNull(),
+  accountLower: lowerAddress("account"),
+  amount: text("amount").notNull(), // base units
+  proof: text("proof").array().notNull(),
+}, (table) => [
+  unique("airdrop_allocations_airdrop_account_unique").on(table.airdropId, table.accountLower),
+]);
+
+// TokenVesting contracts registered by their creators; release and revocation state is read from the chain
+export const vestingSchedules = pgTable("vesting_schedules", {
+  id: serial("id").primaryKey(),
+  vestingAddress: text("vesting_address").notNull(),
+  vestingAddressLower: lowerAddress("vesting_address"),
+  tokenAddress: text("token_address").notNull(),
+  tokenAddressLower: lowerAddress("token_address"),
+  creatorAddress: text("creator_address").notNull(),
+  beneficiaryAddress: text("beneficiary_address").notNull(),
+  beneficiaryAddressLower: lowerAddress("beneficiary_address"),
+  totalAmount: text("total_amount").notNull(), // base units funded at registration
+  startTime: timestamp("start_time").notNull(),
+  cliffTime: timestamp("cliff_time").notNull(), // nothing vests before this
+  endTime: timestamp("end_time").notNull(), // everything has vested from this
+  revocable: boolean("revocable").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  unique("vesting_schedules_vesting_address_unique").on(table.vestingAddressLower),
+  index("vesting_schedules_token_address_lower_idx").on(table.tokenAddressLower),
+  index("vesting_schedules_beneficiary_address_lower_idx").on(table.beneficiaryAddressLower),
+]);
+
+// Progress of the chain event indexer
+export const indexerState = pgTable("indexer_state", {
+  name: text("name").primaryKey(),
+  blockNumber: integer("block_number").notNull(),
+  blockHash: text("block_hash").notNull(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).pick({
-  username: true,
-  password: true,
   walletAddress: true,
 });
 
-export const insertTokenSchema = createInsertSchema(tokens).omit({
-  id: true,
-  createdAt: true,
-});
+const chainIdSchema = z.number().int().refine(isSupportedChainId, { message: "Chain is not supported" });
 
-export const insertProposalSchema = createInsertSchema(proposals)
+export const insertTokenSchema = createInsertSchema(tokens)
   .omit({
     id: true,
+    blockNumber: true,
+    createdAt: true,
+  })
+  .extend({
+    chainId: chainIdSchema.optional(),
+  });
+
+export const proposalActionSchema = createInsertSchema(proposalActions)
+  .pick({
+    target: true,
+    value: true,
+    calldata: true,
+  })
+  .extend({
+    target: z.string().regex(/^0x[0-9a-fA-F]{40}$/, "Invalid target address"),
+    value: z.string().regex(/^\d+$/, "Value must be a whole number of wei").default("0"),
+    calldata: z.string().regex(/^0x([0-9a-fA-F]{2})*$/, "Calldata must be hex encoded"),
+  });
+
+// Fields a proposal's creator submits; the snapshot and quorum are computed by the server
+// and the Governance id is read from the chain, never taken from the request
+const proposalFieldsSchema = createInsertSchema(proposals)
+  .omit({
+    id: true,
+    snapshotBlock: true,
+    snapshotTotalSupply: true,
+    quorumThreshold: true,
+    chainProposalId: true,
     votesFor: true,
     votesAgainst: true,
+    votesAbstain: true,
     status: true,
+    result: true,
+    winningOptionId: true,
+    finalizedAt: true,
+    blockNumber: true,
+    eta: true,
+    queuedBlock: true,
+    executedBlock: true,
     createdAt: true,
   })
   .extend({
+    chainId: chainIdSchema.optional(),
     // Ensure dates can be parsed from string format
     startDate: z.string().or(z.date()).transform((val) => 
       typeof val === 'string' ? new Date(val) : val
@@ -74,20 +308,241 @@ export const insertProposalSchema = createInsertSchema(proposals)
     endDate: z.string().or(z.date()).transform((val) => 
       typeof val === 'string' ? new Date(val) : val
     ),
+    proposalType: z.enum(["binary", "multiple_choice"]).default("binary"),
+    // Labels of the choices of a multiple-choice proposal
+    options: z.array(z.string().trim().min(1).max(100)).max(10).optional(),
+    // Calls made on execution, mirroring Governance.createProposal
+    actions: z.array(proposalActionSchema).max(10).optional(),
+  });
+
+const refineProposal = (val: z.infer<typeof proposalFieldsSchema>, ctx: z.RefinementCtx) => {
+  if (val.proposalType === "multiple_choice" && (val.options?.length ?? 0) < 2) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["options"],
+      message: "Multiple-choice proposals need at least 2 options",
+    });
+  }
+  if (val.proposalType === "binary" && val.options?.length) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["options"],
+      message: "Binary proposals cannot have options",
+    });
+  }
+  // Governance.createProposal rejects other targets and any native value
+  val.actions?.forEach((action, index) => {
+    if (action.target.toLowerCase() !== val.tokenAddress.toLowerCase()) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["actions", index, "target"],
+        message: "Actions can only call the proposal's token",
+      });
+    }
+    if (BigInt(action.value) !== BigInt(0)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["actions", index, "value"],
+        message: "Actions cannot send native currency",
+      });
+    }
+  });
+};
+
+export const insertProposalSchema = proposalFieldsSchema.superRefine(refineProposal);
+
+// Body of POST /api/proposals; on-chain proposals name the transaction that created them
+export const createProposalSchema = proposalFieldsSchema
+  .extend({
+    transactionHash: z.string().regex(/^0x[0-9a-fA-F]{64}$/, "Invalid transaction hash").optional(),
+  })
+  .superRefine((val, ctx) => {
+    refineProposal(val, ctx);
+    if (val.actions?.length && !val.transactionHash) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["actions"],
+        message: "Only on-chain proposals can have actions",
+      });
+    }
   });
 
 export const insertVoteSchema = createInsertSchema(votes).omit({
   id: true,
+  transactionHash: true,
+  blockNumber: true,
   timestamp: true,
 });
 
+export const insertDelegationSchema = createInsertSchema(delegations).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertTokenTransferSchema = createInsertSchema(tokenTransfers).omit({
+  id: true,
+});
+
+export const insertAirdropSchema = createInsertSchema(airdrops).omit({
+  id: true,
+  distributorAddress: true,
+  createdAt: true,
+});
+
+export const insertAirdropAllocationSchema = createInsertSchema(airdropAllocations).omit({
+  id: true,
+  airdropId: true,
+});
+
+export const insertVestingScheduleSchema = createInsertSchema(vestingSchedules).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Body of POST /api/votes; the voter and weight are determined by the server
+// What the client sends after creating a token; everything stored comes from the transaction
+export const createTokenSchema = z
+  .object({
+    transactionHash: z.string().regex(/^0x[0-9a-fA-F]{64}$/, "Invalid transaction hash"),
+  })
+  .strict();
+
+export const castVoteSchema = insertVoteSchema
+  .pick({
+    proposalId: true,
+    voteDirection: true,
+    optionId: true,
+  })
+  .extend({
+    voteDirection: z.enum(["for", "against", "abstain", "option"]),
+    optionId: z.number().int().optional(),
+  })
+  .strict()
+  .refine((val) => (val.voteDirection === "option") === (val.optionId !== undefined), {
+    path: ["optionId"],
+    message: "optionId is required for option votes and only allowed for them",
+  });
+
+// Largest distribution a single request may record
+export const MAX_DISTRIBUTION_RECIPIENTS = 2000;
+
+// Body of POST /api/distributions; the sender is the signed-in wallet and the total is summed by the server
+export const recordDistributionSchema = z
+  .object({
+    tokenAddress: z.string().regex(/^0x[0-9a-fA-F]{40}$/, "Invalid token address"),
+    recipients: z
+      .array(
+        z.object({
+          recipientAddress: z.string().regex(/^0x[0-9a-fA-F]{40}$/, "Invalid recipient address"),
+          amount: z.string().regex(/^[1-9]\d*$/, "Amount must be a positive integer in base units"),
+          transactionHash: z.string().regex(/^0x[0-9a-fA-F]{64}$/, "Invalid transaction hash"),
+        })
+      )
+      .min(1)
+      .max(MAX_DISTRIBUTION_RECIPIENTS),
+  })
+  .strict();
+
+// Largest allocation list a single airdrop may have
+export const MAX_AIRDROP_RECIPIENTS = 10000;
+
+// Body of POST /api/airdrops; the creator is the signed-in wallet and the tree is built by the server
+export const createAirdropSchema = z
+  .object({
+    tokenAddress: z.string().regex(/^0x[0-9a-fA-F]{40}$/, "Invalid token address"),
+    durationDays: z.number().int().min(1).max(365),
+    allocations: z
+      .array(
+        z.object({
+          account: z.string().regex(/^0x[0-9a-fA-F]{40}$/, "Invalid account address"),
+          amount: z.string().regex(/^[1-9]\d*$/, "Amount must be a positive integer in base units"),
+        })
+      )
+      .min(1)
+      .max(MAX_AIRDROP_RECIPIENTS),
+  })
+  .strict()
+  .refine(
+    (val) => new Set(val.allocations.map((allocation) => allocation.account.toLowerCase())).size === val.allocations.length,
+    { path: ["allocations"], message: "Each account may only appear once" }
+  );
+
+// Body of POST /api/airdrops/:id/deploy; the distributor is read from the deploying transaction
+export const deployAirdropSchema = z
+  .object({
+    transactionHash: z.string().regex(/^0x[0-9a-fA-F]{64}$/, "Invalid transaction hash"),
+  })
+  .strict();
+
+// Body of POST /api/vesting; the schedule itself is read from the contract
+export const registerVestingSchema = z
+  .object({
+    vestingAddress: z.string().regex(/^0x[0-9a-fA-F]{40}$/, "Invalid vesting contract address"),
+  })
+  .strict();
+
+// Final outcomes of a proposal whose voting period has ended
+export const PROPOSAL_RESULTS = ["passed", "failed", "no_quorum"] as const;
+
 // Types
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type InsertToken = z.infer<typeof insertTokenSchema>;
+export type CreateToken = z.infer<typeof createTokenSchema>;
 export type InsertProposal = z.infer<typeof insertProposalSchema>;
+export type CreateProposal = z.infer<typeof createProposalSchema>;
+export type InsertProposalAction = z.infer<typeof proposalActionSchema>;
 export type InsertVote = z.infer<typeof insertVoteSchema>;
+export type CastVote = z.infer<typeof castVoteSchema>;
+export type InsertDelegation = z.infer<typeof insertDelegationSchema>;
+export type InsertTokenTransfer = z.infer<typeof insertTokenTransferSchema>;
+export type RecordDistribution = z.infer<typeof recordDistributionSchema>;
+export type InsertAirdrop = z.infer<typeof insertAirdropSchema>;
+export type InsertAirdropAllocation = z.infer<typeof insertAirdropAllocationSchema>;
+export type CreateAirdrop = z.infer<typeof createAirdropSchema>;
+export type InsertVestingSchedule = z.infer<typeof insertVestingScheduleSchema>;
 
 export type User = typeof users.$inferSelect;
 export type Token = typeof tokens.$inferSelect;
 export type Proposal = typeof proposals.$inferSelect;
+export type ProposalOption = typeof proposalOptions.$inferSelect;
+export type ProposalResult = typeof PROPOSAL_RESULTS[number];
+export type ProposalAction = typeof proposalActions.$inferSelect;
+// A proposal as stored, with the fields the server and indexer fill in
+export type NewProposal = InsertProposal &
+  Partial<Pick<Proposal, "chainProposalId" | "snapshotBlock" | "snapshotTotalSupply" | "quorumThreshold">>;
+export type ProposalWithDetails = Proposal & {
+  options: ProposalOption[];
+  actions: ProposalAction[];
+  quorumReached: boolean;
+  participation: number | null; // percent of snapshotTotalSupply that voted
+};
 export type Vote = typeof votes.$inferSelect;
+export type Delegation = typeof delegations.$inferSelect;
+export type TokenTransfer = typeof tokenTransfers.$inferSelect;
+export type TokenBalance = typeof tokenBalances.$inferSelect;
+export type TokenWithDetails = Token & {
+  transferable: boolean; // read from the contract, falling back to isTransferable
+  holderCount: number;
+  supplyChanges: TokenTransfer[]; // mints and burns, oldest first
+};
+export type ActivityCounts = {
+  tokens: number;
+  proposals: number;
+  votes: number;
+  voters: number; // distinct addresses that voted
+};
+export type PlatformStats = {
+  tokenCount: number;
+  activeProposalCount: number;
+  totalVotes: number;
+  uniqueVoters: number;
+  // Activity in the last `days` days and in the window before it
+  trends: { days: number; current: ActivityCounts; previous: ActivityCounts }[];
+  dailyVotes: { date: string; votes: number }[]; // one entry per UTC day, oldest first
+};
+export type Distribution = typeof distributions.$inferSelect;
+export type DistributionRecipient = typeof distributionRecipients.$inferSelect;
+export type Airdrop = typeof airdrops.$inferSelect;
+export type AirdropAllocation = typeof airdropAllocations.$inferSelect;
+export type VestingSchedule = typeof vestingSchedules.$inferSelect;
+export type IndexerState = typeof indexerState.$inferSelect;
@@ -0,0 +1,80 @@
+// Token amounts are stored, summed and sent on-chain as integer strings in base
+// units; these helpers convert them to and from what people read and type,
+// using the decimals of the token record.
+
+export const DEFAULT_DECIMALS = 18;
+
+export interface FormatTokenAmountOptions {
+  // Fraction digits to keep; extra digits are truncated, never rounded up
+  maximumFractionDigits?: number;
+  // Abbreviate large amounts, e.g. 1.2M
+  compact?: boolean;
+  // BCP 47 locale, defaults to the runtime's locale
+  locale?: string;
+}
+
+const toBigInt = (value: string | bigint): bigint =>
+  typeof value === "bigint" ? value : BigInt(value || "0");
+
+// 10^decimals, the number of base units in one whole token
+const unit = (decimals: number): bigint => BigInt(`1${"0".repeat(decimals)}`);
+
+// Parse a human-entered amount such as "1.5" into base units
+export function parseTokenAmount(value: string, decimals: number): bigint {
+  const trimmed = value.trim();
+  if (!/^\d+(\.\d+)?$/.test(trimmed) && !/^\.\d+$/.test(trimmed)) {
+    throw new Error(`Invalid amount: "${value}"`);
+  }
+
+  const [whole = "", fraction = ""] = trimmed.split(".");
+  if (fraction.length > decimals) {
+    throw new Error(`Amount has more than ${decimals} decimal places`);
+  }
+
+  return BigInt(whole || "0") * unit(decimals) + BigInt(fraction.padEnd(decimals, "0") || "0");
+}
+
+// Exact decimal representation of a base-unit amount, without grouping, e.g. for input fields
+export function toDecimalString(value: string | bigint, decimals: number): string {
+  const amount = toBigInt(value);
+  const negative = amount < BigInt(0);
+  const absolute = negative ? -amount : amount;
+
+  const whole = (absolute / unit(decimals)).toString();
+  const fraction = decimals > 0
+    ? (absolute % unit(decimals)).toString().padStart(decimals, "0").replace(/0+$/, "")
+    : "";
+
+  return `${negative ? "-" : ""}${whole}${fraction ? `.${fraction}` : ""}`;
+}
+
+// Locale-formatted amount for display, e.g. "1,234.5" or "1.2K" when compact
+export function formatTokenAmount(
+  value: string | bigint,
+  decimals: number,
+  { maximumFractionDigits = 4, compact = false, locale }: FormatTokenAmountOptions = {}
+): string {
+  const decimal = toDecimalString(value, decimals);
+
+  if (compact) {
+    return new Intl.NumberFormat(locale, {
+      notation: "compact",
+      maximumFractionDigits: Math.min(maximumFractionDigits, 2),
+    }).format(Number(decimal));
+  }
+
+  // Group the whole part as a bigint so large supplies keep every digit
+  const negative = decimal.startsWith("-");
+  const [whole, fraction = ""] = decimal.replace("-", "").split(".");
+  const formatter = new Intl.NumberFormat(locale);
+  const shownFraction = fraction.slice(0, maximumFractionDigits).replace(/0+$/, "");
+  const decimalSeparator = formatter.formatToParts(1.1).find((part) => part.type === "decimal")?.value ?? ".";
+
+  const formatted = formatter.format(BigInt(whole)) + (shownFraction ? `${decimalSeparator}${shownFraction}` : "");
+  return negative && formatted !== "0" ? `-${formatted}` : formatted;
+}
+
+// Sum base-unit amounts, e.g. vote weights, returning a base-unit string
+export function sumTokenAmounts(values: Array<string | bigint>): string {
+  return values.reduce<bigint>((sum, value) => sum + toBigInt(value), BigInt(0)).toString();
+}